@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import config from "../config/config";
+import adminAuditService, {
+  AdminAuditService,
+} from "../services/adminAuditService";
+import contractAdminService from "../services/contractAdminService";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+const logPath = () =>
+  path.resolve(config.storage.dataDir, "admin-audit.jsonl");
+
+const record = (service: AdminAuditService, action: string) =>
+  service.record({
+    action,
+    actor: { keyId: "ak_test" },
+    params: { privateKey: "0xsecret" },
+    outcome: "succeeded",
+  });
+
+describe("AdminAuditService", () => {
+  beforeEach(() => {
+    for (const file of fs.readdirSync(config.storage.dataDir)) {
+      if (file.startsWith("admin-audit")) {
+        fs.rmSync(path.resolve(config.storage.dataDir, file));
+      }
+    }
+  });
+
+  it("moves a log kept in the old key-value store", () => {
+    const oldService = new AdminAuditService();
+    const entries = [
+      record(oldService, "apiKey.create"),
+      record(oldService, "apiKey.revoke"),
+    ];
+    fs.rmSync(logPath());
+
+    const legacy = new JsonFileStore("admin-audit-log");
+    for (const entry of [...entries].reverse()) {
+      legacy.set(String(entry.sequence), entry);
+    }
+
+    const service = new AdminAuditService();
+
+    expect(service.list().entries.map((entry) => entry.id)).toEqual(
+      entries.map((entry) => entry.id).reverse()
+    );
+    expect(service.verify().valid).toBe(true);
+    expect(record(service, "apiKey.create").sequence).toBe(3);
+    expect(
+      fs.existsSync(
+        path.resolve(config.storage.dataDir, "admin-audit-log.jsonl.migrated")
+      )
+    ).toBe(true);
+  });
+
+  it("appends entries without rewriting earlier ones", () => {
+    const service = new AdminAuditService();
+    record(service, "apiKey.create");
+    record(service, "apiKey.revoke");
+    const written = fs.readFileSync(logPath(), "utf8");
+
+    const entry = record(service, "webhook.create");
+    const after = fs.readFileSync(logPath(), "utf8");
+
+    expect(after.startsWith(written)).toBe(true);
+    expect(JSON.parse(after.slice(written.length))).toEqual(entry);
+    expect(entry.params.privateKey).toBe("[redacted]");
+  });
+
+  it("reloads the chain and continues it after a restart", () => {
+    const first = record(new AdminAuditService(), "apiKey.create");
+
+    const service = new AdminAuditService();
+    const second = record(service, "apiKey.revoke");
+
+    expect(second.sequence).toBe(2);
+    expect(second.previousHash).toBe(first.hash);
+    expect(service.verify()).toMatchObject({ valid: true, total: 2 });
+  });
+
+  it("finds entries edited or removed on disk", () => {
+    const service = new AdminAuditService();
+    record(service, "apiKey.create");
+    record(service, "apiKey.revoke");
+    record(service, "webhook.create");
+
+    const lines = fs.readFileSync(logPath(), "utf8").split("\n");
+    fs.writeFileSync(
+      logPath(),
+      [lines[0], lines[1].replace("apiKey.revoke", "apiKey.list"), lines[2]]
+        .map((line) => `${line}\n`)
+        .join("")
+    );
+
+    expect(service.verify()).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 2 },
+    });
+
+    fs.writeFileSync(logPath(), `${lines[0]}\n`);
+
+    expect(service.verify()).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 2 },
+    });
+  });
+});
+
+describe("ContractAdminService.listAudit", () => {
+  it("lists the contract entries of the admin audit log", () => {
+    record(adminAuditService, "apiKey.create");
+    record(adminAuditService, "contract.pause");
+
+    const { entries } = contractAdminService.listAudit();
+
+    expect(entries.map((entry) => entry.action)).toEqual(["contract.pause"]);
+    expect(
+      contractAdminService.listAudit({ action: "unpause" }).entries
+    ).toEqual([]);
+  });
+});
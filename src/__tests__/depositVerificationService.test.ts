@@ -0,0 +1,154 @@
+import depositVerificationService, {
+  DepositSource,
+} from "../services/depositVerificationService";
+import metaTransactionService from "../services/metaTransactionService";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import {
+  getNetworkProvider,
+  getTransactionStatus,
+} from "../utils/crossChainUtils";
+
+// Prices are not needed, and the real service polls exchange rates
+jest.mock("../services/tokenFeeService", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+jest.mock("../utils/crossChainUtils", () => ({
+  ...jest.requireActual("../utils/crossChainUtils"),
+  getNetworkProvider: jest.fn(),
+  getTransactionStatus: jest.fn(),
+}));
+
+const RECIPIENT = "0x00000000000000000000000000000000000000aa";
+
+const deposit = (hash: string): DepositSource => ({
+  network: "ethereum",
+  depositTxHash: `0x${hash.padStart(64, "0")}`,
+  token: "usdt",
+  isTestnet: false,
+});
+
+describe("DepositVerificationService claims", () => {
+  it("lets a deposit be claimed by one transfer at a time", () => {
+    const source = deposit("1");
+    depositVerificationService.claim(source, "0xt1");
+
+    expect(() => depositVerificationService.claim(source, "0xt2")).toThrow(
+      /already being processed/
+    );
+  });
+
+  it("frees a released claim but never a paid one", () => {
+    const released = deposit("2");
+    const key = depositVerificationService.claim(released, "0xt1");
+    depositVerificationService.release(key);
+    expect(depositVerificationService.checkUnclaimed(released)).toBe(key);
+
+    const paid = deposit("3");
+    const paidKey = depositVerificationService.claim(paid, "0xt2");
+    depositVerificationService.markPaid(paidKey, "0xpayout");
+    depositVerificationService.release(paidKey);
+
+    expect(() => depositVerificationService.checkUnclaimed(paid)).toThrow(
+      /already been paid out/
+    );
+  });
+
+  it("keys deposits by network type", () => {
+    const mainnet = deposit("4");
+    depositVerificationService.claim(mainnet, "0xt1");
+
+    expect(() =>
+      depositVerificationService.checkUnclaimed({
+        ...mainnet,
+        isTestnet: true,
+      })
+    ).not.toThrow();
+  });
+});
+
+describe("DepositVerificationService.verify", () => {
+  const { treasuryAddress } = config.deposit;
+
+  beforeAll(() => {
+    config.deposit.treasuryAddress =
+      "0x00000000000000000000000000000000000000ee";
+  });
+
+  afterAll(() => {
+    config.deposit.treasuryAddress = treasuryAddress;
+  });
+
+  it("rejects a deposit whose transaction the node cannot find", async () => {
+    (getTransactionStatus as jest.Mock).mockResolvedValue({
+      status: "confirmed",
+      receipt: { status: 1, confirmations: 12, blockNumber: 1, logs: [] },
+      confirmations: 12,
+    });
+    (getNetworkProvider as jest.Mock).mockReturnValue({
+      provider: { getTransaction: async () => null },
+    });
+
+    await expect(
+      depositVerificationService.verify(deposit("20"))
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe("Deposit-backed meta-transfers", () => {
+  const request = (hash: string) => ({
+    recipient: RECIPIENT,
+    network: "ethereum",
+    depositTxHash: deposit(hash).depositTxHash,
+    token: "usdt",
+  });
+
+  beforeEach(() => {
+    jest
+      .spyOn(depositVerificationService, "calculatePayout")
+      .mockResolvedValue("15000");
+  });
+
+  afterEach(() => {
+    jest.mocked(depositVerificationService.calculatePayout).mockRestore();
+    jest.mocked(depositVerificationService.verify).mockRestore();
+  });
+
+  const verifiedFrom = (sender: string) =>
+    jest.spyOn(depositVerificationService, "verify").mockResolvedValue({
+      sender,
+      amount: "1",
+      confirmations: 12,
+      blockNumber: 1,
+    });
+
+  it("refuses to pay a deposit out to anyone but its sender", async () => {
+    verifiedFrom("0x00000000000000000000000000000000000000bb");
+
+    await expect(
+      metaTransactionService.executeTransfer(request("10"))
+    ).rejects.toMatchObject({
+      statusCode: 403,
+      code: "DEPOSIT_SENDER_MISMATCH",
+    });
+
+    // The claim is released, so the real sender can still use the deposit
+    expect(() =>
+      depositVerificationService.checkUnclaimed(deposit("10"))
+    ).not.toThrow();
+  });
+
+  it("pays a deposit out to its sender", async () => {
+    verifiedFrom(RECIPIENT.toUpperCase().replace("0X", "0x"));
+    const limits = jest
+      .spyOn(metaTransactionService as any, "fetchContractLimits")
+      .mockRejectedValue(new ServiceError("limits checked", 418));
+
+    await expect(
+      metaTransactionService.executeTransfer(request("11"))
+    ).rejects.toThrow("limits checked");
+    limits.mockRestore();
+  });
+});
@@ -0,0 +1,75 @@
+import config from "../config/config";
+import { IdempotencyService } from "../services/idempotencyService";
+import { MetaTransferResponse } from "../types";
+
+describe("IdempotencyService", () => {
+  const service = new IdempotencyService();
+  const fingerprint = service.fingerprint({ recipient: "0x1", amount: "1" });
+  const response: MetaTransferResponse = {
+    success: true,
+    transferId: "0xabc",
+    transactionHash: "0xdef",
+  };
+
+  it("fingerprints payloads regardless of key order", () => {
+    expect(service.fingerprint({ amount: "1", recipient: "0x1" })).toBe(
+      fingerprint
+    );
+  });
+
+  it("returns the stored response when a completed key is replayed", () => {
+    expect(service.begin("completed", fingerprint)).toBeUndefined();
+    service.complete("completed", response);
+
+    expect(service.begin("completed", fingerprint)).toEqual(response);
+  });
+
+  it("rejects a key reused with a different payload", () => {
+    service.begin("payload", fingerprint);
+
+    expect(() => service.begin("payload", "other")).toThrow(
+      /different request payload/
+    );
+  });
+
+  it("rejects a key while its request is in flight or submitted", () => {
+    service.begin("in-flight", fingerprint);
+    expect(() => service.begin("in-flight", fingerprint)).toThrow(
+      /already being processed/
+    );
+
+    service.markSubmitted("in-flight", "0xabc", "0xdef");
+    expect(() => service.begin("in-flight", fingerprint)).toThrow(
+      /already submitted/
+    );
+  });
+
+  it("frees a released key for a retry", () => {
+    service.begin("released", fingerprint);
+    service.release("released");
+
+    expect(service.begin("released", fingerprint)).toBeUndefined();
+  });
+
+  it("keeps submitted keys past the TTL", () => {
+    service.begin("old", fingerprint);
+    service.markSubmitted("old", "0xabc", "0xdef");
+
+    const later = Date.now() + config.idempotency.ttlMs + 1;
+    const clock = jest.spyOn(Date, "now").mockReturnValue(later);
+
+    expect(() => service.begin("old", fingerprint)).toThrow(
+      /already submitted/
+    );
+    clock.mockRestore();
+  });
+
+  it("survives a restart", () => {
+    service.begin("restart", fingerprint);
+    service.complete("restart", response);
+
+    expect(new IdempotencyService().begin("restart", fingerprint)).toEqual(
+      response
+    );
+  });
+});
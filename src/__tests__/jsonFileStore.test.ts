@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+import config from "../config/config";
+import { CorruptLogError } from "../utils/appendOnlyLog";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+const dataFile = (name: string) =>
+  path.resolve(config.storage.dataDir, `${name}.jsonl`);
+
+describe("JsonFileStore", () => {
+  beforeAll(() => {
+    fs.mkdirSync(config.storage.dataDir, { recursive: true });
+  });
+
+  it("persists sets and deletes across reloads", () => {
+    const store = new JsonFileStore<{ n: number }>("reload");
+    store.set("a", { n: 1 });
+    store.set("b", { n: 2 });
+    store.set("a", { n: 3 });
+    store.delete("b");
+
+    const reloaded = new JsonFileStore<{ n: number }>("reload");
+    expect(reloaded.get("a")).toEqual({ n: 3 });
+    expect(reloaded.has("b")).toBe(false);
+    expect(reloaded.values()).toHaveLength(1);
+  });
+
+  it("appends one line per change instead of rewriting the file", () => {
+    const store = new JsonFileStore<{ n: number }>("append");
+    store.set("a", { n: 1 });
+    const before = fs.readFileSync(dataFile("append"), "utf8");
+
+    store.set("b", { n: 2 });
+    const after = fs.readFileSync(dataFile("append"), "utf8");
+
+    expect(after.startsWith(before)).toBe(true);
+    expect(after.trim().split("\n")).toHaveLength(2);
+  });
+
+  it("compacts the log once it grows well past the live records", () => {
+    const store = new JsonFileStore<{ n: number }>("compact");
+    for (let n = 0; n < 1500; n++) {
+      store.set("counter", { n });
+    }
+
+    const lines = fs.readFileSync(dataFile("compact"), "utf8").trim();
+    expect(lines.split("\n").length).toBeLessThan(1500);
+    expect(new JsonFileStore("compact").get("counter")).toEqual({ n: 1499 });
+  });
+
+  it("refuses to load a corrupt file and leaves it in place", () => {
+    fs.writeFileSync(dataFile("corrupt"), '{"key":"a","value":1}\nnot json\n');
+
+    expect(() => new JsonFileStore("corrupt")).toThrow(CorruptLogError);
+    expect(fs.existsSync(dataFile("corrupt"))).toBe(true);
+  });
+
+  it("drops an append cut short by a crash", () => {
+    fs.writeFileSync(dataFile("torn"), '{"key":"a","value":1}\n{"key":"b"');
+
+    const store = new JsonFileStore<number>("torn");
+    expect(store.values()).toEqual([1]);
+
+    store.set("c", 3);
+    expect(new JsonFileStore<number>("torn").values()).toEqual([1, 3]);
+  });
+
+  it("converts a store written as a single JSON file", () => {
+    const legacy = path.resolve(config.storage.dataDir, "legacy.json");
+    fs.writeFileSync(legacy, JSON.stringify({ a: 1, b: 2 }));
+
+    expect(new JsonFileStore<number>("legacy").values()).toEqual([1, 2]);
+    expect(fs.existsSync(legacy)).toBe(false);
+    expect(new JsonFileStore<number>("legacy").get("b")).toBe(2);
+  });
+});
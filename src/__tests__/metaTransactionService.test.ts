@@ -0,0 +1,340 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { MetaTransactionService } from "../services/metaTransactionService";
+import transactionWatchdogService from "../services/transactionWatchdogService";
+import transferLedgerService from "../services/transferLedgerService";
+import transferStatusService from "../services/transferStatusService";
+import { BatchTransferItemResult } from "../types";
+import {
+  generateTransferId,
+  getContract,
+  getOperatorPool,
+  getProvider,
+} from "../utils/blockchain";
+
+jest.mock("../utils/blockchain", () => ({
+  ...jest.requireActual("../utils/blockchain"),
+  getContract: jest.fn(),
+  getOperatorPool: jest.fn(),
+  getProvider: jest.fn(),
+}));
+
+// Prices are not needed, and the real service polls exchange rates
+jest.mock("../services/tokenFeeService", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// IDRX has 2 decimals
+const idrx = (amount: string) => ethers.utils.parseUnits(amount, 2);
+
+const transfers = [
+  {
+    recipient: "0x1234567890abcdef1234567890abcdef12345678",
+    idrxAmount: "20000",
+  },
+  {
+    recipient: "0xabcdef1234567890abcdef1234567890abcdef12",
+    idrxAmount: "30000",
+  },
+];
+
+beforeAll(() => {
+  (getContract as jest.Mock).mockReturnValue({
+    minTransferAmount: async () => idrx("10000"),
+    getEffectiveMaxTransferAmount: async () => idrx("1000000"),
+    getReserveStatus: async () => ({
+      reserve: idrx("100000000"),
+      isActive: true,
+    }),
+  });
+});
+
+describe("MetaTransactionService.executeBatchTransfer", () => {
+  const service = new MetaTransactionService();
+  let processSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    // Stand in for broadcasting, reporting every item as confirmed
+    processSpy = jest
+      .spyOn(service as any, "processBatch")
+      .mockImplementation(async (items: any) =>
+        items.map(
+          (item: any): BatchTransferItemResult => ({
+            index: item.index,
+            success: true,
+            transferId: item.transferId,
+            status: "confirmed",
+            recipient: item.recipient,
+            amount: item.idrxAmount,
+            transactionHash: `0x${item.index}`,
+          })
+        )
+      );
+  });
+
+  afterAll(() => {
+    processSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    processSpy.mockClear();
+  });
+
+  it("replays a batch sent again with the same key", async () => {
+    const first = await service.executeBatchTransfer({
+      transfers,
+      idempotencyKey: "ak_1:payroll",
+    });
+    const replay = await service.executeBatchTransfer({
+      transfers,
+      idempotencyKey: "ak_1:payroll",
+    });
+
+    expect(replay).toEqual(first);
+    expect(first.succeeded).toBe(2);
+    expect(processSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a key reused with different items", async () => {
+    await service.executeBatchTransfer({
+      transfers,
+      idempotencyKey: "ak_1:changed",
+    });
+
+    await expect(
+      service.executeBatchTransfer({
+        transfers: [transfers[0]],
+        idempotencyKey: "ak_1:changed",
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(processSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("frees the key of a batch rejected before broadcast", async () => {
+    const tooSmall = [{ ...transfers[0], idrxAmount: "1" }];
+
+    await expect(
+      service.executeBatchTransfer({
+        transfers: tooSmall,
+        idempotencyKey: "ak_1:rejected",
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    await expect(
+      service.executeBatchTransfer({
+        transfers: tooSmall,
+        idempotencyKey: "ak_1:rejected",
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(processSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("MetaTransactionService submitted idempotency keys", () => {
+  const service = new MetaTransactionService();
+  const provider = {
+    getTransactionReceipt: jest.fn(),
+    getTransaction: jest.fn(),
+  };
+  const hashes: string[] = [];
+  let broadcastSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  // Every broadcast is submitted, but waiting for its receipt fails
+  beforeAll(() => {
+    errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    (getProvider as jest.Mock).mockReturnValue(provider);
+    (getOperatorPool as jest.Mock).mockReturnValue({ complete: jest.fn() });
+
+    broadcastSpy = jest
+      .spyOn(service as any, "broadcastTransfer")
+      .mockImplementation(async (transferId: any) => {
+        const hash = `0x${String(hashes.length + 1).padStart(64, "0")}`;
+        hashes.push(hash);
+        transferStatusService.markSubmitted(transferId, hash);
+
+        return {
+          hash,
+          from: "0x00000000000000000000000000000000000000aa",
+          nonce: hashes.length,
+          wait: async () => {
+            throw new Error("connection reset");
+          },
+        };
+      });
+  });
+
+  afterAll(() => {
+    broadcastSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    broadcastSpy.mockClear();
+    provider.getTransactionReceipt.mockReset().mockResolvedValue(null);
+    provider.getTransaction.mockReset().mockResolvedValue({});
+  });
+
+  const send = (key: string) =>
+    service.executeTransfer({
+      recipient: transfers[0].recipient,
+      idrxAmount: "20000",
+      idempotencyKey: key,
+    });
+
+  const receipt = (status: number) => ({
+    status,
+    transactionHash: hashes[hashes.length - 1],
+    blockNumber: 5,
+    gasUsed: ethers.BigNumber.from(50000),
+  });
+
+  it("keeps the key while the transaction is pending", async () => {
+    await expect(send("ak_1:pending")).rejects.toMatchObject({
+      statusCode: 500,
+    });
+
+    await expect(send("ak_1:pending")).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(broadcastSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays a transfer found mined after waiting failed", async () => {
+    await expect(send("ak_1:mined")).rejects.toMatchObject({
+      statusCode: 500,
+    });
+    const transferId = broadcastSpy.mock.calls[0][0];
+    provider.getTransactionReceipt.mockResolvedValue(receipt(1));
+
+    await expect(send("ak_1:mined")).resolves.toMatchObject({
+      transferId,
+      status: "confirmed",
+      transactionHash: hashes[hashes.length - 1],
+    });
+    expect(broadcastSpy).toHaveBeenCalledTimes(1);
+    expect(transferLedgerService.getEntry(transferId).status).toBe(
+      "confirmed"
+    );
+  });
+
+  it("frees the key of a transfer that reverted", async () => {
+    await expect(send("ak_1:reverted")).rejects.toMatchObject({
+      statusCode: 500,
+    });
+    const transferId = broadcastSpy.mock.calls[0][0];
+    provider.getTransactionReceipt.mockResolvedValueOnce(receipt(0));
+
+    await expect(send("ak_1:reverted")).rejects.toMatchObject({
+      statusCode: 500,
+    });
+    expect(broadcastSpy).toHaveBeenCalledTimes(2);
+    expect(transferLedgerService.getEntry(transferId).status).toBe("failed");
+  });
+
+  it("frees the key of a transaction the node dropped", async () => {
+    await expect(send("ak_1:dropped")).rejects.toMatchObject({
+      statusCode: 500,
+    });
+    const transferId = broadcastSpy.mock.calls[0][0];
+    provider.getTransaction.mockResolvedValue(null);
+
+    const later = Date.now() + config.transferStatus.dropTimeoutMs + 1;
+    const clock = jest.spyOn(Date, "now").mockReturnValue(later);
+
+    await expect(send("ak_1:dropped")).rejects.toMatchObject({
+      statusCode: 500,
+    });
+    clock.mockRestore();
+
+    expect(broadcastSpy).toHaveBeenCalledTimes(2);
+    expect(transferLedgerService.getEntry(transferId)).toMatchObject({
+      status: "failed",
+      error: "Transaction was dropped without being mined",
+    });
+  });
+});
+
+describe("MetaTransactionService.resume", () => {
+  const service = new MetaTransactionService();
+  const receipts = new Map<string, object>();
+  let trackSpy: jest.SpyInstance;
+  let untrackSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    (getProvider as jest.Mock).mockReturnValue({
+      getTransactionReceipt: async (hash: string) => receipts.get(hash) || null,
+      getTransaction: async (hash: string) => ({
+        hash,
+        from: "0x00000000000000000000000000000000000000aa",
+      }),
+    });
+    (getOperatorPool as jest.Mock).mockReturnValue({
+      get: () => ({ signer: {} }),
+    });
+    trackSpy = jest
+      .spyOn(transactionWatchdogService, "track")
+      .mockImplementation(() => undefined);
+    untrackSpy = jest.spyOn(transactionWatchdogService, "untrack");
+    jest.useFakeTimers();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    trackSpy.mockRestore();
+    untrackSpy.mockRestore();
+  });
+
+  /**
+   * Record a transfer as the service would have left it when it stopped
+   */
+  const unfinished = (hash?: string) => {
+    const transferId = generateTransferId();
+    transferStatusService.markQueued(transferId, transfers[0].recipient, "1");
+    if (hash) {
+      transferStatusService.markSubmitted(transferId, hash);
+    }
+    return transferId;
+  };
+
+  const mined = (hash: string) => ({
+    status: 1,
+    transactionHash: hash,
+    blockNumber: 5,
+    gasUsed: ethers.BigNumber.from(50000),
+  });
+
+  it("settles transfers left unfinished by a restart", async () => {
+    const minedHash = `0x${"a1".repeat(32)}`;
+    const pendingHash = `0x${"b2".repeat(32)}`;
+    receipts.set(minedHash, mined(minedHash));
+
+    const queued = unfinished();
+    const confirmed = unfinished(minedHash);
+    const pending = unfinished(pendingHash);
+
+    await service.resume();
+
+    expect(transferLedgerService.getEntry(queued)).toMatchObject({
+      status: "failed",
+      error: "Interrupted by a restart before it was broadcast",
+    });
+    expect(transferLedgerService.getEntry(confirmed).status).toBe(
+      "confirmed"
+    );
+    expect(transferLedgerService.getEntry(pending).status).toBe("submitted");
+    expect(trackSpy).toHaveBeenCalledWith(
+      pending,
+      expect.objectContaining({ hash: pendingHash }),
+      {}
+    );
+
+    // The watched transfer is settled once it is mined
+    receipts.set(pendingHash, mined(pendingHash));
+    await jest.advanceTimersByTimeAsync(config.watchdog.intervalMs);
+
+    expect(transferLedgerService.getEntry(pending).status).toBe("confirmed");
+    expect(untrackSpy).toHaveBeenCalledWith(pending);
+  });
+});
@@ -0,0 +1,112 @@
+import { ethers } from "ethers";
+import { NonceManager } from "../utils/nonceManager";
+
+const ADDRESS = "0x0000000000000000000000000000000000000001";
+
+/**
+ * Signer stub with a settable pending transaction count
+ */
+const createSigner = (pending: number) => {
+  const chain = { pending };
+  const signer = {
+    chain,
+    getAddress: jest.fn(async () => ADDRESS),
+    getTransactionCount: jest.fn(async () => chain.pending),
+    sendTransaction: jest.fn(
+      async (tx: ethers.providers.TransactionRequest) => ({
+        hash: `0x${String(tx.nonce).padStart(64, "0")}`,
+        nonce: tx.nonce,
+        wait: async () => ({ status: 1 }),
+      })
+    ),
+  };
+
+  return signer;
+};
+
+describe("NonceManager", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("allocates consecutive nonces to concurrent senders", async () => {
+    const manager = new NonceManager(
+      createSigner(7) as unknown as ethers.Signer
+    );
+
+    const nonces = await Promise.all(
+      [1, 2, 3].map(() => manager.sendWithNonce(async (nonce) => nonce))
+    );
+
+    expect(nonces).toEqual([7, 8, 9]);
+    expect(manager.pendingCount).toBe(3);
+  });
+
+  it("hands out a nonce released at the top again", async () => {
+    const manager = new NonceManager(
+      createSigner(0) as unknown as ethers.Signer
+    );
+
+    await manager.allocate();
+    await expect(
+      manager.sendWithNonce(async () => {
+        throw new Error("broadcast failed");
+      })
+    ).rejects.toThrow("broadcast failed");
+
+    expect(await manager.allocate()).toBe(1);
+  });
+
+  it("reuses a released nonce below one in flight", async () => {
+    const manager = new NonceManager(
+      createSigner(0) as unknown as ethers.Signer
+    );
+
+    const first = await manager.allocate();
+    await manager.allocate();
+    manager.release(first);
+
+    expect(await manager.allocate()).toBe(first);
+    expect(await manager.allocate()).toBe(2);
+  });
+
+  it("fills a gap no new transaction takes with a self-transfer", async () => {
+    jest.useFakeTimers();
+    const signer = createSigner(0);
+    const manager = new NonceManager(signer as unknown as ethers.Signer);
+
+    const first = await manager.allocate();
+    await manager.allocate();
+    manager.release(first);
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(signer.sendTransaction).toHaveBeenCalledWith({
+      to: ADDRESS,
+      value: 0,
+      nonce: first,
+    });
+    expect(await manager.allocate()).toBe(2);
+  });
+
+  it("resyncs and retries once after a nonce error", async () => {
+    const signer = createSigner(3);
+    const manager = new NonceManager(signer as unknown as ethers.Signer);
+    const tried: number[] = [];
+
+    const nonce = await manager.sendWithNonce(async (nonce) => {
+      tried.push(nonce);
+      if (tried.length === 1) {
+        // Another wallet sent two transactions from the same account
+        signer.chain.pending = 5;
+        throw Object.assign(new Error("nonce too low"), {
+          code: "NONCE_EXPIRED",
+        });
+      }
+      return nonce;
+    });
+
+    expect(tried).toEqual([3, 5]);
+    expect(nonce).toBe(5);
+  });
+});
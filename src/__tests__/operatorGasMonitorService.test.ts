@@ -0,0 +1,161 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { OperatorGasMonitorService } from "../services/operatorGasMonitorService";
+import transferLedgerService, {
+  TransferLedgerEntry,
+} from "../services/transferLedgerService";
+import { getOperatorPool, getProvider } from "../utils/blockchain";
+import { serviceEvents } from "../utils/events";
+import { Operator } from "../utils/operatorPool";
+
+jest.mock("../utils/blockchain", () => ({
+  ...jest.requireActual("../utils/blockchain"),
+  getOperatorPool: jest.fn(),
+  getProvider: jest.fn(),
+}));
+
+const FIRST = "0x00000000000000000000000000000000000000a1";
+const SECOND = "0x00000000000000000000000000000000000000b2";
+const RETIRED = "0x00000000000000000000000000000000000000c3";
+
+// 120000 gas at 1 gwei
+const COST_PER_TRANSFER = ethers.utils.parseUnits("120000", "gwei");
+
+describe("OperatorGasMonitorService", () => {
+  const operatorGas = { ...config.operatorGas };
+  const operators = [
+    { address: FIRST, status: "active" },
+    { address: SECOND, status: "active" },
+    { address: RETIRED, status: "retired" },
+  ] as Operator[];
+  let balances: Record<string, ethers.BigNumber | Error>;
+  let service: OperatorGasMonitorService;
+  let samplesSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  const transfers = (count: number) => COST_PER_TRANSFER.mul(count);
+
+  beforeAll(() => {
+    (getOperatorPool as jest.Mock).mockReturnValue({ list: () => operators });
+    (getProvider as jest.Mock).mockReturnValue({
+      getGasPrice: async () => ethers.utils.parseUnits("1", "gwei"),
+      getBalance: async (address: string) => {
+        const balance = balances[address];
+        if (balance instanceof Error) {
+          throw balance;
+        }
+        return balance;
+      },
+    });
+  });
+
+  beforeEach(() => {
+    service = new OperatorGasMonitorService();
+    balances = { [FIRST]: transfers(500), [SECOND]: transfers(500) };
+    samplesSpy = jest
+      .spyOn(transferLedgerService, "listRecentReceipts")
+      .mockReturnValue([
+        { gasUsed: "100000" },
+        { gasUsed: "140000" },
+      ] as TransferLedgerEntry[]);
+    warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    samplesSpy.mockRestore();
+    warnSpy.mockRestore();
+    config.operatorGas = { ...operatorGas };
+  });
+
+  it("estimates transfers left from the gas used by recent transfers", async () => {
+    balances[SECOND] = transfers(40).add(1);
+
+    const report = await service.refresh();
+
+    expect(report).toMatchObject({
+      averageGasUsed: "120000",
+      sampleSize: 2,
+      estimatedCostPerTransfer: "0.00012",
+    });
+    expect(report.operators).toEqual([
+      expect.objectContaining({
+        address: FIRST,
+        status: "ok",
+        estimatedTransfersRemaining: 500,
+      }),
+      expect.objectContaining({
+        address: SECOND,
+        status: "low",
+        estimatedTransfersRemaining: 40,
+      }),
+    ]);
+  });
+
+  it("assumes the fallback gas limit before any transfer is mined", async () => {
+    samplesSpy.mockReturnValue([]);
+    config.operatorGas.fallbackGasLimit = 60000;
+
+    const report = await service.refresh();
+
+    expect(report.averageGasUsed).toBe("60000");
+    expect(report.operators[0].estimatedTransfersRemaining).toBe(1000);
+  });
+
+  it("publishes status changes", async () => {
+    const listener = jest.fn();
+    serviceEvents.on("operator.gas_status_changed", listener);
+
+    await service.refresh();
+    expect(listener).not.toHaveBeenCalled();
+
+    balances[FIRST] = transfers(10);
+    await service.refresh();
+    await service.refresh();
+
+    serviceEvents.off("operator.gas_status_changed", listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      address: FIRST,
+      previousStatus: "ok",
+      status: "low",
+      balance: ethers.utils.formatEther(transfers(10)),
+      estimatedTransfersRemaining: 10,
+    });
+  });
+
+  it("keeps the last status when a balance cannot be read", async () => {
+    balances[FIRST] = transfers(0);
+    await service.refresh();
+
+    balances[FIRST] = new Error("timeout");
+    const report = await service.refresh();
+
+    expect(report.operators[0]).toMatchObject({
+      status: "critical",
+      balance: null,
+      error: "timeout",
+    });
+    expect(service.canPay(operators[0])).toBe(false);
+  });
+
+  it("rejects transfers only while every active operator is critical", async () => {
+    config.operatorGas.rejectBelowTransfers = 20;
+    balances[FIRST] = transfers(19);
+    await service.refresh();
+
+    expect(service.canPay(operators[0])).toBe(false);
+    expect(service.canPay(operators[1])).toBe(true);
+    expect(() => service.checkCanPay()).not.toThrow();
+
+    balances[SECOND] = transfers(5);
+    await service.refresh();
+
+    expect(() => service.checkCanPay()).toThrow(
+      expect.objectContaining({ statusCode: 503, code: "OPERATOR_GAS_LOW" })
+    );
+
+    config.operatorGas.rejectBelowTransfers = 0;
+    expect(() => service.checkCanPay()).not.toThrow();
+  });
+});
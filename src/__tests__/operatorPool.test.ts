@@ -0,0 +1,23 @@
+import { ethers } from "ethers";
+import { OperatorPool } from "../utils/operatorPool";
+
+const CONTRACT = "0x00000000000000000000000000000000000000cc";
+
+describe("OperatorPool.primary", () => {
+  it("moves to the next key when the primary is retired", async () => {
+    const pool = new OperatorPool({} as any, CONTRACT);
+    const first = await pool.addSigner(ethers.Wallet.createRandom());
+    const second = await pool.addSigner(ethers.Wallet.createRandom());
+
+    expect(pool.primary()).toBe(first);
+
+    pool.setStatus(first.address, "draining");
+    expect(pool.primary()).toBe(first);
+
+    pool.setStatus(first.address, "retired");
+    expect(pool.primary()).toBe(second);
+
+    pool.setStatus(second.address, "retired");
+    expect(pool.primary()).toBeUndefined();
+  });
+});
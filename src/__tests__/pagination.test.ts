@@ -0,0 +1,23 @@
+import { paginate } from "../utils/pagination";
+
+describe("paginate", () => {
+  const items = [1, 2, 3, 4, 5];
+
+  it("returns the requested page", () => {
+    expect(paginate(items, 2, 2)).toEqual({
+      items: [3, 4],
+      pagination: { page: 2, limit: 2, total: 5, hasMore: true },
+    });
+  });
+
+  it("reports the last page", () => {
+    expect(paginate(items, 3, 2)).toEqual({
+      items: [5],
+      pagination: { page: 3, limit: 2, total: 5, hasMore: false },
+    });
+  });
+
+  it("returns no items past the end", () => {
+    expect(paginate(items, 4, 2).items).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import config from "../config/config";
+import { QuoteService } from "../services/quoteService";
+
+// Prices are not needed, and the real service polls exchange rates
+jest.mock("../services/tokenFeeService", () => ({
+  __esModule: true,
+  default: {
+    calculateIdrxAmount: async () => ({
+      idrxAmount: 160000.567,
+      feeCalculation: {},
+    }),
+  },
+}));
+
+describe("QuoteService", () => {
+  const service = new QuoteService();
+  let now: number;
+  let clock: jest.SpyInstance;
+
+  const create = () => service.createQuote({ token: "usdt", amount: 10 });
+
+  beforeEach(() => {
+    now = Date.now();
+    clock = jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  it("locks the IDRX amount, rounded down to 2 decimals", async () => {
+    const quote = await create();
+
+    expect(quote).toMatchObject({
+      idrxAmount: "160000.56",
+      status: "open",
+      expiresAt: now + config.quotes.ttlMs,
+    });
+  });
+
+  it("can be used by one transfer at a time", async () => {
+    const { quoteId } = await create();
+
+    service.reserve(quoteId, "0xt1");
+    expect(() => service.reserve(quoteId, "0xt2")).toThrow(
+      expect.objectContaining({ statusCode: 409 })
+    );
+
+    service.release(quoteId);
+    expect(service.reserve(quoteId, "0xt2").transferId).toBe("0xt2");
+  });
+
+  it("can only be paid once", async () => {
+    const { quoteId } = await create();
+
+    service.reserve(quoteId, "0xt1");
+    service.consume(quoteId, "0xpaid");
+    service.release(quoteId);
+
+    expect(service.getQuote(quoteId).status).toBe("consumed");
+    expect(() => service.checkUsable(quoteId)).toThrow(
+      expect.objectContaining({ statusCode: 409 })
+    );
+  });
+
+  it("cannot be used once expired", async () => {
+    const { quoteId } = await create();
+
+    now += config.quotes.ttlMs;
+
+    expect(() => service.reserve(quoteId, "0xt1")).toThrow(
+      expect.objectContaining({ statusCode: 410 })
+    );
+  });
+
+  it("drops used and expired quotes after the retention period", async () => {
+    const expired = await create();
+    const used = await create();
+    const reserved = await create();
+    service.reserve(used.quoteId, "0xt1");
+    service.consume(used.quoteId, "0xpaid");
+    service.reserve(reserved.quoteId, "0xt2");
+
+    now += config.quotes.ttlMs + config.quotes.retentionMs;
+    expect(service.getQuote(expired.quoteId).status).toBe("open");
+
+    now += 1;
+    await create();
+
+    for (const { quoteId } of [expired, used]) {
+      expect(() => service.getQuote(quoteId)).toThrow(
+        expect.objectContaining({ statusCode: 404 })
+      );
+    }
+    expect(service.getQuote(reserved.quoteId).status).toBe("reserved");
+  });
+});
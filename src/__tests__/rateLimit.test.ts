@@ -0,0 +1,149 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import config from "../config/config";
+import { authenticate } from "../middleware/auth";
+import { errorHandler } from "../middleware/errorHandler";
+import { rateLimit } from "../middleware/rateLimit";
+import apiKeyService from "../services/apiKeyService";
+import rateLimitService, {
+  MemoryRateLimitStore,
+  RateLimitService,
+} from "../services/rateLimitService";
+
+const budgets = { ...config.rateLimit.budgets };
+
+beforeEach(() => {
+  config.rateLimit.budgets = { default: 5, pricing: 0, transfer: 2 };
+});
+
+afterAll(() => {
+  config.rateLimit.budgets = budgets;
+});
+
+describe("RateLimitService", () => {
+  const { windowMs } = config.rateLimit;
+
+  it("keeps a budget per client and per route", async () => {
+    const service = new RateLimitService();
+
+    expect((await service.consume("transfer", "a"))?.allowed).toBe(true);
+    expect(await service.consume("transfer", "a")).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect((await service.consume("transfer", "a"))?.allowed).toBe(false);
+
+    expect((await service.consume("transfer", "b"))?.allowed).toBe(true);
+    expect(await service.consume("default", "a")).toMatchObject({
+      allowed: true,
+      remaining: 4,
+    });
+    expect(await service.consume("pricing", "a")).toBeUndefined();
+  });
+
+  it("starts a new window once the current one ends", async () => {
+    const service = new RateLimitService();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+
+    await service.consume("transfer", "a");
+    await service.consume("transfer", "a");
+    expect(await service.consume("transfer", "a")).toMatchObject({
+      allowed: false,
+      resetAt: now + windowMs,
+    });
+
+    clock.mockReturnValue(now + windowMs);
+    expect(await service.consume("transfer", "a")).toMatchObject({
+      allowed: true,
+      remaining: 1,
+      resetAt: now + 2 * windowMs,
+    });
+    clock.mockRestore();
+  });
+
+  it("lets requests through when the store fails", async () => {
+    const errorSpy = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const service = new RateLimitService({
+      increment: async () => {
+        throw new Error("connection refused");
+      },
+    });
+
+    expect(await service.consume("transfer", "a")).toBeUndefined();
+    errorSpy.mockRestore();
+  });
+});
+
+describe("rateLimit middleware", () => {
+  const keys = {
+    first: apiKeyService.createKey("Partner", ["transfer:write"]).key,
+    second: apiKeyService.createKey("Other", ["transfer:write"]).key,
+  };
+  let server: Server;
+  let baseUrl: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeAll((done) => {
+    // errorHandler logs every refused request
+    errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const app = express();
+    app.use(authenticate);
+    app.use("/api", rateLimit("default"));
+    app.get("/api/transfer", rateLimit("transfer"), (req, res) => {
+      res.json({ success: true });
+    });
+    app.get("/api/status", (req, res) => {
+      res.json({ success: true });
+    });
+    app.use(errorHandler);
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    errorSpy.mockRestore();
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    rateLimitService.setStore(new MemoryRateLimitStore());
+  });
+
+  const request = (path: string, key: keyof typeof keys) =>
+    fetch(`${baseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${keys[key]}` },
+    });
+
+  it("reports the budget closest to running out", async () => {
+    const response = await request("/api/transfer", "first");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Limit")).toBe("2");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("1");
+  });
+
+  it("rejects requests over the budget with 429 and Retry-After", async () => {
+    await request("/api/transfer", "first");
+    await request("/api/transfer", "first");
+
+    const response = await request("/api/transfer", "first");
+    const retryAfter = Number(response.headers.get("Retry-After"));
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: "RATE_LIMITED" });
+    expect(retryAfter).toBeGreaterThanOrEqual(1);
+    expect(retryAfter).toBeLessThanOrEqual(config.rateLimit.windowMs / 1000);
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+
+    expect((await request("/api/transfer", "second")).status).toBe(200);
+    expect((await request("/api/status", "first")).status).toBe(200);
+  });
+});
@@ -0,0 +1,173 @@
+import config from "../config/config";
+import depositVerificationService from "../services/depositVerificationService";
+import { RefundService } from "../services/refundService";
+import transferLedgerService from "../services/transferLedgerService";
+import { ServiceError } from "../types";
+import {
+  broadcastTransaction,
+  createSignedTokenTransfer,
+  getTransactionStatus,
+  waitForConfirmation,
+} from "../utils/crossChainUtils";
+
+jest.mock("../utils/crossChainUtils");
+
+// Prices are not needed, and the real service polls exchange rates
+jest.mock("../services/tokenFeeService", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const mocked = {
+  broadcast: broadcastTransaction as jest.Mock,
+  sign: createSignedTokenTransfer as jest.Mock,
+  status: getTransactionStatus as jest.Mock,
+  wait: waitForConfirmation as jest.Mock,
+};
+
+const SIGNED_TX = "0x1234";
+
+// Let the refund sent in the background run to completion
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+let depositCount = 0;
+
+/**
+ * Record a failed payout of a fresh deposit
+ */
+const failedPayout = (service: RefundService) => {
+  depositCount += 1;
+  const key = depositVerificationService.claim(
+    {
+      network: "ethereum",
+      depositTxHash: `0x${String(depositCount).padStart(64, "0")}`,
+      token: "usdt",
+      isTestnet: false,
+    },
+    `0xt${depositCount}`
+  );
+  depositVerificationService.recordVerified(
+    key,
+    {
+      sender: "0x00000000000000000000000000000000000000aa",
+      amount: "10.0",
+      confirmations: 20,
+      blockNumber: 1,
+    },
+    "160000"
+  );
+
+  return service.recordFailedPayout(`0xt${depositCount}`, key, "reverted")!;
+};
+
+/**
+ * Approve a refund whose broadcast throws, leaving it failed with the hash
+ * of the transaction it signed
+ */
+const failedAttempt = async (service: RefundService) => {
+  const refund = failedPayout(service);
+  mocked.broadcast.mockRejectedValueOnce(new Error("connection reset"));
+
+  await service.approve(refund.refundId);
+  await settle();
+
+  return service.getRefund(refund.refundId);
+};
+
+describe("RefundService retries", () => {
+  let ledgerSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    config.refunds.treasuryPrivateKey = `0x${"11".repeat(32)}`;
+    ledgerSpy = jest
+      .spyOn(transferLedgerService, "update")
+      .mockImplementation(() => undefined as any);
+  });
+
+  afterAll(() => {
+    ledgerSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mocked.sign.mockResolvedValue(SIGNED_TX);
+    mocked.wait.mockRejectedValue(new Error("timeout"));
+  });
+
+  it("keeps the hash of a transaction whose broadcast threw", async () => {
+    const refund = await failedAttempt(new RefundService());
+
+    expect(refund.status).toBe("failed");
+    expect(refund.transactionHash).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("refuses a retry once the earlier transaction was mined", async () => {
+    const service = new RefundService();
+    const refund = await failedAttempt(service);
+    mocked.status.mockResolvedValue({
+      status: "confirmed",
+      receipt: {
+        status: 1,
+        blockNumber: 10,
+        transactionHash: refund.transactionHash,
+      },
+      confirmations: config.refunds.minConfirmations,
+    });
+    mocked.sign.mockClear();
+
+    await expect(service.approve(refund.refundId)).rejects.toMatchObject({
+      code: "REFUND_ALREADY_SENT",
+    });
+
+    expect(mocked.sign).not.toHaveBeenCalled();
+    expect((await service.getRefund(refund.refundId)).status).toBe(
+      "confirmed"
+    );
+    expect(
+      depositVerificationService.getRecordByKey(refund.depositKey)?.status
+    ).toBe("refunded");
+  });
+
+  it("refuses to cancel while the earlier one is pending", async () => {
+    const service = new RefundService();
+    const refund = await failedAttempt(service);
+    mocked.status.mockResolvedValue({ status: "pending", confirmations: 0 });
+
+    await expect(
+      service.cancel(refund.refundId, "retry")
+    ).rejects.toMatchObject({ code: "REFUND_ALREADY_SENT" });
+
+    expect(
+      depositVerificationService.getRecordByKey(refund.depositKey)?.status
+    ).toBe("refunding");
+  });
+
+  it("sends again when the earlier one is not on the chain", async () => {
+    const service = new RefundService();
+    const refund = await failedAttempt(service);
+    mocked.status.mockRejectedValue(
+      new ServiceError("Transaction not found", 404)
+    );
+    mocked.broadcast.mockResolvedValue(refund.transactionHash);
+
+    const approved = await service.approve(refund.refundId);
+    await settle();
+
+    expect(approved.status).toBe("approved");
+    expect(mocked.sign).toHaveBeenCalledTimes(2);
+    expect((await service.getRefund(refund.refundId)).status).toBe(
+      "submitted"
+    );
+  });
+
+  it("refuses a retry when the chain cannot be checked", async () => {
+    const service = new RefundService();
+    const refund = await failedAttempt(service);
+    mocked.status.mockRejectedValue(new ServiceError("RPC down", 500));
+
+    await expect(service.approve(refund.refundId)).rejects.toMatchObject({
+      statusCode: 503,
+    });
+    expect(mocked.sign).toHaveBeenCalledTimes(1);
+  });
+});
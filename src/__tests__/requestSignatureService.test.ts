@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import apiKeyService from "../services/apiKeyService";
+import requestSignatureService, {
+  SignedRequest,
+} from "../services/requestSignatureService";
+
+describe("RequestSignatureService", () => {
+  const { apiKey, signingSecret } = apiKeyService.createKey(
+    "partner",
+    ["transfer:write"],
+    "bootstrap",
+    true
+  );
+
+  const signed = (changes: Partial<SignedRequest> = {}): SignedRequest => {
+    const request = {
+      keyId: apiKey.keyId,
+      timestamp: String(Math.floor(Date.now() / 1000)),
+      nonce: crypto.randomBytes(12).toString("hex"),
+      method: "POST",
+      path: "/api/meta-transfer",
+      body: '{"recipient":"0x1","amount":"100"}',
+    };
+
+    return {
+      ...request,
+      signature: `sha256=${requestSignatureService.sign(
+        signingSecret as string,
+        request
+      )}`,
+      ...changes,
+    };
+  };
+
+  it("accepts a signed request and identifies its key", () => {
+    expect(requestSignatureService.verify(signed())).toMatchObject({
+      keyId: apiKey.keyId,
+      scopes: ["transfer:write"],
+      signed: true,
+    });
+  });
+
+  it("rejects a replayed nonce", () => {
+    const request = signed();
+    requestSignatureService.verify(request);
+
+    expect(() => requestSignatureService.verify(request)).toThrow(
+      expect.objectContaining({ code: "REPLAYED_NONCE" })
+    );
+  });
+
+  it("rejects a tampered body", () => {
+    expect(() =>
+      requestSignatureService.verify(
+        signed({ body: '{"recipient":"0x2","amount":"100"}' })
+      )
+    ).toThrow(expect.objectContaining({ code: "INVALID_SIGNATURE" }));
+  });
+
+  it("rejects a timestamp outside the allowed skew", () => {
+    const request = signed();
+    const timestamp = String(Number(request.timestamp) - 3600);
+
+    expect(() =>
+      requestSignatureService.verify({ ...request, timestamp })
+    ).toThrow(
+      expect.objectContaining({ code: "STALE_TIMESTAMP" })
+    );
+  });
+
+  it("rejects requests signed with a revoked key", () => {
+    const { apiKey: revoked, signingSecret: secret } =
+      apiKeyService.createKey("revoked", ["transfer:write"], undefined, true);
+    apiKeyService.revokeKey(revoked.keyId);
+
+    const request = {
+      keyId: revoked.keyId,
+      timestamp: String(Math.floor(Date.now() / 1000)),
+      nonce: crypto.randomBytes(12).toString("hex"),
+      method: "POST",
+      path: "/api/meta-transfer",
+      body: "",
+    };
+
+    expect(() =>
+      requestSignatureService.verify({
+        ...request,
+        signature: `sha256=${requestSignatureService.sign(
+          secret as string,
+          request
+        )}`,
+      })
+    ).toThrow(expect.objectContaining({ code: "INVALID_SIGNATURE" }));
+  });
+});
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import { ReserveLimitService } from "../services/reserveLimitService";
+import { getContract, getOperatorPool } from "../utils/blockchain";
+
+jest.mock("../utils/blockchain", () => ({
+  ...jest.requireActual("../utils/blockchain"),
+  getContract: jest.fn(),
+  getOperatorPool: jest.fn(),
+}));
+
+// IDRX has 2 decimals
+const idrx = (amount: string) => ethers.utils.parseUnits(amount, 2);
+
+describe("ReserveLimitService.updateContractLimits", () => {
+  const updateTransferLimits = jest.fn();
+  const service = new ReserveLimitService();
+  let errorSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    // Refused updates are logged
+    errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    errorSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    updateTransferLimits.mockReset().mockResolvedValue({
+      hash: "0xlimits",
+      nonce: 7,
+      wait: async () => ({ status: 1, transactionHash: "0xlimits" }),
+    });
+
+    const contract = {
+      minTransferAmount: async () => idrx("10000"),
+      maxTransferAmount: async () => idrx("1000000"),
+      getReserveStatus: async () => ({ reserve: idrx("100000000") }),
+      updateTransferLimits,
+    };
+
+    (getContract as jest.Mock).mockReturnValue(contract);
+    (getOperatorPool as jest.Mock).mockReturnValue({
+      primary: () => ({
+        status: "active",
+        contract,
+        nonceManager: {
+          sendWithNonce: (send: (nonce: number) => unknown) => send(7),
+          complete: jest.fn(),
+        },
+      }),
+    });
+  });
+
+  it("sends limits in IDRX units", async () => {
+    const result = await service.updateContractLimits("20000", "5000000.50");
+
+    expect(result).toEqual({ success: true, transactionHash: "0xlimits" });
+    expect(updateTransferLimits).toHaveBeenCalledWith(
+      idrx("20000"),
+      idrx("5000000.50"),
+      { nonce: 7 }
+    );
+  });
+
+  it("refuses a maximum above half the reserve", async () => {
+    await expect(
+      service.updateContractLimits("20000", "50000000.01")
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(updateTransferLimits).not.toHaveBeenCalled();
+  });
+
+  it("refuses amounts with more than 2 decimals", async () => {
+    await expect(
+      service.updateContractLimits("20000.001", "5000000")
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(updateTransferLimits).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+import express, { Router } from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { authenticate } from "../middleware/auth";
+import { errorHandler } from "../middleware/errorHandler";
+import contractAdminRoutes from "../routes/contractAdminRoutes";
+import metaTransactionRoutes from "../routes/metaTransactionRoutes";
+import webhookRoutes from "../routes/webhookRoutes";
+import apiKeyService from "../services/apiKeyService";
+
+// Prices are not needed, and the real service polls exchange rates
+jest.mock("../services/tokenFeeService", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const keys = {
+  admin: apiKeyService.createKey("Admin", ["admin"]).key,
+  read: apiKeyService.createKey("Dashboard", ["read"]).key,
+  transfer: apiKeyService.createKey("Partner", ["transfer:write"]).key,
+};
+
+/**
+ * Serve routers the way the app mounts them, behind authenticate
+ */
+const serve = (...routers: Router[]) => {
+  let server: Server;
+  let baseUrl: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeAll((done) => {
+    // errorHandler logs every refused request
+    errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const app = express();
+    app.use(express.json());
+    app.use(authenticate);
+    app.use("/api", ...routers);
+    app.use(errorHandler);
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    errorSpy.mockRestore();
+    server.close(() => done());
+  });
+
+  return async (
+    method: string,
+    path: string,
+    key?: keyof typeof keys
+  ): Promise<number> => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(key && { Authorization: `Bearer ${keys[key]}` }),
+      },
+      // Empty bodies fail validation, which runs after the guard
+      body: method === "GET" ? undefined : "{}",
+      signal: controller.signal,
+    });
+
+    // Streams do not end; only the status is needed
+    controller.abort();
+    return response.status;
+  };
+};
+
+describe("Webhook routes", () => {
+  const request = serve(webhookRoutes);
+
+  const adminRoutes: [string, string][] = [
+    ["POST", "/api/webhooks"],
+    ["DELETE", "/api/webhooks/wh_0"],
+    ["POST", "/api/webhooks/deliveries/whd_0/redeliver"],
+  ];
+
+  it.each(adminRoutes)("%s %s requires an admin key", async (method, path) => {
+    expect(await request(method, path)).toBe(401);
+    expect(await request(method, path, "read")).toBe(403);
+    expect(await request(method, path, "transfer")).toBe(403);
+    expect(await request(method, path, "admin")).not.toBe(401);
+    expect(await request(method, path, "admin")).not.toBe(403);
+  });
+
+  it("lists subscriptions for read keys only", async () => {
+    expect(await request("GET", "/api/webhooks")).toBe(401);
+    expect(await request("GET", "/api/webhooks", "transfer")).toBe(403);
+    expect(await request("GET", "/api/webhooks", "read")).toBe(200);
+  });
+});
+
+describe("Event stream routes", () => {
+  const request = serve(metaTransactionRoutes);
+
+  it("streams every event to admin keys only", async () => {
+    expect(await request("GET", "/api/events")).toBe(401);
+    expect(await request("GET", "/api/events", "transfer")).toBe(403);
+    expect(await request("GET", "/api/events", "read")).toBe(403);
+    expect(await request("GET", "/api/events", "admin")).toBe(200);
+  });
+
+  it("streams a single transfer without a key", async () => {
+    expect(
+      await request("GET", `/api/meta-transfer/0x${"ab".repeat(32)}/events`)
+    ).toBe(404);
+  });
+});
+
+describe("Contract admin routes", () => {
+  const request = serve(contractAdminRoutes);
+
+  // Invalid dryRun values stop admin requests at validation
+  const adminRoutes: [string, string][] = [
+    ["POST", "/api/admin/contract/pause?dryRun=maybe"],
+    ["POST", "/api/admin/contract/unpause?dryRun=maybe"],
+    ["POST", "/api/admin/contract/reserve/deposit"],
+    ["POST", "/api/admin/contract/reserve/withdraw"],
+  ];
+
+  it.each(adminRoutes)("%s %s requires an admin key", async (method, path) => {
+    expect(await request(method, path)).toBe(401);
+    expect(await request(method, path, "read")).toBe(403);
+    expect(await request(method, path, "transfer")).toBe(403);
+    expect(await request(method, path, "admin")).toBe(400);
+  });
+});
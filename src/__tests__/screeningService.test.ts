@@ -0,0 +1,37 @@
+import { ScreeningService } from "../services/screeningService";
+
+const LISTED = "0x00000000000000000000000000000000000000cc";
+
+describe("ScreeningService", () => {
+  const service = new ScreeningService();
+  service.addEntry(LISTED, "Test listing");
+
+  const hits = () => service.listAudit({ address: LISTED, action: "rejected" });
+
+  it("rejects listed addresses on every path", () => {
+    for (const context of ["transfer", "balance", "history"] as const) {
+      expect(() => service.screen(LISTED, context)).toThrow(
+        expect.objectContaining({ code: "ADDRESS_BLOCKED" })
+      );
+    }
+  });
+
+  it("audits hits on transfers but not on lookups", () => {
+    const before = hits().pagination.total;
+
+    expect(() => service.screen(LISTED, "balance")).toThrow();
+    expect(() => service.screen(LISTED, "history")).toThrow();
+    expect(() => service.screen(LISTED, "simulation")).toThrow();
+    expect(hits().pagination.total).toBe(before);
+
+    expect(() => service.screen(LISTED, "transfer")).toThrow();
+    expect(hits().pagination.total).toBe(before + 1);
+    expect(hits().entries[0].context).toBe("transfer");
+  });
+
+  it("lets unlisted addresses through", () => {
+    expect(
+      service.screen("0x00000000000000000000000000000000000000dd", "transfer")
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,14 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Every test file gets its own data directory, read by config on import
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "zap-test-"));
+process.env.DATA_DIR = dataDir;
+
+jest.spyOn(console, "log").mockImplementation(() => undefined);
+jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,147 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { TransactionWatchdogService } from "../services/transactionWatchdogService";
+import transferStatusService from "../services/transferStatusService";
+
+const gwei = (amount: string) => ethers.utils.parseUnits(amount, "gwei");
+
+const TRANSFER_ID = `0x${"ab".repeat(32)}`;
+const HASH = `0x${"01".repeat(32)}`;
+const REPLACEMENT_HASH = `0x${"02".repeat(32)}`;
+
+/**
+ * Signer stub whose provider reports no receipt and a network gas price
+ */
+const createSigner = () => {
+  const provider = {
+    getTransactionReceipt: jest.fn(async () => null),
+    getGasPrice: jest.fn(async () => gwei("5")),
+  };
+
+  return {
+    provider,
+    sendTransaction: jest.fn(async () => ({ hash: REPLACEMENT_HASH })),
+  };
+};
+
+const legacyTx = (gasPrice: string) =>
+  ({
+    hash: HASH,
+    to: "0x00000000000000000000000000000000000000cc",
+    data: "0x",
+    nonce: 7,
+    gasLimit: ethers.BigNumber.from(120000),
+    chainId: 4202,
+    type: 0,
+    gasPrice: gwei(gasPrice),
+  } as unknown as ethers.providers.TransactionResponse);
+
+describe("TransactionWatchdogService", () => {
+  let service: TransactionWatchdogService;
+  let signer: ReturnType<typeof createSigner>;
+  let replacedSpy: jest.SpyInstance;
+  let clock: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new TransactionWatchdogService();
+    signer = createSigner();
+    replacedSpy = jest
+      .spyOn(transferStatusService, "markReplaced")
+      .mockImplementation(() => undefined);
+    warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    clock = jest.spyOn(Date, "now");
+  });
+
+  afterEach(() => {
+    replacedSpy.mockRestore();
+    warnSpy.mockRestore();
+    clock.mockRestore();
+  });
+
+  const track = (tx: ethers.providers.TransactionResponse) =>
+    service.track(TRANSFER_ID, tx, signer as unknown as ethers.Signer);
+
+  // Run the periodic check once the transaction has been pending long enough
+  const checkAfter = async (ms = config.watchdog.stuckAfterMs) => {
+    clock.mockReturnValue(Date.now() + ms);
+    await (service as any).checkPending();
+    clock.mockReset();
+  };
+
+  it("leaves transactions alone until they are stuck", async () => {
+    track(legacyTx("10"));
+
+    await checkAfter(config.watchdog.stuckAfterMs - 1000);
+
+    expect(signer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("replaces a stuck transaction with the same nonce and a bumped gas price", async () => {
+    track(legacyTx("10"));
+
+    await checkAfter();
+
+    expect(signer.sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ nonce: 7, gasPrice: gwei("12") })
+    );
+    expect(replacedSpy).toHaveBeenCalledWith(
+      TRANSFER_ID,
+      HASH,
+      REPLACEMENT_HASH
+    );
+  });
+
+  it("bumps both EIP-1559 fees", async () => {
+    track({
+      ...legacyTx("0"),
+      type: 2,
+      maxFeePerGas: gwei("10"),
+      maxPriorityFeePerGas: gwei("2"),
+    } as ethers.providers.TransactionResponse);
+
+    await checkAfter();
+
+    expect(signer.sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        nonce: 7,
+        gasPrice: undefined,
+        maxFeePerGas: gwei("12"),
+        maxPriorityFeePerGas: gwei("2.4"),
+      })
+    );
+  });
+
+  it("never bids above the gas price cap", async () => {
+    const cap = gwei(config.watchdog.maxGasPriceGwei);
+    track(legacyTx(ethers.utils.formatUnits(cap.sub(gwei("1")), "gwei")));
+
+    await checkAfter();
+    expect(signer.sendTransaction).toHaveBeenLastCalledWith(
+      expect.objectContaining({ gasPrice: cap })
+    );
+
+    await checkAfter();
+    expect(signer.sendTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not replace a transaction that was mined", async () => {
+    signer.provider.getTransactionReceipt.mockResolvedValue({
+      status: 1,
+    } as never);
+    track(legacyTx("10"));
+
+    await checkAfter();
+
+    expect(signer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("stops when an earlier version was mined meanwhile", async () => {
+    signer.sendTransaction.mockRejectedValue(new Error("nonce too low"));
+    track(legacyTx("10"));
+
+    await checkAfter();
+
+    expect(replacedSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { TransferIntentService } from "../services/transferIntentService";
+import { getProvider } from "../utils/blockchain";
+
+jest.mock("../utils/blockchain", () => ({
+  ...jest.requireActual("../utils/blockchain"),
+  getProvider: jest.fn(),
+}));
+
+const recipient = ethers.Wallet.createRandom();
+const stranger = ethers.Wallet.createRandom();
+
+describe("TransferIntentService.verifyAndConsume", () => {
+  const service = new TransferIntentService();
+  const { contractAddress } = config.blockchain;
+  const intent = {
+    recipient: recipient.address,
+    amount: ethers.utils.parseUnits("20000", 2),
+    reference: ethers.constants.HashZero,
+  };
+
+  beforeAll(() => {
+    config.blockchain.contractAddress =
+      "0x00000000000000000000000000000000000000cc";
+    (getProvider as jest.Mock).mockReturnValue({
+      getNetwork: async () => ({ chainId: 4202 }),
+    });
+  });
+
+  afterAll(() => {
+    config.blockchain.contractAddress = contractAddress;
+  });
+
+  /**
+   * Sign the intent the way a client would, from the published definition
+   */
+  const sign = async (
+    wallet: ethers.Wallet,
+    nonce: string,
+    deadline = Math.floor(Date.now() / 1000) + 600
+  ) => {
+    const { domain, types } = await service.getTypedDataDefinition();
+    const signature = await wallet._signTypedData(domain, types, {
+      ...intent,
+      deadline,
+      nonce,
+    });
+
+    return { nonce, deadline, signature };
+  };
+
+  it("accepts an intent signed by the recipient once", async () => {
+    const signature = await sign(recipient, "0");
+
+    await expect(service.verifyAndConsume(intent, signature)).resolves.toBe(
+      recipient.address
+    );
+    expect(service.getNonce(recipient.address)).toBe("1");
+
+    await expect(
+      service.verifyAndConsume(intent, signature)
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("rejects an intent signed by someone else", async () => {
+    const signature = await sign(stranger, "0");
+
+    await expect(
+      service.verifyAndConsume(intent, signature)
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("rejects an intent for a different amount", async () => {
+    const signature = await sign(recipient, service.getNonce(intent.recipient));
+
+    await expect(
+      service.verifyAndConsume(
+        { ...intent, amount: intent.amount.add(1) },
+        signature
+      )
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("rejects an intent past its deadline", async () => {
+    const signature = await sign(
+      recipient,
+      service.getNonce(intent.recipient),
+      Math.floor(Date.now() / 1000) - 1
+    );
+
+    await expect(
+      service.verifyAndConsume(intent, signature)
+    ).rejects.toMatchObject({ statusCode: 410 });
+  });
+
+  it("leaves the nonce unused when only checking", async () => {
+    const nonce = service.getNonce(intent.recipient);
+    const signature = await sign(recipient, nonce);
+
+    await service.verifyAndConsume(intent, signature, false);
+
+    expect(service.getNonce(intent.recipient)).toBe(nonce);
+  });
+});
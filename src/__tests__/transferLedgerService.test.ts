@@ -0,0 +1,66 @@
+import {
+  MemoryLedgerStore,
+  TransferLedgerService,
+} from "../services/transferLedgerService";
+
+describe("TransferLedgerService", () => {
+  let ledger: TransferLedgerService;
+  let now: number;
+  let clock: jest.SpyInstance;
+
+  const record = (transferId: string, createdAt: number) => {
+    now = createdAt;
+    ledger.record({
+      transferId,
+      recipient: "0x0000000000000000000000000000000000000001",
+      idrxAmount: "100",
+      status: "queued",
+    });
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    clock = jest.spyOn(Date, "now").mockImplementation(() => now);
+    ledger = new TransferLedgerService(new MemoryLedgerStore());
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  it("lists outflow inside the window, oldest first", () => {
+    record("0x01", 1_000);
+    record("0x02", 2_000);
+    record("0x03", 3_000);
+    ledger.update("0x03", { status: "failed" });
+
+    expect(
+      ledger.listOutflowSince(2_000).map((entry) => entry.transferId)
+    ).toEqual(["0x02"]);
+  });
+
+  it("lists the most recent transfers with a receipt", () => {
+    record("0x01", 1_000);
+    record("0x02", 2_000);
+    record("0x03", 3_000);
+    ledger.update("0x01", { gasUsed: "21000" });
+    ledger.update("0x03", { gasUsed: "22000" });
+
+    expect(
+      ledger.listRecentReceipts(5).map((entry) => entry.transferId)
+    ).toEqual(["0x03", "0x01"]);
+    expect(ledger.listRecentReceipts(1)).toHaveLength(1);
+  });
+
+  it("indexes entries already in the store", () => {
+    const store = new MemoryLedgerStore();
+    ledger = new TransferLedgerService(store);
+    record("0x01", 1_000);
+    record("0x02", 2_000);
+
+    const reopened = new TransferLedgerService(store);
+    expect(
+      reopened.listOutflowSince(1_500).map((entry) => entry.transferId)
+    ).toEqual(["0x02"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { AdminAuditActor } from "../services/adminAuditService";
+import apiKeyService from "../services/apiKeyService";
+import reserveLimitService from "../services/reserveLimitService";
+import {
+  TransferLimitProposalService,
+} from "../services/transferLimitProposalService";
+
+const actor = (keyId: string): AdminAuditActor => ({ keyId });
+
+// Admins A, C and X created with ADMIN_API_KEY; B created by A; Y and Z
+// created by X; W created by Y
+const createKey = (name: string, createdBy: string) =>
+  apiKeyService.createKey(name, ["admin"], createdBy).apiKey.keyId;
+
+const keyA = createKey("Admin A", "bootstrap");
+const keyB = createKey("Admin A again", keyA);
+const keyC = createKey("Admin C", "bootstrap");
+const keyX = createKey("Admin X", "bootstrap");
+const keyY = createKey("Admin X, second key", keyX);
+const keyZ = createKey("Admin X, third key", keyX);
+const keyW = createKey("Admin X, fourth key", keyY);
+
+describe("TransferLimitProposalService approvals", () => {
+  const service = new TransferLimitProposalService();
+  let calculateSpy: jest.SpyInstance;
+  let updateSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    calculateSpy = jest
+      .spyOn(reserveLimitService, "calculateTransferLimits")
+      .mockResolvedValue({
+        minTransferAmount: "10000.0",
+        maxTransferAmount: "1000000.0",
+      } as any);
+    updateSpy = jest
+      .spyOn(reserveLimitService, "updateContractLimits")
+      .mockResolvedValue({ success: true, transactionHash: "0xlimits" });
+  });
+
+  afterAll(() => {
+    calculateSpy.mockRestore();
+    updateSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    updateSpy.mockClear();
+  });
+
+  const propose = (keyId: string) =>
+    service.propose("20000", "5000000", actor(keyId));
+
+  it.each([
+    ["the proposer", keyA, keyA, "SAME_APPROVER"],
+    ["a key the proposer created", keyA, keyB, "RELATED_APPROVER"],
+    ["the key that created the proposer", keyB, keyA, "RELATED_APPROVER"],
+    ["a key created by the same key", keyY, keyZ, "RELATED_APPROVER"],
+    ["a key sharing a creator further up", keyW, keyZ, "RELATED_APPROVER"],
+    ["a key the bootstrap key created", "bootstrap", keyC, "RELATED_APPROVER"],
+    ["the bootstrap key", keyC, "bootstrap", "RELATED_APPROVER"],
+  ])("refuses approval by %s", async (_, proposer, approver, code) => {
+    const proposal = await propose(proposer);
+
+    await expect(
+      service.approve(proposal.proposalId, actor(approver))
+    ).rejects.toMatchObject({ statusCode: 403, code });
+
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(service.getProposal(proposal.proposalId).status).toBe("pending");
+  });
+
+  it("executes a proposal approved by an unrelated key", async () => {
+    const proposal = await propose(keyB);
+
+    const approved = await service.approve(proposal.proposalId, actor(keyC));
+
+    expect(approved).toMatchObject({
+      status: "executed",
+      transactionHash: "0xlimits",
+    });
+    expect(updateSpy).toHaveBeenCalledWith("20000", "5000000", actor(keyC));
+  });
+
+  it("parses proposed limits in IDRX units", async () => {
+    await expect(
+      service.propose("20000.001", "5000000", actor(keyA))
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      service.propose("20000", "19999.99", actor(keyA))
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
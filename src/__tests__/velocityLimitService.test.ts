@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import transferLedgerService from "../services/transferLedgerService";
+import { VelocityLimitService } from "../services/velocityLimitService";
+import { TransferLifecycleStatus } from "../types";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+
+// IDRX has 2 decimals
+const idrx = (amount: string) => ethers.utils.parseUnits(amount, 2);
+
+describe("VelocityLimitService", () => {
+  const service = new VelocityLimitService();
+  const velocity = { ...config.velocity };
+  let now = Date.UTC(2024, 0, 1);
+  let clock: jest.SpyInstance;
+
+  /**
+   * Record a ledger entry created some time before now
+   */
+  const record = (
+    recipient: string,
+    idrxAmount: string,
+    ageMs: number,
+    status: TransferLifecycleStatus = "confirmed"
+  ) => {
+    clock.mockReturnValue(now - ageMs);
+    transferLedgerService.record({
+      transferId: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+      recipient,
+      idrxAmount,
+      status,
+    });
+    clock.mockReturnValue(now);
+  };
+
+  const check = (...transfers: [string, string][]) => () =>
+    service.check(
+      transfers.map(([recipient, amount]) => ({
+        recipient,
+        amountBN: idrx(amount),
+      }))
+    );
+
+  beforeEach(() => {
+    // Each test starts well past the windows of the entries before it
+    now += 10 * 24 * HOUR_MS;
+    clock = jest.spyOn(Date, "now").mockReturnValue(now);
+    config.velocity = {
+      recipientDailyAmount: undefined,
+      recipientHourlyCount: 0,
+      globalHourlyAmount: undefined,
+    };
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+    config.velocity = velocity;
+  });
+
+  it("limits the amount per recipient per 24 hours", () => {
+    config.velocity.recipientDailyAmount = "1000";
+    record(ALICE, "600", 23 * HOUR_MS);
+
+    expect(check([ALICE, "400"])).not.toThrow();
+    expect(check([BOB, "1000"])).not.toThrow();
+
+    expect(check([ALICE, "400.01"])).toThrow(
+      expect.objectContaining({
+        statusCode: 403,
+        code: "RECIPIENT_DAILY_AMOUNT",
+        retryAfter: 3600,
+      })
+    );
+  });
+
+  it("limits the transfers per recipient per hour", () => {
+    config.velocity.recipientHourlyCount = 2;
+    record(ALICE, "1", 50 * MINUTE_MS);
+    record(ALICE, "1", 10 * MINUTE_MS);
+
+    expect(check([BOB, "1"], [BOB, "1"])).not.toThrow();
+    expect(check([BOB, "1"], [BOB, "1"], [BOB, "1"])).toThrow(
+      expect.objectContaining({ code: "RECIPIENT_HOURLY_COUNT" })
+    );
+
+    expect(check([ALICE, "1"])).toThrow(
+      expect.objectContaining({
+        statusCode: 429,
+        code: "RECIPIENT_HOURLY_COUNT",
+        retryAfter: 600,
+      })
+    );
+  });
+
+  it("limits the total outflow per hour", () => {
+    config.velocity.globalHourlyAmount = "1000";
+    record(ALICE, "700", 30 * MINUTE_MS);
+    record(BOB, "5000", 2 * HOUR_MS);
+
+    expect(check([BOB, "300"])).not.toThrow();
+    expect(check([BOB, "200"], [ALICE, "100"])).not.toThrow();
+
+    expect(check([BOB, "300.01"])).toThrow(
+      expect.objectContaining({
+        statusCode: 429,
+        code: "GLOBAL_HOURLY_OUTFLOW",
+        retryAfter: 1800,
+      })
+    );
+  });
+
+  it("does not count failed transfers", () => {
+    config.velocity.recipientDailyAmount = "1000";
+    config.velocity.recipientHourlyCount = 1;
+    record(ALICE, "900", 10 * MINUTE_MS, "failed");
+
+    expect(check([ALICE, "1000"])).not.toThrow();
+  });
+});
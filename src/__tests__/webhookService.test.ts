@@ -0,0 +1,114 @@
+import axios from "axios";
+import crypto from "crypto";
+import config from "../config/config";
+import { WebhookService } from "../services/webhookService";
+import { serviceEvents } from "../utils/events";
+
+jest.mock("axios");
+
+const post = axios.post as jest.Mock;
+
+const SECRET = "whsec_test";
+
+const confirmed = () =>
+  serviceEvents.emit("transfer.confirmed", {
+    transferId: `0x${"ab".repeat(32)}`,
+    status: "confirmed",
+    recipient: "0x1234567890abcdef1234567890abcdef12345678",
+    amount: "20000",
+  });
+
+describe("WebhookService deliveries", () => {
+  const service = new WebhookService();
+  const { maxAttempts, retryBaseDelayMs } = config.webhooks;
+  let subscriptionId: string;
+  let warnSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    jest.useFakeTimers();
+    // Deliveries that give up are logged
+    warnSpy = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    service.start();
+  });
+
+  afterAll(() => {
+    config.webhooks.maxAttempts = maxAttempts;
+    warnSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    post.mockReset();
+    subscriptionId = service.createSubscription(
+      "https://partner.example/webhooks",
+      ["transfer.confirmed"],
+      SECRET
+    ).subscriptionId;
+  });
+
+  afterEach(() => {
+    service.deleteSubscription(subscriptionId);
+  });
+
+  const deliveries = () => service.listDeliveries(subscriptionId).deliveries;
+
+  it("signs the timestamp and body with the subscription secret", async () => {
+    post.mockResolvedValue({ status: 200 });
+
+    confirmed();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const [url, body, { headers }] = post.mock.calls[0];
+    const expected = crypto
+      .createHmac("sha256", SECRET)
+      .update(`${headers["X-Zap-Timestamp"]}.${body}`)
+      .digest("hex");
+
+    expect(url).toBe("https://partner.example/webhooks");
+    expect(headers["X-Zap-Signature"]).toBe(`sha256=${expected}`);
+    expect(headers["X-Zap-Event"]).toBe("transfer.confirmed");
+    expect(JSON.parse(body).data.status).toBe("confirmed");
+    expect(deliveries()[0].status).toBe("delivered");
+  });
+
+  it("retries with a doubling delay until it gives up", async () => {
+    config.webhooks.maxAttempts = 3;
+    post.mockResolvedValue({ status: 500 });
+
+    confirmed();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(retryBaseDelayMs - 1);
+    expect(post).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(post).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(2 * retryBaseDelayMs - 1);
+    expect(post).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(post).toHaveBeenCalledTimes(3);
+
+    const [delivery] = deliveries();
+    expect(delivery.status).toBe("failed");
+    expect(delivery.attempts.map((attempt) => attempt.error)).toEqual(
+      Array(3).fill("Endpoint responded with HTTP 500")
+    );
+  });
+
+  it("drops finished deliveries after the retention period", async () => {
+    post.mockResolvedValueOnce({ status: 200 });
+    confirmed();
+    await jest.advanceTimersByTimeAsync(0);
+    const [finished] = deliveries();
+
+    jest.setSystemTime(Date.now() + config.webhooks.deliveryRetentionMs + 1);
+    post.mockReturnValue(new Promise(() => undefined));
+    confirmed();
+
+    const kept = deliveries();
+    expect(kept).toHaveLength(1);
+    expect(kept[0].deliveryId).not.toBe(finished.deliveryId);
+    expect(kept[0].status).toBe("pending");
+  });
+});
@@ -1,8 +1,10 @@
-import express, { Express } from "express";
+import express, { Express, Request } from "express";
 import cors from "cors";
 import helmet from "helmet";
 import routes from "./routes";
 import { errorHandler } from "./middleware/errorHandler";
+import { authenticate } from "./middleware/auth";
+import { rateLimit } from "./middleware/rateLimit";
 import { initializeBlockchain } from "./utils/blockchain";
 import config from "./config/config";
 import { setupSwagger } from "./swagger";
@@ -10,16 +12,46 @@ import { setupSwagger } from "./swagger";
 /**
  * Express app setup
  */
-const createApp = (): Express => {
+const createApp = async (): Promise<Express> => {
   config.validateConfig();
 
-  initializeBlockchain();
+  await initializeBlockchain();
 
   const app = express();
 
+  // Hop count, "true", or comma-separated proxy addresses and subnets
+  const { trustProxy } = config.server;
+  if (trustProxy) {
+    app.set(
+      "trust proxy",
+      /^\d+$/.test(trustProxy)
+        ? parseInt(trustProxy)
+        : trustProxy === "true" || trustProxy
+    );
+  }
+
   app.use(helmet());
-  app.use(cors());
-  app.use(express.json());
+  app.use(
+    cors({
+      exposedHeaders: [
+        "RateLimit-Policy",
+        "RateLimit-Limit",
+        "RateLimit-Remaining",
+        "RateLimit-Reset",
+        "Retry-After",
+      ],
+    })
+  );
+  app.use(
+    express.json({
+      // Signed requests are verified against the exact bytes received
+      verify: (req, res, buf) => {
+        (req as Request).rawBody = buf;
+      },
+    })
+  );
+  app.use(authenticate);
+  app.use("/api", rateLimit("default"));
 
   // Initialize API routes
   app.use(routes);
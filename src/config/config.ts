@@ -1,4 +1,5 @@
 import dotenv from "dotenv";
+import fs from "fs";
 import { ethers } from "ethers";
 
 dotenv.config();
@@ -7,11 +8,174 @@ const config = {
   server: {
     port: process.env.PORT || 3000,
     nodeEnv: process.env.NODE_ENV || "development",
+    // Express "trust proxy" setting, so req.ip is the client behind proxies
+    trustProxy: process.env.TRUST_PROXY,
   },
   blockchain: {
     liskRpcUrl: process.env.LISK_RPC_URL,
     contractAddress: process.env.CONTRACT_ADDRESS,
     operatorPrivateKey: process.env.OPERATOR_PRIVATE_KEY,
+    // OPERATOR_PRIVATE_KEY first, then OPERATOR_PRIVATE_KEYS (comma-separated)
+    operatorPrivateKeys: Array.from(
+      new Set(
+        [
+          process.env.OPERATOR_PRIVATE_KEY || "",
+          ...(process.env.OPERATOR_PRIVATE_KEYS || "").split(","),
+        ]
+          .map((key) => key.trim())
+          .filter((key) => key.length > 0)
+      )
+    ),
+  },
+  signer: {
+    // env, keystore or remote
+    type: process.env.SIGNER_TYPE || "env",
+    keystorePaths: (process.env.KEYSTORE_PATHS || "")
+      .split(",")
+      .map((path) => path.trim())
+      .filter((path) => path.length > 0),
+    keystorePassphraseFile: process.env.KEYSTORE_PASSPHRASE_FILE,
+    remoteUrl: process.env.REMOTE_SIGNER_URL,
+    remoteAuthToken: process.env.REMOTE_SIGNER_AUTH_TOKEN,
+    remoteTimeoutMs: parseInt(process.env.REMOTE_SIGNER_TIMEOUT_MS || "10000"),
+  },
+  storage: {
+    dataDir: process.env.DATA_DIR || "./data",
+  },
+  idempotency: {
+    ttlMs: parseInt(process.env.IDEMPOTENCY_TTL_MS || "86400000"),
+  },
+  transferStatus: {
+    retentionMs: parseInt(
+      process.env.TRANSFER_STATUS_RETENTION_MS || "86400000"
+    ),
+    // A submitted transaction unknown to the node this long is dropped
+    dropTimeoutMs: parseInt(process.env.TRANSFER_DROP_TIMEOUT_MS || "3600000"),
+  },
+  watchdog: {
+    intervalMs: parseInt(process.env.WATCHDOG_INTERVAL_MS || "30000"),
+    stuckAfterMs: parseInt(process.env.STUCK_TX_TIMEOUT_MS || "180000"),
+    gasBumpPercent: Math.max(
+      parseInt(process.env.GAS_BUMP_PERCENT || "20"),
+      10
+    ),
+    maxGasPriceGwei: process.env.MAX_GAS_PRICE_GWEI || "50",
+  },
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8"),
+    // First retry delay; doubled after every failed attempt
+    retryBaseDelayMs: parseInt(
+      process.env.WEBHOOK_RETRY_BASE_DELAY_MS || "10000"
+    ),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000"),
+    // Delivered and failed deliveries are dropped this long after finishing
+    deliveryRetentionMs: parseInt(
+      process.env.WEBHOOK_DELIVERY_RETENTION_MS || "604800000"
+    ),
+  },
+  eventStream: {
+    // Transfer streams end once a transfer has this many confirmations
+    confirmationTarget: parseInt(process.env.SSE_CONFIRMATION_TARGET || "12"),
+    heartbeatMs: parseInt(process.env.SSE_HEARTBEAT_MS || "15000"),
+    // Reconnection delay suggested to clients
+    retryMs: parseInt(process.env.SSE_RETRY_MS || "3000"),
+  },
+  operatorGas: {
+    intervalMs: parseInt(process.env.OPERATOR_GAS_CHECK_INTERVAL_MS || "60000"),
+    // Alert when an operator can pay for fewer transfers than this
+    alertBelowTransfers: parseInt(
+      process.env.OPERATOR_GAS_ALERT_TRANSFERS || "100"
+    ),
+    // Reject new transfers when every operator is below this; 0 disables
+    rejectBelowTransfers: parseInt(
+      process.env.OPERATOR_GAS_REJECT_TRANSFERS || "0"
+    ),
+    // Recent receipts the average gas per transfer is taken from
+    sampleSize: parseInt(process.env.OPERATOR_GAS_SAMPLE_SIZE || "50"),
+    // Gas per transfer assumed before any transfer has been mined
+    fallbackGasLimit: parseInt(
+      process.env.OPERATOR_GAS_FALLBACK_LIMIT || "120000"
+    ),
+  },
+  reserveMonitor: {
+    intervalMs: parseInt(
+      process.env.RESERVE_HEALTH_CHECK_INTERVAL_MS || "60000"
+    ),
+  },
+  batch: {
+    maxTransfers: parseInt(process.env.BATCH_MAX_TRANSFERS || "500"),
+  },
+  deposit: {
+    required: process.env.REQUIRE_DEPOSIT === "true",
+    // Source chains deposits are verified on: mainnet or testnet
+    networkType: process.env.DEPOSIT_NETWORK_TYPE || "mainnet",
+    treasuryAddress: process.env.TREASURY_ADDRESS,
+    minConfirmations: parseInt(process.env.DEPOSIT_MIN_CONFIRMATIONS || "12"),
+    confirmationTimeoutMs: parseInt(
+      process.env.DEPOSIT_CONFIRMATION_TIMEOUT_MS || "60000"
+    ),
+  },
+  refunds: {
+    // Signs refunds of deposits whose payout failed
+    treasuryPrivateKey: process.env.TREASURY_PRIVATE_KEY,
+    minConfirmations: parseInt(process.env.REFUND_MIN_CONFIRMATIONS || "12"),
+    confirmationTimeoutMs: parseInt(
+      process.env.REFUND_CONFIRMATION_TIMEOUT_MS || "1800000"
+    ),
+  },
+  quotes: {
+    ttlMs: parseInt(process.env.QUOTE_TTL_MS || "120000"),
+    // Used and expired quotes are dropped this long after they finished
+    retentionMs: parseInt(process.env.QUOTE_RETENTION_MS || "604800000"),
+  },
+  limitProposals: {
+    // Transfer limit proposals not approved within this expire
+    ttlMs: parseInt(process.env.LIMIT_PROPOSAL_TTL_MS || "86400000"),
+  },
+  auth: {
+    // Accepted as an admin key so the first API keys can be created
+    adminApiKey: process.env.ADMIN_API_KEY,
+  },
+  // Requests per client per window; 0 disables a budget
+  rateLimit: {
+    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || "60000"),
+    budgets: {
+      // Every /api route
+      default: parseInt(process.env.RATE_LIMIT_DEFAULT || "300"),
+      // Routes fetching token prices from CoinMarketCap
+      pricing: parseInt(process.env.RATE_LIMIT_PRICING || "30"),
+      // Meta-transfers and batches
+      transfer: parseInt(process.env.RATE_LIMIT_TRANSFER || "30"),
+    },
+  },
+  requestSigning: {
+    // Signed requests older or newer than this are rejected
+    maxSkewMs: parseInt(process.env.REQUEST_SIGNATURE_MAX_SKEW_MS || "300000"),
+  },
+  intents: {
+    required: process.env.REQUIRE_SIGNED_INTENTS === "true",
+    domainName: process.env.INTENT_DOMAIN_NAME || "ZAP Meta-Transaction",
+    domainVersion: process.env.INTENT_DOMAIN_VERSION || "1",
+  },
+  ledger: {
+    store: process.env.LEDGER_STORE || "json",
+  },
+  screening: {
+    // Block list files: one address per line, optionally ",reason"
+    listFiles: (process.env.SCREENING_LIST_FILES || "")
+      .split(",")
+      .map((path) => path.trim())
+      .filter((path) => path.length > 0),
+    // reject: refuse listed addresses; flag: allow them but audit and flag
+    mode: process.env.SCREENING_MODE || "reject",
+  },
+  // Off-chain velocity rules; unset or 0 disables a rule
+  velocity: {
+    recipientDailyAmount: process.env.VELOCITY_RECIPIENT_DAILY_AMOUNT,
+    recipientHourlyCount: parseInt(
+      process.env.VELOCITY_RECIPIENT_HOURLY_COUNT || "0"
+    ),
+    globalHourlyAmount: process.env.VELOCITY_GLOBAL_HOURLY_AMOUNT,
   },
   api: {
     coinmarketcap: {
@@ -19,19 +183,14 @@ const config = {
       baseUrl: "https://pro-api.coinmarketcap.com/v1",
     },
   },
-  contractAbi: [
-    "function transferIDRX(bytes32 _transferId, address _recipient, uint256 _idrxAmount) external",
-    "function minTransferAmount() public view returns (uint256)",
-    "function getEffectiveMaxTransferAmount() public view returns (uint256)",
-    "function getReserveStatus() external view returns (uint256 reserve, uint256 effectiveMaxAmount, bool isActive)",
-  ],
+  // Startup check that the deployed bytecode exposes the functions the
+  // service calls: strict fails startup, warn only logs, off skips it
+  contractCheck: {
+    mode: process.env.CONTRACT_BYTECODE_CHECK || "strict",
+  },
 
   validateConfig: (): void => {
-    const requiredEnvVars = [
-      "LISK_RPC_URL",
-      "CONTRACT_ADDRESS",
-      "OPERATOR_PRIVATE_KEY",
-    ];
+    const requiredEnvVars = ["LISK_RPC_URL", "CONTRACT_ADDRESS"];
 
     const missingEnvVars = requiredEnvVars.filter(
       (envVar) => !process.env[envVar]
@@ -43,16 +202,153 @@ const config = {
       );
     }
 
-    try {
-      new ethers.Wallet(process.env.OPERATOR_PRIVATE_KEY as string);
-    } catch (error) {
-      throw new Error("Invalid OPERATOR_PRIVATE_KEY format");
+    const { signer } = config;
+
+    if (signer.type === "env") {
+      if (config.blockchain.operatorPrivateKeys.length === 0) {
+        throw new Error(
+          "Missing required environment variables: OPERATOR_PRIVATE_KEY or OPERATOR_PRIVATE_KEYS"
+        );
+      }
+
+      config.blockchain.operatorPrivateKeys.forEach((key, index) => {
+        try {
+          new ethers.Wallet(key);
+        } catch (error) {
+          throw new Error(
+            index === 0 && process.env.OPERATOR_PRIVATE_KEY
+              ? "Invalid OPERATOR_PRIVATE_KEY format"
+              : "Invalid OPERATOR_PRIVATE_KEYS format"
+          );
+        }
+      });
+    } else if (signer.type === "keystore") {
+      if (signer.keystorePaths.length === 0) {
+        throw new Error("KEYSTORE_PATHS is required when SIGNER_TYPE=keystore");
+      }
+
+      if (!signer.keystorePassphraseFile) {
+        throw new Error(
+          "KEYSTORE_PASSPHRASE_FILE is required when SIGNER_TYPE=keystore"
+        );
+      }
+
+      const files = [...signer.keystorePaths, signer.keystorePassphraseFile];
+      for (const file of files) {
+        if (!fs.existsSync(file)) {
+          throw new Error(`Signer file not found: ${file}`);
+        }
+      }
+    } else if (signer.type === "remote") {
+      if (!signer.remoteUrl) {
+        throw new Error(
+          "REMOTE_SIGNER_URL is required when SIGNER_TYPE=remote"
+        );
+      }
+
+      try {
+        new URL(signer.remoteUrl);
+      } catch (error) {
+        throw new Error("Invalid REMOTE_SIGNER_URL format");
+      }
+    } else {
+      throw new Error(
+        `Invalid SIGNER_TYPE: ${signer.type} (expected env, keystore or remote)`
+      );
     }
 
     if (!ethers.utils.isAddress(process.env.CONTRACT_ADDRESS as string)) {
       throw new Error("Invalid CONTRACT_ADDRESS format");
     }
 
+    if (
+      process.env.REQUIRE_DEPOSIT === "true" &&
+      !process.env.TREASURY_ADDRESS
+    ) {
+      throw new Error(
+        "TREASURY_ADDRESS is required when REQUIRE_DEPOSIT is enabled"
+      );
+    }
+
+    if (!["mainnet", "testnet"].includes(config.deposit.networkType)) {
+      throw new Error(
+        `Invalid DEPOSIT_NETWORK_TYPE: ${config.deposit.networkType} (expected mainnet or testnet)`
+      );
+    }
+
+    if (
+      process.env.TREASURY_ADDRESS &&
+      !ethers.utils.isAddress(process.env.TREASURY_ADDRESS)
+    ) {
+      throw new Error("Invalid TREASURY_ADDRESS format");
+    }
+
+    if (process.env.TREASURY_PRIVATE_KEY) {
+      let treasury: ethers.Wallet;
+      try {
+        treasury = new ethers.Wallet(process.env.TREASURY_PRIVATE_KEY);
+      } catch (error) {
+        throw new Error("Invalid TREASURY_PRIVATE_KEY format");
+      }
+
+      if (
+        process.env.TREASURY_ADDRESS &&
+        treasury.address.toLowerCase() !==
+          process.env.TREASURY_ADDRESS.toLowerCase()
+      ) {
+        throw new Error("TREASURY_PRIVATE_KEY does not match TREASURY_ADDRESS");
+      }
+    }
+
+    if (!["reject", "flag"].includes(config.screening.mode)) {
+      throw new Error(
+        `Invalid SCREENING_MODE: ${config.screening.mode} (expected reject or flag)`
+      );
+    }
+
+    if (config.auth.adminApiKey && config.auth.adminApiKey.length < 32) {
+      throw new Error("ADMIN_API_KEY must be at least 32 characters");
+    }
+
+    if (
+      !(config.rateLimit.windowMs > 0) ||
+      Object.values(config.rateLimit.budgets).some((limit) => isNaN(limit))
+    ) {
+      throw new Error("Invalid RATE_LIMIT_* configuration");
+    }
+
+    if (!["strict", "warn", "off"].includes(config.contractCheck.mode)) {
+      throw new Error(
+        `Invalid CONTRACT_BYTECODE_CHECK: ${config.contractCheck.mode} (expected strict, warn or off)`
+      );
+    }
+
+    for (const file of config.screening.listFiles) {
+      if (!fs.existsSync(file)) {
+        throw new Error(`Screening list file not found: ${file}`);
+      }
+    }
+
+    for (const envVar of [
+      "VELOCITY_RECIPIENT_DAILY_AMOUNT",
+      "VELOCITY_GLOBAL_HOURLY_AMOUNT",
+    ]) {
+      const value = process.env[envVar];
+      try {
+        if (value) {
+          ethers.utils.parseUnits(value, 2);
+        }
+      } catch (error) {
+        throw new Error(`Invalid ${envVar} format`);
+      }
+    }
+
+    if (!config.auth.adminApiKey) {
+      console.warn(
+        "ADMIN_API_KEY is not set. API keys can only be managed with existing admin keys."
+      );
+    }
+
     if (!process.env.COINMARKETCAP_API_KEY) {
       console.warn(
         "COINMARKETCAP_API_KEY is not set. Token price API calls may fail."
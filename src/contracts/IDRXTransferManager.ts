@@ -0,0 +1,230 @@
+import {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  EventFilter,
+  Overrides,
+  PopulatedTransaction,
+  Signer,
+  providers,
+  utils,
+} from "ethers";
+import abi from "./IDRXTransferManager.abi.json";
+
+/**
+ * Typed bindings for the IDRXTransferManager contract, written against
+ * IDRXTransferManager.abi.json in the shape typechain's ethers-v5 target
+ * generates. Keep both files in sync when the contract changes.
+ */
+
+export const IDRX_TRANSFER_MANAGER_ABI = abi;
+
+export type SendOverrides = Overrides & { from?: string };
+
+export type ReserveStatusResult = [BigNumber, BigNumber, boolean] & {
+  reserve: BigNumber;
+  effectiveMaxAmount: BigNumber;
+  isActive: boolean;
+};
+
+/**
+ * A typed event emitted by the contract
+ */
+export interface TypedEvent<TArgs extends utils.Result>
+  extends providers.Log {
+  event?: string;
+  eventSignature?: string;
+  args: TArgs;
+  decode?: (data: string, topics?: string[]) => utils.Result;
+  removeListener: () => void;
+  getBlock: () => Promise<providers.Block>;
+  getTransaction: () => Promise<providers.TransactionResponse>;
+  getTransactionReceipt: () => Promise<providers.TransactionReceipt>;
+}
+
+export interface TypedEventFilter<TEvent extends TypedEvent<utils.Result>>
+  extends EventFilter {}
+
+export type TransferExecutedEvent = TypedEvent<
+  [string, string, BigNumber] & {
+    transferId: string;
+    recipient: string;
+    amount: BigNumber;
+  }
+>;
+
+export type TransferLimitsUpdatedEvent = TypedEvent<
+  [BigNumber, BigNumber] & { minAmount: BigNumber; maxAmount: BigNumber }
+>;
+
+export type ReserveDepositedEvent = TypedEvent<
+  [string, BigNumber] & { from: string; amount: BigNumber }
+>;
+
+export type ReserveWithdrawnEvent = TypedEvent<
+  [string, BigNumber] & { to: string; amount: BigNumber }
+>;
+
+export type PausedEvent = TypedEvent<[string] & { account: string }>;
+
+export type UnpausedEvent = TypedEvent<[string] & { account: string }>;
+
+export type RoleAdminChangedEvent = TypedEvent<
+  [string, string, string] & {
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
+  }
+>;
+
+export type RoleGrantedEvent = TypedEvent<
+  [string, string, string] & { role: string; account: string; sender: string }
+>;
+
+export type RoleRevokedEvent = TypedEvent<
+  [string, string, string] & { role: string; account: string; sender: string }
+>;
+
+/**
+ * Read-only functions, with the return type of a direct call
+ */
+type ViewFunctions<O> = {
+  DEFAULT_ADMIN_ROLE(overrides?: O): Promise<string>;
+  OPERATOR_ROLE(overrides?: O): Promise<string>;
+  getEffectiveMaxTransferAmount(overrides?: O): Promise<BigNumber>;
+  getReserveStatus(overrides?: O): Promise<ReserveStatusResult>;
+  getRoleAdmin(role: BytesLike, overrides?: O): Promise<string>;
+  hasRole(
+    role: BytesLike,
+    account: string,
+    overrides?: O
+  ): Promise<boolean>;
+  idrxToken(overrides?: O): Promise<string>;
+  maxTransferAmount(overrides?: O): Promise<BigNumber>;
+  minTransferAmount(overrides?: O): Promise<BigNumber>;
+  paused(overrides?: O): Promise<boolean>;
+  processedTransfers(transferId: BytesLike, overrides?: O): Promise<boolean>;
+  supportsInterface(interfaceId: BytesLike, overrides?: O): Promise<boolean>;
+};
+
+/**
+ * State-changing functions, returning R
+ */
+type SendFunctions<O, R> = {
+  depositReserve(amount: BigNumberish, overrides?: O): Promise<R>;
+  grantRole(role: BytesLike, account: string, overrides?: O): Promise<R>;
+  pause(overrides?: O): Promise<R>;
+  renounceRole(
+    role: BytesLike,
+    callerConfirmation: string,
+    overrides?: O
+  ): Promise<R>;
+  revokeRole(role: BytesLike, account: string, overrides?: O): Promise<R>;
+  transferIDRX(
+    transferId: BytesLike,
+    recipient: string,
+    idrxAmount: BigNumberish,
+    overrides?: O
+  ): Promise<R>;
+  unpause(overrides?: O): Promise<R>;
+  updateTransferLimits(
+    minAmount: BigNumberish,
+    maxAmount: BigNumberish,
+    overrides?: O
+  ): Promise<R>;
+  withdrawReserve(
+    to: string,
+    amount: BigNumberish,
+    overrides?: O
+  ): Promise<R>;
+};
+
+/**
+ * Every function with the same return type R, as on estimateGas and
+ * populateTransaction
+ */
+type AllFunctions<R> = {
+  [K in keyof ViewFunctions<CallOverrides>]: (
+    ...args: Parameters<ViewFunctions<CallOverrides>[K]>
+  ) => Promise<R>;
+} & SendFunctions<SendOverrides, R>;
+
+/**
+ * Event filter builders
+ */
+type Filters = {
+  TransferExecuted(
+    transferId?: BytesLike | null,
+    recipient?: string | null
+  ): TypedEventFilter<TransferExecutedEvent>;
+  TransferLimitsUpdated(): TypedEventFilter<TransferLimitsUpdatedEvent>;
+  ReserveDeposited(
+    from?: string | null
+  ): TypedEventFilter<ReserveDepositedEvent>;
+  ReserveWithdrawn(
+    to?: string | null
+  ): TypedEventFilter<ReserveWithdrawnEvent>;
+  Paused(): TypedEventFilter<PausedEvent>;
+  Unpaused(): TypedEventFilter<UnpausedEvent>;
+  RoleAdminChanged(
+    role?: BytesLike | null,
+    previousAdminRole?: BytesLike | null,
+    newAdminRole?: BytesLike | null
+  ): TypedEventFilter<RoleAdminChangedEvent>;
+  RoleGranted(
+    role?: BytesLike | null,
+    account?: string | null,
+    sender?: string | null
+  ): TypedEventFilter<RoleGrantedEvent>;
+  RoleRevoked(
+    role?: BytesLike | null,
+    account?: string | null,
+    sender?: string | null
+  ): TypedEventFilter<RoleRevokedEvent>;
+};
+
+export interface IDRXTransferManager
+  extends BaseContract,
+    ViewFunctions<CallOverrides>,
+    SendFunctions<SendOverrides, ContractTransaction> {
+  connect(signerOrProvider: Signer | providers.Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  callStatic: ViewFunctions<CallOverrides> &
+    SendFunctions<CallOverrides, void>;
+  estimateGas: AllFunctions<BigNumber>;
+  populateTransaction: AllFunctions<PopulatedTransaction>;
+  filters: Filters;
+
+  queryFilter<TEvent extends TypedEvent<utils.Result>>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number,
+    toBlock?: string | number
+  ): Promise<TEvent[]>;
+}
+
+/**
+ * Connect to a deployed IDRXTransferManager
+ * @param address Contract address
+ * @param signerOrProvider Signer sending transactions, or provider for reads
+ * @returns Typed contract instance
+ */
+export function connectTransferManager(
+  address: string,
+  signerOrProvider: Signer | providers.Provider
+): IDRXTransferManager {
+  return new Contract(
+    address,
+    IDRX_TRANSFER_MANAGER_ABI,
+    signerOrProvider
+  ) as unknown as IDRXTransferManager;
+}
+
+export const transferManagerInterface = new utils.Interface(
+  IDRX_TRANSFER_MANAGER_ABI
+);
@@ -0,0 +1,144 @@
+import { ethers } from "ethers";
+import { transferManagerInterface } from "./IDRXTransferManager";
+
+/**
+ * Functions the service calls; a deployment without them cannot serve
+ * transfers
+ */
+export const REQUIRED_FUNCTIONS = [
+  "transferIDRX",
+  "minTransferAmount",
+  "getEffectiveMaxTransferAmount",
+  "getReserveStatus",
+  "updateTransferLimits",
+];
+
+// keccak256("eip1967.proxy.implementation") - 1
+const EIP1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+const EIP1167_PATTERN =
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+
+/**
+ * Resolve the bytecode holding the contract's functions, following EIP-1967
+ * and EIP-1167 proxies to their implementation
+ * @param provider Lisk provider
+ * @param address Contract address
+ * @returns Runtime bytecode (lowercase hex) and the address it was read from
+ */
+const resolveCode = async (
+  provider: ethers.providers.Provider,
+  address: string
+): Promise<{ code: string; codeAddress: string }> => {
+  const code = (await provider.getCode(address)).toLowerCase();
+
+  if (code === "0x") {
+    throw new Error(`No contract deployed at ${address}`);
+  }
+
+  const minimalProxy = code.match(EIP1167_PATTERN);
+  if (minimalProxy) {
+    const implementation = ethers.utils.getAddress(`0x${minimalProxy[1]}`);
+    return resolveCode(provider, implementation);
+  }
+
+  const slot = await provider.getStorageAt(
+    address,
+    EIP1967_IMPLEMENTATION_SLOT
+  );
+  const implementation = ethers.utils.hexDataSlice(slot, 12);
+
+  if (!ethers.BigNumber.from(implementation).isZero()) {
+    const implementationCode = (
+      await provider.getCode(implementation)
+    ).toLowerCase();
+
+    if (implementationCode === "0x") {
+      throw new Error(
+        `Proxy ${address} points to ${implementation}, which has no code`
+      );
+    }
+
+    return {
+      code: implementationCode,
+      codeAddress: ethers.utils.getAddress(implementation),
+    };
+  }
+
+  return { code, codeAddress: address };
+};
+
+/**
+ * Whether bytecode pushes a function selector, as the Solidity dispatcher
+ * does for every external function. Selectors with leading zero bytes may be
+ * pushed with a shorter PUSH.
+ * @param code Runtime bytecode
+ * @param selector 4-byte function selector
+ * @returns true if the selector appears as a PUSH operand
+ */
+const hasSelector = (code: string, selector: string): boolean => {
+  const operand = selector.slice(2).replace(/^(00)+/, "");
+  const push = (0x5f + operand.length / 2).toString(16);
+
+  return code.includes(`${push}${operand}`);
+};
+
+/**
+ * Check that the contract deployed at an address exposes the
+ * IDRXTransferManager functions. Missing required functions fail in strict
+ * mode; anything else missing from the ABI is only logged.
+ * @param provider Lisk provider
+ * @param address Contract address
+ * @param mode strict, warn or off
+ */
+export const verifyDeployment = async (
+  provider: ethers.providers.Provider,
+  address: string,
+  mode: string
+): Promise<void> => {
+  if (mode === "off") {
+    return;
+  }
+
+  const { code, codeAddress } = await resolveCode(provider, address);
+
+  const missing = Object.values(transferManagerInterface.functions)
+    .filter(
+      (fragment) =>
+        !hasSelector(code, transferManagerInterface.getSighash(fragment))
+    )
+    .map((fragment) => fragment.name);
+
+  const missingRequired = missing.filter((name) =>
+    REQUIRED_FUNCTIONS.includes(name)
+  );
+  const missingOptional = missing.filter(
+    (name) => !REQUIRED_FUNCTIONS.includes(name)
+  );
+
+  if (missingOptional.length > 0) {
+    console.warn(
+      `Contract at ${codeAddress} does not expose: ${missingOptional.join(
+        ", "
+      )}`
+    );
+  }
+
+  if (missingRequired.length > 0) {
+    const message =
+      `Contract at ${codeAddress} is missing required functions: ` +
+      missingRequired.join(", ");
+
+    if (mode === "strict") {
+      throw new Error(message);
+    }
+
+    console.warn(message);
+    return;
+  }
+
+  console.log(
+    `Verified IDRXTransferManager functions in bytecode at ${codeAddress}`
+  );
+};
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from "express";
+import adminAuditService, {
+  AdminAuditFilter,
+  AdminAuditOutcome,
+} from "../services/adminAuditService";
+import { ServiceError } from "../types";
+
+/**
+ * Read audit log filters from a request
+ * @param req Request
+ * @returns Audit log filter
+ */
+const toFilter = (req: Request): AdminAuditFilter => {
+  const filter: AdminAuditFilter = {
+    action: req.query.action as string | undefined,
+    actor: req.query.actor as string | undefined,
+    outcome: req.query.outcome as AdminAuditOutcome | undefined,
+    page: req.query.page ? parseInt(req.query.page as string) : undefined,
+    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+  };
+
+  if (req.query.startDate) {
+    filter.startDate = new Date(req.query.startDate as string);
+    if (isNaN(filter.startDate.getTime())) {
+      throw new ServiceError("Invalid startDate format", 400);
+    }
+  }
+
+  if (req.query.endDate) {
+    filter.endDate = new Date(req.query.endDate as string);
+    if (isNaN(filter.endDate.getTime())) {
+      throw new ServiceError("Invalid endDate format", 400);
+    }
+  }
+
+  return filter;
+};
+
+/**
+ * Controller for admin audit log endpoints
+ */
+export class AdminAuditController {
+  /**
+   * List admin audit entries handler
+   */
+  public async listEntries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = adminAuditService.list(toFilter(req));
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Export admin audit entries handler
+   */
+  public async exportEntries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const format = req.query.format === "csv" ? "csv" : "jsonl";
+      const contents = adminAuditService.export(format, toFilter(req));
+
+      res
+        .status(200)
+        .type(format === "csv" ? "text/csv" : "application/x-ndjson")
+        .attachment(`admin-audit-log.${format}`)
+        .send(contents);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Verify admin audit hash chain handler
+   */
+  public async verify(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const verification = adminAuditService.verify();
+
+      res.status(200).json({
+        success: true,
+        ...verification,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new AdminAuditController();
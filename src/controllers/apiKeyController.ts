@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from "express";
+import apiKeyService from "../services/apiKeyService";
+
+/**
+ * Controller for API key endpoints
+ */
+export class ApiKeyController {
+  /**
+   * List API keys handler
+   */
+  public async listKeys(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        apiKeys: apiKeyService.listKeys(req.query.includeRevoked === "true"),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create API key handler. The key and signing secret are only returned
+   * here.
+   */
+  public async createKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { key, signingSecret, apiKey } = apiKeyService.createKey(
+        req.body.name,
+        req.body.scopes,
+        req.apiKey?.keyId,
+        req.body.signing === true
+      );
+
+      res.status(201).json({
+        success: true,
+        key,
+        signingSecret,
+        apiKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke API key handler
+   */
+  public async revokeKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const apiKey = apiKeyService.revokeKey(
+        req.params.keyId,
+        req.apiKey?.keyId
+      );
+
+      res.status(200).json({
+        success: true,
+        apiKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ApiKeyController();
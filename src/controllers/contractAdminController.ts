@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from "express";
+import contractAdminService, {
+  ContractAdminAction,
+  ContractAdminOutcome,
+  ContractAdminRequest,
+} from "../services/contractAdminService";
+import { getAuditActor } from "../middleware/audit";
+
+/**
+ * Read the admin operation parameters from a request
+ * @param req Request
+ * @returns Operation request
+ */
+const toAdminRequest = (req: Request): ContractAdminRequest => ({
+  amount: req.body.amount,
+  to: req.body.to,
+  operator: req.body.operator,
+  dryRun: req.body.dryRun === true || req.query.dryRun === "true",
+  reason: req.body.reason,
+  actor: getAuditActor(req),
+});
+
+/**
+ * Create a handler running an admin operation
+ * @param action Contract function to call
+ * @returns Request handler
+ */
+const runAction =
+  (action: ContractAdminAction) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await contractAdminService.execute(
+        action,
+        toAdminRequest(req)
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Controller for contract admin endpoints
+ */
+export class ContractAdminController {
+  /**
+   * Pause contract handler
+   */
+  public pause = runAction("pause");
+
+  /**
+   * Unpause contract handler
+   */
+  public unpause = runAction("unpause");
+
+  /**
+   * Deposit reserve handler
+   */
+  public depositReserve = runAction("depositReserve");
+
+  /**
+   * Withdraw reserve handler
+   */
+  public withdrawReserve = runAction("withdrawReserve");
+
+  /**
+   * Get contract admin status handler
+   */
+  public async getStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = await contractAdminService.getStatus();
+
+      res.status(200).json({
+        success: true,
+        ...status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List contract admin audit entries handler
+   */
+  public async listAudit(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = contractAdminService.listAudit({
+        action: req.query.action as ContractAdminAction | undefined,
+        outcome: req.query.outcome as ContractAdminOutcome | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string)
+          : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ContractAdminController();
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import metaTransactionService from "../services/metaTransactionService";
-import { MetaTransferRequest } from "../types";
+import transferEventStreamService from "../services/transferEventStreamService";
+import transferIntentService from "../services/transferIntentService";
+import { BatchTransferRequest, MetaTransferRequest } from "../types";
 
 /**
  * Controller for meta-transaction endpoints
@@ -15,13 +17,153 @@ export class MetaTransactionController {
     next: NextFunction
   ): Promise<void> {
     try {
+      const idempotencyKey =
+        req.header("Idempotency-Key") || req.body.idempotencyKey;
+
       const params: MetaTransferRequest = {
         recipient: req.body.recipient,
         idrxAmount: req.body.idrxAmount,
+        // Scoped to the API key so clients cannot replay each other's keys
+        idempotencyKey:
+          idempotencyKey && `${req.apiKey?.keyId}:${idempotencyKey}`,
+        async:
+          req.body.async === true ||
+          /respond-async/i.test(req.header("Prefer") || ""),
+        network: req.body.network,
+        depositTxHash: req.body.depositTxHash,
+        token: req.body.token,
+        quoteId: req.body.quoteId,
+        simulate: req.body.simulate === true || req.query.simulate === "true",
+        intent: req.body.intent && {
+          nonce: req.body.intent.nonce,
+          deadline: parseInt(req.body.intent.deadline),
+          signature: req.body.intent.signature,
+        },
       };
 
       const result = await metaTransactionService.executeTransfer(params);
-      res.status(200).json(result);
+      res.status(result.status === "queued" ? 202 : 200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Execute batch transfer handler
+   */
+  public async executeBatchTransfer(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const idempotencyKey =
+        req.header("Idempotency-Key") || req.body.idempotencyKey;
+
+      const params: BatchTransferRequest = {
+        transfers: req.body.transfers.map((item: any) => ({
+          recipient: item.recipient,
+          idrxAmount: item.idrxAmount,
+        })),
+        // Scoped to the API key so clients cannot replay each other's keys
+        idempotencyKey:
+          idempotencyKey && `${req.apiKey?.keyId}:${idempotencyKey}`,
+        async:
+          req.body.async === true ||
+          /respond-async/i.test(req.header("Prefer") || ""),
+      };
+
+      const result = await metaTransactionService.executeBatchTransfer(params);
+      res.status(params.async ? 202 : 200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get transfer status handler
+   */
+  public async getTransferStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = await metaTransactionService.getTransferStatus(
+        req.params.transferId
+      );
+      res.status(200).json(status);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Transfer event stream handler
+   */
+  public async streamTransferEvents(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      await transferEventStreamService.streamTransfer(
+        req,
+        res,
+        req.params.transferId
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Event firehose handler
+   */
+  public async streamAllEvents(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      transferEventStreamService.streamAll(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get transfer intent typed data definition handler
+   */
+  public async getIntentDomain(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const definition = await transferIntentService.getTypedDataDefinition();
+      res.status(200).json({ success: true, ...definition });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get next transfer intent nonce handler
+   */
+  public async getIntentNonce(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { address } = req.params;
+
+      res.status(200).json({
+        success: true,
+        address,
+        nonce: transferIntentService.getNonce(address),
+      });
     } catch (error) {
       next(error);
     }
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from "express";
+import operatorService from "../services/operatorService";
+
+/**
+ * Controller for operator key pool endpoints
+ */
+export class OperatorController {
+  /**
+   * List operators handler
+   */
+  public async listOperators(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const operators = await operatorService.listOperators();
+
+      res.status(200).json({
+        success: true,
+        operators,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add operator handler
+   */
+  public async addOperator(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const operator = await operatorService.addOperator(req.body.address);
+
+      res.status(201).json({
+        success: true,
+        operator,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Drain operator handler
+   */
+  public async drainOperator(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const operator = await operatorService.drainOperator(req.params.address);
+
+      res.status(200).json({
+        success: true,
+        operator,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Activate operator handler
+   */
+  public async activateOperator(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const operator = await operatorService.activateOperator(
+        req.params.address
+      );
+
+      res.status(200).json({
+        success: true,
+        operator,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retire operator handler
+   */
+  public async retireOperator(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const operator = await operatorService.retireOperator(
+        req.params.address
+      );
+
+      res.status(200).json({
+        success: true,
+        operator,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new OperatorController();
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from "express";
+import apiKeyService from "../services/apiKeyService";
+import quoteService from "../services/quoteService";
+import { ServiceError } from "../types";
+import { formatCurrency } from "../utils/general";
+
+/**
+ * Controller for locked quote endpoints
+ */
+export class QuoteController {
+  /**
+   * Create quote handler
+   */
+  public async createQuote(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { token = "eth", amount, idrxAmount, customSpreadFee, recipient } =
+        req.body;
+
+      // Quotes are binding, so only admins may price them off the default
+      if (
+        customSpreadFee !== undefined &&
+        !(req.apiKey && apiKeyService.hasScope(req.apiKey, "admin"))
+      ) {
+        throw new ServiceError(
+          "customSpreadFee on quotes requires an API key with the admin scope",
+          403,
+          "INSUFFICIENT_SCOPE"
+        );
+      }
+
+      const quote = await quoteService.createQuote({
+        token,
+        amount: amount !== undefined ? parseFloat(amount) : undefined,
+        idrxAmount:
+          idrxAmount !== undefined ? parseFloat(idrxAmount) : undefined,
+        customSpreadFee:
+          customSpreadFee !== undefined
+            ? parseFloat(customSpreadFee)
+            : undefined,
+        recipient,
+      });
+
+      res.status(201).json({
+        success: true,
+        ...quote,
+        idrxAmountFormatted: formatCurrency(
+          parseFloat(quote.idrxAmount),
+          "IDR"
+        ),
+        expiresAt: new Date(quote.expiresAt).toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get quote handler
+   */
+  public async getQuote(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const quote = quoteService.getQuote(req.params.quoteId);
+
+      res.status(200).json({
+        success: true,
+        ...quote,
+        expired: quote.status === "open" && quote.expiresAt <= Date.now(),
+        expiresAt: new Date(quote.expiresAt).toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new QuoteController();
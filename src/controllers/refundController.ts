@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from "express";
+import refundService, { RefundStatus } from "../services/refundService";
+
+/**
+ * Controller for refund endpoints
+ */
+export class RefundController {
+  /**
+   * List refunds handler
+   */
+  public async listRefunds(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = refundService.listRefunds({
+        status: req.query.status as RefundStatus | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string)
+          : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get refund handler
+   */
+  public async getRefund(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const refund = await refundService.getRefund(req.params.refundId);
+
+      res.status(200).json({
+        success: true,
+        refund,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve refund handler
+   */
+  public async approveRefund(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const refund = await refundService.approve(
+        req.params.refundId,
+        req.body.note
+      );
+
+      res.status(202).json({
+        success: true,
+        refund,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel refund handler
+   */
+  public async cancelRefund(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const refund = await refundService.cancel(
+        req.params.refundId,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        refund,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new RefundController();
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 import reserveLimitService from "../services/reserveLimitService";
+import transferLimitProposalService, {
+  TransferLimitProposalStatus,
+} from "../services/transferLimitProposalService";
+import { getAuditActor } from "../middleware/audit";
 
 /**
  * Controller for reserve limit endpoints
@@ -8,7 +12,11 @@ export class ReserveLimitController {
   constructor() {
     this.getHealthDescription = this.getHealthDescription.bind(this);
     this.calculateTransferLimits = this.calculateTransferLimits.bind(this);
-    this.updateTransferLimits = this.updateTransferLimits.bind(this);
+    this.proposeTransferLimits = this.proposeTransferLimits.bind(this);
+    this.listProposals = this.listProposals.bind(this);
+    this.getProposal = this.getProposal.bind(this);
+    this.approveProposal = this.approveProposal.bind(this);
+    this.rejectProposal = this.rejectProposal.bind(this);
   }
 
   /**
@@ -73,29 +81,134 @@ export class ReserveLimitController {
   }
 
   /**
-   * Update contract transfer limits
+   * Propose contract transfer limits handler. The limits are only updated
+   * once a second admin approves the proposal.
    */
-  public async updateTransferLimits(
+  public async proposeTransferLimits(
     req: Request,
     res: Response,
     next: NextFunction
   ): Promise<void> {
     try {
-      const { minAmount, maxAmount } = req.body;
+      const { minAmount, maxAmount, reason } = req.body;
 
-      const result = await reserveLimitService.updateContractLimits(
+      const proposal = await transferLimitProposalService.propose(
         minAmount,
-        maxAmount
+        maxAmount,
+        getAuditActor(req),
+        reason
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Transfer limit proposal created; awaiting approval by a second admin",
+        proposal,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List transfer limit proposals handler
+   */
+  public async listProposals(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = transferLimitProposalService.listProposals({
+        status: req.query.status as TransferLimitProposalStatus | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string)
+          : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get transfer limit proposal handler
+   */
+  public async getProposal(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const proposal = transferLimitProposalService.getProposal(
+        req.params.proposalId
       );
 
       res.status(200).json({
-        success: result.success,
-        message: "Transfer limits updated successfully",
-        transactionHash: result.transactionHash,
+        success: true,
+        proposal,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve transfer limit proposal handler. Responds once the limit update
+   * is mined.
+   */
+  public async approveProposal(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const proposal = await transferLimitProposalService.approve(
+        req.params.proposalId,
+        getAuditActor(req),
+        req.body.note
+      );
+
+      res.status(200).json({
+        success: proposal.status === "executed",
+        message:
+          proposal.status === "executed"
+            ? "Transfer limits updated successfully"
+            : "Transfer limit update failed",
+        transactionHash: proposal.transactionHash,
         updatedLimits: {
-          minAmount,
-          maxAmount,
+          minAmount: proposal.minAmount,
+          maxAmount: proposal.maxAmount,
         },
+        proposal,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reject transfer limit proposal handler
+   */
+  public async rejectProposal(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const proposal = transferLimitProposalService.reject(
+        req.params.proposalId,
+        getAuditActor(req),
+        req.body.note
+      );
+
+      res.status(200).json({
+        success: true,
+        proposal,
       });
     } catch (error) {
       next(error);
@@ -0,0 +1,146 @@
+import { Request, Response, NextFunction } from "express";
+import screeningService, {
+  ScreeningAuditEntry,
+} from "../services/screeningService";
+
+/**
+ * Controller for address screening endpoints
+ */
+export class ScreeningController {
+  /**
+   * List blocked addresses handler
+   */
+  public async listEntries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const entries = screeningService.listEntries(
+        req.query.source as string | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        entries,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Check address handler
+   */
+  public async checkAddress(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const entry = screeningService.lookup(req.params.address);
+
+      res.status(200).json({
+        success: true,
+        address: req.params.address,
+        listed: !!entry,
+        entry,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Block address handler
+   */
+  public async addEntry(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { address, reason } = req.body;
+      const entry = screeningService.addEntry(address, reason);
+
+      res.status(201).json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Unblock address handler
+   */
+  public async removeEntry(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const entry = screeningService.removeEntry(
+        req.params.address,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reload list files handler
+   */
+  public async reloadLists(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const fileEntries = screeningService.reload();
+
+      res.status(200).json({
+        success: true,
+        fileEntries,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List screening audit entries handler
+   */
+  public async listAudit(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = screeningService.listAudit({
+        address: req.query.address as string | undefined,
+        action: req.query.action as ScreeningAuditEntry["action"] | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string)
+          : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ScreeningController();
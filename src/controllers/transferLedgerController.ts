@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from "express";
+import transferLedgerService, {
+  TransferLedgerFilter,
+} from "../services/transferLedgerService";
+import { ServiceError, TransferLifecycleStatus } from "../types";
+
+/**
+ * Controller for transfer ledger endpoints
+ */
+export class TransferLedgerController {
+  /**
+   * List ledger entries with optional filters
+   */
+  public async listTransfers(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const filter: TransferLedgerFilter = {
+        recipient: req.query.recipient as string | undefined,
+        status: req.query.status as TransferLifecycleStatus | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string)
+          : undefined,
+      };
+
+      if (req.query.startDate) {
+        filter.startDate = new Date(req.query.startDate as string);
+        if (isNaN(filter.startDate.getTime())) {
+          throw new ServiceError("Invalid startDate format", 400);
+        }
+      }
+
+      if (req.query.endDate) {
+        filter.endDate = new Date(req.query.endDate as string);
+        if (isNaN(filter.endDate.getTime())) {
+          throw new ServiceError("Invalid endDate format", 400);
+        }
+      }
+
+      const result = transferLedgerService.listEntries(filter);
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single ledger entry
+   */
+  public async getTransfer(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const entry = transferLedgerService.getEntry(req.params.transferId);
+
+      res.status(200).json({
+        success: true,
+        entry,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new TransferLedgerController();
@@ -0,0 +1,140 @@
+import { Request, Response, NextFunction } from "express";
+import webhookService, {
+  WebhookDelivery,
+} from "../services/webhookService";
+
+/**
+ * Controller for webhook subscription endpoints
+ */
+export class WebhookController {
+  /**
+   * List subscriptions handler
+   */
+  public async listSubscriptions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        subscriptions: webhookService.listSubscriptions(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create subscription handler. The secret is only returned here.
+   */
+  public async createSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { url, events, secret, description } = req.body;
+      const subscription = webhookService.createSubscription(
+        url,
+        events,
+        secret,
+        description
+      );
+
+      res.status(201).json({
+        success: true,
+        subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get subscription handler
+   */
+  public async getSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        subscription: webhookService.getSubscription(
+          req.params.subscriptionId
+        ),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete subscription handler
+   */
+  public async deleteSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      webhookService.deleteSubscription(req.params.subscriptionId);
+
+      res.status(200).json({
+        success: true,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List deliveries handler
+   */
+  public async listDeliveries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = webhookService.listDeliveries(req.params.subscriptionId, {
+        status: req.query.status as WebhookDelivery["status"] | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string)
+          : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Redeliver handler
+   */
+  public async redeliver(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const delivery = webhookService.redeliver(req.params.deliveryId);
+
+      res.status(202).json({
+        success: true,
+        delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new WebhookController();
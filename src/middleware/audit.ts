@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from "express";
+import adminAuditService, {
+  AdminAuditActor,
+  AdminAuditOutcome,
+} from "../services/adminAuditService";
+
+/**
+ * Identify the admin behind a request for the audit log
+ * @param req Request
+ * @returns API key and client IP of the request
+ */
+export const getAuditActor = (req: Request): AdminAuditActor => ({
+  keyId: req.apiKey?.keyId,
+  name: req.apiKey?.name,
+  ip: req.ip,
+});
+
+/**
+ * Middleware writing an admin action to the audit log once its response
+ * has been sent. For actions without on-chain state; services record
+ * on-chain actions themselves, with the state before and after.
+ * @param action Audit action name, e.g. "apiKey.create"
+ * @returns Middleware recording the request parameters and outcome
+ */
+export const auditAdminAction =
+  (action: string) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    res.on("finish", () => {
+      const outcome: AdminAuditOutcome =
+        res.statusCode < 400
+          ? "succeeded"
+          : res.statusCode < 500
+          ? "rejected"
+          : "failed";
+
+      adminAuditService.record({
+        action,
+        actor: getAuditActor(req),
+        params: { ...req.params, ...req.body },
+        outcome,
+        error: res.locals.errorMessage,
+      });
+    });
+
+    next();
+  };
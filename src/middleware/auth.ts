@@ -0,0 +1,147 @@
+import { Request, Response, NextFunction } from "express";
+import apiKeyService, {
+  ApiKeyIdentity,
+  ApiKeyScope,
+} from "../services/apiKeyService";
+import requestSignatureService from "../services/requestSignatureService";
+import { ServiceError } from "../types";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticate when the request carries a valid API key
+      apiKey?: ApiKeyIdentity;
+      // JSON request body as received, set by the body parser
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Read the API key from `Authorization: Bearer <key>` or `X-API-Key`
+ * @param req Request
+ * @returns Key, if the request carries one
+ */
+const readApiKey = (req: Request): string | undefined => {
+  const authorization = req.header("Authorization");
+
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+
+    if (!match) {
+      throw new ServiceError(
+        "Authorization header must be a Bearer API key",
+        401,
+        "UNAUTHORIZED"
+      );
+    }
+
+    return match[1];
+  }
+
+  return req.header("X-API-Key") || undefined;
+};
+
+/**
+ * Middleware identifying the API key a request carries. Requests without a
+ * key pass through anonymously; requests with an invalid or revoked key are
+ * rejected.
+ */
+export const authenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const key = readApiKey(req);
+
+    if (key) {
+      req.apiKey = apiKeyService.authenticate(key);
+    }
+
+    next();
+  } catch (error) {
+    res.set("WWW-Authenticate", "Bearer");
+    next(error);
+  }
+};
+
+/**
+ * Middleware requiring an API key with a scope. Admin keys hold every
+ * scope.
+ * @param scope Required scope
+ * @returns Middleware rejecting anonymous requests with 401 and keys
+ * without the scope with 403
+ */
+export const requireScope =
+  (scope: ApiKeyScope) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiKey) {
+      res.set("WWW-Authenticate", "Bearer");
+      next(new ServiceError("API key required", 401, "UNAUTHORIZED"));
+      return;
+    }
+
+    if (!apiKeyService.hasScope(req.apiKey, scope)) {
+      next(
+        new ServiceError(
+          `API key is missing the ${scope} scope`,
+          403,
+          "INSUFFICIENT_SCOPE"
+        )
+      );
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * Middleware verifying signed requests. A request with `X-Zap-Key-Id` is
+ * authenticated by its HMAC signature instead of a bearer key; keys with a
+ * signing secret must sign their requests to these routes.
+ */
+export const verifySignature = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const keyId = req.header("X-Zap-Key-Id");
+
+    if (!keyId) {
+      if (req.apiKey?.requiresSignature) {
+        throw new ServiceError(
+          "Requests with this API key must be signed",
+          401,
+          "SIGNATURE_REQUIRED"
+        );
+      }
+
+      next();
+      return;
+    }
+
+    if (req.apiKey && req.apiKey.keyId !== keyId) {
+      throw new ServiceError(
+        "X-Zap-Key-Id does not match the API key",
+        401,
+        "INVALID_SIGNATURE"
+      );
+    }
+
+    req.apiKey = requestSignatureService.verify({
+      keyId,
+      timestamp: req.header("X-Zap-Timestamp"),
+      nonce: req.header("X-Zap-Nonce"),
+      signature: req.header("X-Zap-Signature"),
+      method: req.method,
+      path: req.originalUrl,
+      body: req.rawBody ? req.rawBody.toString("utf8") : "",
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
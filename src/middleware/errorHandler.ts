@@ -12,10 +12,18 @@ export const errorHandler = (
 ): void => {
   console.error(`Error: ${err.message}`);
 
+  // Read by the admin audit log
+  res.locals.errorMessage = err.message;
+
   if (err instanceof ServiceError) {
+    if (err.retryAfter !== undefined) {
+      res.set("Retry-After", String(err.retryAfter));
+    }
+
     res.status(err.statusCode).json({
       success: false,
       error: err.message,
+      ...(err.code && { code: err.code }),
     });
     return;
   }
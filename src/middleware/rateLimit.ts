@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import rateLimitService, {
+  RateLimitBudget,
+  RateLimitResult,
+} from "../services/rateLimitService";
+import { ServiceError } from "../types";
+
+/**
+ * Set the RateLimit-* headers, keeping those of the budget closest to
+ * running out when a request spends several
+ * @param res Response
+ * @param result Outcome of the budget just spent
+ */
+const setHeaders = (res: Response, result: RateLimitResult): void => {
+  const previous: RateLimitResult | undefined = res.locals.rateLimit;
+
+  if (previous && previous.remaining < result.remaining && result.allowed) {
+    return;
+  }
+
+  const resetSeconds = Math.max(
+    Math.ceil((result.resetAt - Date.now()) / 1000),
+    0
+  );
+
+  res.locals.rateLimit = result;
+  res.set({
+    "RateLimit-Policy": `${result.limit};w=${Math.ceil(
+      result.windowMs / 1000
+    )}`,
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(resetSeconds),
+  });
+};
+
+/**
+ * Middleware spending one request from a budget. Clients are identified by
+ * API key when the request carries one and by IP address otherwise.
+ * @param budget Budget name
+ * @returns Middleware rejecting requests over the budget with 429
+ */
+export const rateLimit =
+  (budget: RateLimitBudget) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const client = req.apiKey ? `key:${req.apiKey.keyId}` : `ip:${req.ip}`;
+      const result = await rateLimitService.consume(budget, client);
+
+      if (result) {
+        setHeaders(res, result);
+
+        if (!result.allowed) {
+          const error = new ServiceError(
+            "Too many requests, please retry later",
+            429,
+            "RATE_LIMITED"
+          );
+          error.retryAfter = Math.max(
+            Math.ceil((result.resetAt - Date.now()) / 1000),
+            1
+          );
+          throw error;
+        }
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
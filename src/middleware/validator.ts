@@ -1,5 +1,13 @@
 import { Request, Response, NextFunction } from "express";
-import { body, validationResult } from "express-validator";
+import config from "../config/config";
+import { getSupportedNetworks } from "../constants/tokens";
+import {
+  body,
+  header,
+  param,
+  query,
+  validationResult,
+} from "express-validator";
 
 /**
  * Middleware to validate request data
@@ -14,11 +22,140 @@ export const validators = {
       .withMessage("Valid Ethereum address is required"),
 
     body("idrxAmount")
+      .if(body("depositTxHash").not().exists())
+      .if(body("quoteId").not().exists())
+      .isString()
+      .notEmpty()
+      .withMessage("IDRX amount is required"),
+
+    body("idrxAmount")
+      .optional()
+      .isString()
+      .matches(/^[0-9]*\.?[0-9]+$/)
+      .withMessage("Amount must be a valid number"),
+
+    body("depositTxHash")
+      .optional()
+      .matches(/^0x[0-9a-fA-F]{64}$/)
+      .withMessage("Deposit transaction hash must be a 32-byte hex string"),
+
+    body("network")
+      .if(body("depositTxHash").exists())
+      .isIn(getSupportedNetworks())
+      .withMessage(
+        `Network must be one of: ${getSupportedNetworks().join(", ")}`
+      ),
+
+    body("token")
+      .if(body("depositTxHash").exists())
+      .isString()
+      .notEmpty()
+      .withMessage("Token is required with depositTxHash"),
+
+    body("quoteId")
+      .optional()
+      .isString()
+      .matches(/^q_[0-9a-f]{32}$/)
+      .withMessage("Quote ID is invalid"),
+
+    body("simulate")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("Simulate must be a boolean"),
+
+    query("simulate")
+      .optional()
+      .isIn(["true", "false"])
+      .withMessage('Simulate must be "true" or "false"'),
+
+    body("intent")
+      .optional()
+      .isObject()
+      .withMessage("Intent must be an object"),
+
+    body("intent.nonce")
+      .if(body("intent").exists())
+      .isString()
+      .matches(/^[0-9]+$/)
+      .withMessage("Intent nonce must be a decimal string"),
+
+    body("intent.deadline")
+      .if(body("intent").exists())
+      .isInt({ min: 0 })
+      .withMessage("Intent deadline must be a unix timestamp in seconds"),
+
+    body("intent.signature")
+      .if(body("intent").exists())
+      .matches(/^0x[0-9a-fA-F]{130}$/)
+      .withMessage("Intent signature must be a 65-byte hex string"),
+
+    header("Idempotency-Key")
+      .optional()
+      .isString()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("Idempotency-Key header must be 1-255 characters"),
+
+    body("idempotencyKey")
+      .optional()
+      .isString()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("Idempotency key must be 1-255 characters"),
+
+    body("async")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("Async must be a boolean"),
+  ],
+
+  batchTransfer: [
+    body("transfers")
+      .isArray({ min: 1, max: config.batch.maxTransfers })
+      .withMessage(
+        `Transfers must be an array of 1 to ${config.batch.maxTransfers} items`
+      ),
+
+    body("transfers.*.recipient")
+      .isString()
+      .notEmpty()
+      .withMessage("Recipient is required")
+      .isEthereumAddress()
+      .withMessage("Valid Ethereum address is required"),
+
+    body("transfers.*.idrxAmount")
       .isString()
       .notEmpty()
       .withMessage("IDRX amount is required")
       .matches(/^[0-9]*\.?[0-9]+$/)
       .withMessage("Amount must be a valid number"),
+
+    header("Idempotency-Key")
+      .optional()
+      .isString()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("Idempotency-Key header must be 1-255 characters"),
+
+    body("idempotencyKey")
+      .optional()
+      .isString()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("Idempotency key must be 1-255 characters"),
+
+    body("async")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("Async must be a boolean"),
+  ],
+
+  transferStatus: [
+    param("transferId")
+      .matches(/^0x[0-9a-fA-F]{64}$/)
+      .withMessage("Transfer ID must be a 32-byte hex string"),
+  ],
+
+  intentNonce: [
+    param("address")
+      .isEthereumAddress()
+      .withMessage("Valid Ethereum address is required"),
   ],
 };
 
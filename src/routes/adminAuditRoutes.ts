@@ -0,0 +1,106 @@
+import { Router } from "express";
+import adminAuditController from "../controllers/adminAuditController";
+import { query } from "express-validator";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules for audit log filters
+ */
+const filterRules = [
+  query("action")
+    .optional()
+    .matches(/^[A-Za-z]+\.[A-Za-z]+$/)
+    .withMessage('Action must look like "transferLimits.update"'),
+
+  query("actor")
+    .optional()
+    .isString()
+    .withMessage("Actor must be an API key ID"),
+
+  query("outcome")
+    .optional()
+    .isIn(["simulated", "rejected", "succeeded", "failed"])
+    .withMessage(
+      'Outcome must be "simulated", "rejected", "succeeded", or "failed"'
+    ),
+
+  query("startDate")
+    .optional()
+    .isISO8601()
+    .withMessage("StartDate must be in ISO 8601 format"),
+
+  query("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("EndDate must be in ISO 8601 format"),
+];
+
+/**
+ * Validation rules for admin audit log endpoints
+ */
+const validators = {
+  listEntries: [
+    ...filterRules,
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+
+  exportEntries: [
+    ...filterRules,
+
+    query("format")
+      .optional()
+      .isIn(["jsonl", "csv"])
+      .withMessage('Format must be "jsonl" or "csv"'),
+  ],
+};
+
+/**
+ * @route GET /api/admin/audit
+ * @desc List admin actions, newest first
+ * @access Private (scope: read)
+ */
+router.get(
+  "/admin/audit",
+  requireScope("read"),
+  validators.listEntries,
+  validate,
+  adminAuditController.listEntries
+);
+
+/**
+ * @route GET /api/admin/audit/export
+ * @desc Download admin actions, oldest first, as JSON Lines or CSV
+ * @access Private (scope: read)
+ */
+router.get(
+  "/admin/audit/export",
+  requireScope("read"),
+  validators.exportEntries,
+  validate,
+  adminAuditController.exportEntries
+);
+
+/**
+ * @route GET /api/admin/audit/verify
+ * @desc Check the admin audit log's hash chain
+ * @access Private (scope: read)
+ */
+router.get(
+  "/admin/audit/verify",
+  requireScope("read"),
+  adminAuditController.verify
+);
+
+export default router;
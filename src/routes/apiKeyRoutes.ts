@@ -0,0 +1,92 @@
+import { Router } from "express";
+import apiKeyController from "../controllers/apiKeyController";
+import { body, param, query } from "express-validator";
+import { auditAdminAction } from "../middleware/audit";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+import { API_KEY_SCOPES } from "../services/apiKeyService";
+
+const router = Router();
+
+/**
+ * Validation rules for API key endpoints
+ */
+const validators = {
+  listKeys: [
+    query("includeRevoked")
+      .optional()
+      .isIn(["true", "false"])
+      .withMessage('includeRevoked must be "true" or "false"'),
+  ],
+
+  createKey: [
+    body("name")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Name is required (max 100 characters)"),
+
+    body("scopes")
+      .isArray({ min: 1 })
+      .withMessage("Scopes must be a non-empty array"),
+
+    body("scopes.*")
+      .isIn(API_KEY_SCOPES)
+      .withMessage(`Scopes must be one of: ${API_KEY_SCOPES.join(", ")}`),
+
+    body("signing")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("signing must be a boolean"),
+  ],
+
+  keyId: [
+    param("keyId")
+      .matches(/^ak_[0-9a-f]{16}$/)
+      .withMessage("Invalid API key ID"),
+  ],
+};
+
+/**
+ * @route GET /api/api-keys
+ * @desc List API keys (without the keys themselves)
+ * @access Private (scope: admin)
+ */
+router.get(
+  "/api-keys",
+  requireScope("admin"),
+  validators.listKeys,
+  validate,
+  apiKeyController.listKeys
+);
+
+/**
+ * @route POST /api/api-keys
+ * @desc Create an API key with the given scopes, optionally with a request
+ * signing secret
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/api-keys",
+  requireScope("admin"),
+  auditAdminAction("apiKey.create"),
+  validators.createKey,
+  validate,
+  apiKeyController.createKey
+);
+
+/**
+ * @route DELETE /api/api-keys/:keyId
+ * @desc Revoke an API key
+ * @access Private (scope: admin)
+ */
+router.delete(
+  "/api-keys/:keyId",
+  requireScope("admin"),
+  auditAdminAction("apiKey.revoke"),
+  validators.keyId,
+  validate,
+  apiKeyController.revokeKey
+);
+
+export default router;
@@ -0,0 +1,165 @@
+import { Router } from "express";
+import contractAdminController from "../controllers/contractAdminController";
+import { body, query } from "express-validator";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules shared by every admin operation
+ */
+const operationRules = [
+  body("dryRun")
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage("dryRun must be a boolean"),
+
+  query("dryRun")
+    .optional()
+    .isIn(["true", "false"])
+    .withMessage('dryRun must be "true" or "false"'),
+
+  body("operator")
+    .optional()
+    .isEthereumAddress()
+    .withMessage("Operator must be a valid Ethereum address"),
+
+  body("reason")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must be at most 500 characters"),
+];
+
+const amountRules = [
+  body("amount")
+    .isString()
+    .notEmpty()
+    .withMessage("Amount is required")
+    .matches(/^[0-9]*\.?[0-9]+$/)
+    .withMessage("Amount must be a valid number"),
+];
+
+/**
+ * Validation rules for contract admin endpoints
+ */
+const validators = {
+  operation: operationRules,
+
+  depositReserve: [...operationRules, ...amountRules],
+
+  withdrawReserve: [
+    ...operationRules,
+    ...amountRules,
+
+    body("to")
+      .isEthereumAddress()
+      .withMessage("Recipient must be a valid Ethereum address"),
+  ],
+
+  listAudit: [
+    query("action")
+      .optional()
+      .isIn(["pause", "unpause", "depositReserve", "withdrawReserve"])
+      .withMessage(
+        'Action must be "pause", "unpause", "depositReserve", or "withdrawReserve"'
+      ),
+
+    query("outcome")
+      .optional()
+      .isIn(["simulated", "rejected", "succeeded", "failed"])
+      .withMessage(
+        'Outcome must be "simulated", "rejected", "succeeded", or "failed"'
+      ),
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+};
+
+/**
+ * @route GET /api/admin/contract
+ * @desc Get the contract's pause state, reserve and operator roles
+ * @access Private (scope: read)
+ */
+router.get(
+  "/admin/contract",
+  requireScope("read"),
+  contractAdminController.getStatus
+);
+
+/**
+ * @route POST /api/admin/contract/pause
+ * @desc Pause the contract (or check and simulate with dryRun)
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/admin/contract/pause",
+  requireScope("admin"),
+  validators.operation,
+  validate,
+  contractAdminController.pause
+);
+
+/**
+ * @route POST /api/admin/contract/unpause
+ * @desc Unpause the contract (or check and simulate with dryRun)
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/admin/contract/unpause",
+  requireScope("admin"),
+  validators.operation,
+  validate,
+  contractAdminController.unpause
+);
+
+/**
+ * @route POST /api/admin/contract/reserve/deposit
+ * @desc Top up the reserve from an operator's IDRX balance
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/admin/contract/reserve/deposit",
+  requireScope("admin"),
+  validators.depositReserve,
+  validate,
+  contractAdminController.depositReserve
+);
+
+/**
+ * @route POST /api/admin/contract/reserve/withdraw
+ * @desc Withdraw IDRX from the reserve
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/admin/contract/reserve/withdraw",
+  requireScope("admin"),
+  validators.withdrawReserve,
+  validate,
+  contractAdminController.withdrawReserve
+);
+
+/**
+ * @route GET /api/admin/contract/audit
+ * @desc List contract admin operations, newest first
+ * @access Private (scope: read)
+ */
+router.get(
+  "/admin/contract/audit",
+  requireScope("read"),
+  validators.listAudit,
+  validate,
+  contractAdminController.listAudit
+);
+
+export default router;
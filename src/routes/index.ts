@@ -4,6 +4,15 @@ import reserveLimitRoutes from "./reserveLimitRoutes";
 import transactionHistoryRoutes from './transactionHistoryRoutes';
 import tokenFeeRoutes from './tokenFeeRoutes';
 import idrxBalanceRoutes from './idrxBalanceRoutes';
+import transferLedgerRoutes from "./transferLedgerRoutes";
+import quoteRoutes from "./quoteRoutes";
+import operatorRoutes from "./operatorRoutes";
+import screeningRoutes from "./screeningRoutes";
+import refundRoutes from "./refundRoutes";
+import webhookRoutes from "./webhookRoutes";
+import contractAdminRoutes from "./contractAdminRoutes";
+import apiKeyRoutes from "./apiKeyRoutes";
+import adminAuditRoutes from "./adminAuditRoutes";
 
 const router = Router();
 
@@ -12,5 +21,14 @@ router.use("/api", reserveLimitRoutes);
 router.use('/api', transactionHistoryRoutes);
 router.use('/api', tokenFeeRoutes);
 router.use('/api', idrxBalanceRoutes);
+router.use("/api", transferLedgerRoutes);
+router.use("/api", quoteRoutes);
+router.use("/api", operatorRoutes);
+router.use("/api", screeningRoutes);
+router.use("/api", refundRoutes);
+router.use("/api", webhookRoutes);
+router.use("/api", contractAdminRoutes);
+router.use("/api", apiKeyRoutes);
+router.use("/api", adminAuditRoutes);
 
 export default router;
@@ -1,5 +1,7 @@
 import { Router } from "express";
 import metaTransactionController from "../controllers/metaTransactionController";
+import { requireScope, verifySignature } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
 import { validators, validate } from "../middleware/validator";
 
 const router = Router();
@@ -7,15 +9,87 @@ const router = Router();
 /**
  * @route POST /api/meta-transfer
  * @desc Execute meta-transaction to transfer IDRX
- * @access Public
+ * @access Private (scope: transfer:write, bearer key or signed request)
  */
 router.post(
   "/meta-transfer",
+  verifySignature,
+  requireScope("transfer:write"),
+  rateLimit("transfer"),
   validators.metaTransfer,
   validate,
   metaTransactionController.executeTransfer
 );
 
+/**
+ * @route POST /api/meta-transfers/batch
+ * @desc Execute a batch of meta-transactions against one reserve snapshot
+ * @access Private (scope: transfer:write, bearer key or signed request)
+ */
+router.post(
+  "/meta-transfers/batch",
+  verifySignature,
+  requireScope("transfer:write"),
+  rateLimit("transfer"),
+  validators.batchTransfer,
+  validate,
+  metaTransactionController.executeBatchTransfer
+);
+
+/**
+ * @route GET /api/meta-transfer/:transferId
+ * @desc Get lifecycle status of a meta-transaction
+ * @access Public
+ */
+router.get(
+  "/meta-transfer/:transferId",
+  validators.transferStatus,
+  validate,
+  metaTransactionController.getTransferStatus
+);
+
+/**
+ * @route GET /api/meta-transfer/:transferId/events
+ * @desc Stream lifecycle events of a meta-transaction (Server-Sent Events)
+ * @access Public
+ */
+router.get(
+  "/meta-transfer/:transferId/events",
+  validators.transferStatus,
+  validate,
+  metaTransactionController.streamTransferEvents
+);
+
+/**
+ * @route GET /api/events
+ * @desc Stream all service events (Server-Sent Events)
+ * @access Private (scope: admin)
+ */
+router.get(
+  "/events",
+  requireScope("admin"),
+  metaTransactionController.streamAllEvents
+);
+
+/**
+ * @route GET /api/intents/domain
+ * @desc Get the EIP-712 domain and types for signed transfer intents
+ * @access Public
+ */
+router.get("/intents/domain", metaTransactionController.getIntentDomain);
+
+/**
+ * @route GET /api/intents/:address/nonce
+ * @desc Get the nonce the next transfer intent of a signer must use
+ * @access Public
+ */
+router.get(
+  "/intents/:address/nonce",
+  validators.intentNonce,
+  validate,
+  metaTransactionController.getIntentNonce
+);
+
 /**
  * @route GET /api/status
  * @desc Get service status
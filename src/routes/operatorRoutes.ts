@@ -0,0 +1,101 @@
+import { Router } from "express";
+import operatorController from "../controllers/operatorController";
+import { body, param } from "express-validator";
+import { auditAdminAction } from "../middleware/audit";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules for operator endpoints
+ */
+const validators = {
+  addOperator: [
+    body("address")
+      .isEthereumAddress()
+      .withMessage("Operator address must be a valid Ethereum address"),
+
+    body("privateKey")
+      .not()
+      .exists()
+      .withMessage(
+        "Private keys are not accepted; configure the key in the signer provider"
+      ),
+  ],
+
+  operatorAddress: [
+    param("address")
+      .isEthereumAddress()
+      .withMessage("Operator address must be a valid Ethereum address"),
+  ],
+};
+
+/**
+ * @route GET /api/operators
+ * @desc List operator keys with their status, load and balance
+ * @access Private (scope: read)
+ */
+router.get(
+  "/operators",
+  requireScope("read"),
+  operatorController.listOperators
+);
+
+/**
+ * @route POST /api/operators
+ * @desc Add an operator key from the signer provider to the rotation
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/operators",
+  requireScope("admin"),
+  auditAdminAction("operator.add"),
+  validators.addOperator,
+  validate,
+  operatorController.addOperator
+);
+
+/**
+ * @route POST /api/operators/:address/drain
+ * @desc Stop sending new transfers from an operator
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/operators/:address/drain",
+  requireScope("admin"),
+  auditAdminAction("operator.drain"),
+  validators.operatorAddress,
+  validate,
+  operatorController.drainOperator
+);
+
+/**
+ * @route POST /api/operators/:address/activate
+ * @desc Put a drained or retired operator back into rotation
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/operators/:address/activate",
+  requireScope("admin"),
+  auditAdminAction("operator.activate"),
+  validators.operatorAddress,
+  validate,
+  operatorController.activateOperator
+);
+
+/**
+ * @route DELETE /api/operators/:address
+ * @desc Retire a drained operator with no pending transactions
+ * @access Private (scope: admin)
+ */
+router.delete(
+  "/operators/:address",
+  requireScope("admin"),
+  auditAdminAction("operator.remove"),
+  validators.operatorAddress,
+  validate,
+  operatorController.retireOperator
+);
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from "express";
+import quoteController from "../controllers/quoteController";
+import { body, param } from "express-validator";
+import { rateLimit } from "../middleware/rateLimit";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules for quote endpoints
+ */
+const validators = {
+  createQuote: [
+    body("token").optional().isString().withMessage("Token must be a string"),
+
+    body("amount")
+      .if(body("idrxAmount").not().exists())
+      .isFloat({ min: 0.000001 })
+      .withMessage("Amount must be a positive number"),
+
+    body("idrxAmount")
+      .optional()
+      .isFloat({ min: 1 })
+      .withMessage("IDRX amount must be a positive number greater than 1"),
+
+    body("customSpreadFee")
+      .optional()
+      .isFloat({ min: 0, max: 0.1 })
+      .withMessage("Custom spread fee must be between 0 and 0.1 (0-10%)"),
+
+    body("recipient")
+      .optional()
+      .isEthereumAddress()
+      .withMessage("Recipient must be a valid Ethereum address"),
+  ],
+
+  getQuote: [
+    param("quoteId")
+      .matches(/^q_[0-9a-f]{32}$/)
+      .withMessage("Quote ID is invalid"),
+  ],
+};
+
+/**
+ * @route POST /api/quotes
+ * @desc Lock a fee calculation under a quote ID for use by a meta-transfer
+ * @access Public (customSpreadFee: scope admin)
+ */
+router.post(
+  "/quotes",
+  rateLimit("pricing"),
+  validators.createQuote,
+  validate,
+  quoteController.createQuote
+);
+
+/**
+ * @route GET /api/quotes/:quoteId
+ * @desc Get a locked quote
+ * @access Public
+ */
+router.get(
+  "/quotes/:quoteId",
+  validators.getQuote,
+  validate,
+  quoteController.getQuote
+);
+
+export default router;
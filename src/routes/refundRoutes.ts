@@ -0,0 +1,124 @@
+import { Router } from "express";
+import refundController from "../controllers/refundController";
+import { body, param, query } from "express-validator";
+import { auditAdminAction } from "../middleware/audit";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules for refund endpoints
+ */
+const validators = {
+  listRefunds: [
+    query("status")
+      .optional()
+      .isIn([
+        "pending_approval",
+        "approved",
+        "submitted",
+        "confirmed",
+        "failed",
+        "cancelled",
+      ])
+      .withMessage("Invalid refund status"),
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+
+  refundId: [
+    param("refundId")
+      .matches(/^rf_[0-9a-f]{32}$/)
+      .withMessage("Invalid refund ID"),
+  ],
+
+  approveRefund: [
+    param("refundId")
+      .matches(/^rf_[0-9a-f]{32}$/)
+      .withMessage("Invalid refund ID"),
+
+    body("note")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Note must be at most 500 characters"),
+  ],
+
+  cancelRefund: [
+    param("refundId")
+      .matches(/^rf_[0-9a-f]{32}$/)
+      .withMessage("Invalid refund ID"),
+
+    body("reason")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 500 })
+      .withMessage("Reason is required (max 500 characters)"),
+  ],
+};
+
+/**
+ * @route GET /api/refunds
+ * @desc List refunds of failed payouts
+ * @access Private (scope: read)
+ */
+router.get(
+  "/refunds",
+  requireScope("read"),
+  validators.listRefunds,
+  validate,
+  refundController.listRefunds
+);
+
+/**
+ * @route GET /api/refunds/:refundId
+ * @desc Get a refund, refreshing its confirmations
+ * @access Private (scope: read)
+ */
+router.get(
+  "/refunds/:refundId",
+  requireScope("read"),
+  validators.refundId,
+  validate,
+  refundController.getRefund
+);
+
+/**
+ * @route POST /api/refunds/:refundId/approve
+ * @desc Approve a refund and send the deposit back to its sender
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/refunds/:refundId/approve",
+  requireScope("admin"),
+  auditAdminAction("refund.approve"),
+  validators.approveRefund,
+  validate,
+  refundController.approveRefund
+);
+
+/**
+ * @route POST /api/refunds/:refundId/cancel
+ * @desc Cancel a refund and release the deposit for another payout
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/refunds/:refundId/cancel",
+  requireScope("admin"),
+  auditAdminAction("refund.cancel"),
+  validators.cancelRefund,
+  validate,
+  refundController.cancelRefund
+);
+
+export default router;
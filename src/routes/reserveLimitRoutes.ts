@@ -1,6 +1,7 @@
 import { Router } from "express";
 import reserveLimitController from "../controllers/reserveLimitController";
-import { body, query } from "express-validator";
+import { body, param, query } from "express-validator";
+import { requireScope } from "../middleware/auth";
 import { validate } from "../middleware/validator";
 
 const router = Router();
@@ -9,7 +10,7 @@ const router = Router();
  * Validation rules for reserve limit endpoints
  */
 const validators = {
-  updateTransferLimits: [
+  proposeTransferLimits: [
     body("minAmount")
       .isString()
       .notEmpty()
@@ -23,6 +24,56 @@ const validators = {
       .withMessage("Maximum amount is required")
       .matches(/^[0-9]*\.?[0-9]+$/)
       .withMessage("Maximum amount must be a valid number"),
+
+    body("reason")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Reason must be at most 500 characters"),
+  ],
+
+  listProposals: [
+    query("status")
+      .optional()
+      .isIn([
+        "pending",
+        "executing",
+        "executed",
+        "failed",
+        "rejected",
+        "expired",
+      ])
+      .withMessage("Invalid proposal status"),
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+
+  proposalId: [
+    param("proposalId")
+      .matches(/^tlp_[0-9a-f]{24}$/)
+      .withMessage("Invalid proposal ID"),
+  ],
+
+  decideProposal: [
+    param("proposalId")
+      .matches(/^tlp_[0-9a-f]{24}$/)
+      .withMessage("Invalid proposal ID"),
+
+    body("note")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Note must be at most 500 characters"),
   ],
 };
 
@@ -40,14 +91,67 @@ router.get(
 
 /**
  * @route POST /api/transfer-limits
- * @desc Update contract transfer limits
- * @access Private (should be restricted with auth middleware in production)
+ * @desc Propose contract transfer limits for approval by a second admin
+ * @access Private (scope: limits:admin)
  */
 router.post(
   "/transfer-limits",
-  validators.updateTransferLimits,
+  requireScope("limits:admin"),
+  validators.proposeTransferLimits,
+  validate,
+  reserveLimitController.proposeTransferLimits
+);
+
+/**
+ * @route GET /api/transfer-limits/proposals
+ * @desc List transfer limit proposals
+ * @access Private (scope: read)
+ */
+router.get(
+  "/transfer-limits/proposals",
+  requireScope("read"),
+  validators.listProposals,
+  validate,
+  reserveLimitController.listProposals
+);
+
+/**
+ * @route GET /api/transfer-limits/proposals/:proposalId
+ * @desc Get a transfer limit proposal
+ * @access Private (scope: read)
+ */
+router.get(
+  "/transfer-limits/proposals/:proposalId",
+  requireScope("read"),
+  validators.proposalId,
+  validate,
+  reserveLimitController.getProposal
+);
+
+/**
+ * @route POST /api/transfer-limits/proposals/:proposalId/approve
+ * @desc Approve a proposal from another admin and update the contract limits
+ * @access Private (scope: limits:admin)
+ */
+router.post(
+  "/transfer-limits/proposals/:proposalId/approve",
+  requireScope("limits:admin"),
+  validators.decideProposal,
+  validate,
+  reserveLimitController.approveProposal
+);
+
+/**
+ * @route POST /api/transfer-limits/proposals/:proposalId/reject
+ * @desc Reject a pending transfer limit proposal
+ * @access Private (scope: limits:admin)
+ */
+router.post(
+  "/transfer-limits/proposals/:proposalId/reject",
+  requireScope("limits:admin"),
+  validators.decideProposal,
   validate,
-  reserveLimitController.updateTransferLimits
+  reserveLimitController.rejectProposal
 );
 
 export default router;
@@ -0,0 +1,155 @@
+import { Router } from "express";
+import screeningController from "../controllers/screeningController";
+import { body, param, query } from "express-validator";
+import { auditAdminAction } from "../middleware/audit";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules for screening endpoints
+ */
+const validators = {
+  listEntries: [
+    query("source")
+      .optional()
+      .isString()
+      .withMessage("Source must be a string"),
+  ],
+
+  address: [
+    param("address")
+      .isEthereumAddress()
+      .withMessage("Address must be a valid Ethereum address"),
+  ],
+
+  addEntry: [
+    body("address")
+      .isEthereumAddress()
+      .withMessage("Address must be a valid Ethereum address"),
+
+    body("reason")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 500 })
+      .withMessage("Reason is required (max 500 characters)"),
+  ],
+
+  removeEntry: [
+    param("address")
+      .isEthereumAddress()
+      .withMessage("Address must be a valid Ethereum address"),
+
+    body("reason")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 500 })
+      .withMessage("Reason is required (max 500 characters)"),
+  ],
+
+  listAudit: [
+    query("address")
+      .optional()
+      .isEthereumAddress()
+      .withMessage("Address must be a valid Ethereum address"),
+
+    query("action")
+      .optional()
+      .isIn(["rejected", "flagged", "added", "removed"])
+      .withMessage(
+        'Action must be "rejected", "flagged", "added", or "removed"'
+      ),
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+};
+
+/**
+ * @route GET /api/screening/entries
+ * @desc List blocked addresses from list files and admins
+ * @access Private (scope: read)
+ */
+router.get(
+  "/screening/entries",
+  requireScope("read"),
+  validators.listEntries,
+  validate,
+  screeningController.listEntries
+);
+
+/**
+ * @route POST /api/screening/entries
+ * @desc Block an address
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/screening/entries",
+  requireScope("admin"),
+  auditAdminAction("screening.addEntry"),
+  validators.addEntry,
+  validate,
+  screeningController.addEntry
+);
+
+/**
+ * @route DELETE /api/screening/entries/:address
+ * @desc Unblock an address added through the API
+ * @access Private (scope: admin)
+ */
+router.delete(
+  "/screening/entries/:address",
+  requireScope("admin"),
+  auditAdminAction("screening.removeEntry"),
+  validators.removeEntry,
+  validate,
+  screeningController.removeEntry
+);
+
+/**
+ * @route GET /api/screening/check/:address
+ * @desc Check whether an address is blocked, without auditing the check
+ * @access Private (scope: read)
+ */
+router.get(
+  "/screening/check/:address",
+  requireScope("read"),
+  validators.address,
+  validate,
+  screeningController.checkAddress
+);
+
+/**
+ * @route POST /api/screening/reload
+ * @desc Reload the screening list files
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/screening/reload",
+  requireScope("admin"),
+  auditAdminAction("screening.reload"),
+  screeningController.reloadLists
+);
+
+/**
+ * @route GET /api/screening/audit
+ * @desc List rejected and flagged addresses and list changes
+ * @access Private (scope: read)
+ */
+router.get(
+  "/screening/audit",
+  requireScope("read"),
+  validators.listAudit,
+  validate,
+  screeningController.listAudit
+);
+
+export default router;
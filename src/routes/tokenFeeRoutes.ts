@@ -1,6 +1,7 @@
 import { Router } from "express";
 import tokenFeeController from "../controllers/tokenFeeController";
 import { param, query } from "express-validator";
+import { rateLimit } from "../middleware/rateLimit";
 import { validate } from "../middleware/validator";
 
 const router = Router();
@@ -78,6 +79,7 @@ const validators = {
  */
 router.get(
   "/token-price/:token?",
+  rateLimit("pricing"),
   validators.getTokenPrice,
   validate,
   tokenFeeController.getTokenPrice
@@ -90,6 +92,7 @@ router.get(
  */
 router.get(
   "/calculate-fees",
+  rateLimit("pricing"),
   validators.calculateFees,
   validate,
   tokenFeeController.calculateFees
@@ -102,6 +105,7 @@ router.get(
  */
 router.get(
   "/calculate-idrx",
+  rateLimit("pricing"),
   validators.calculateIdrxAmount,
   validate,
   tokenFeeController.calculateIdrxAmount
@@ -114,6 +118,7 @@ router.get(
  */
 router.get(
   "/calculate-source",
+  rateLimit("pricing"),
   validators.calculateSourceAmount,
   validate,
   tokenFeeController.calculateSourceAmount
@@ -126,6 +131,7 @@ router.get(
  */
 router.get(
   "/volatility/:token?",
+  rateLimit("pricing"),
   validators.calculateVolatility,
   validate,
   tokenFeeController.calculateVolatility
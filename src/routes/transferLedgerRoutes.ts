@@ -0,0 +1,80 @@
+import { Router } from "express";
+import transferLedgerController from "../controllers/transferLedgerController";
+import { param, query } from "express-validator";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+
+const router = Router();
+
+/**
+ * Validation rules for transfer ledger endpoints
+ */
+const validators = {
+  listTransfers: [
+    query("recipient")
+      .optional()
+      .isEthereumAddress()
+      .withMessage("Recipient must be a valid Ethereum address"),
+
+    query("status")
+      .optional()
+      .isIn(["queued", "submitted", "confirmed", "failed"])
+      .withMessage(
+        'Status must be "queued", "submitted", "confirmed", or "failed"'
+      ),
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+
+    query("startDate")
+      .optional()
+      .isISO8601()
+      .withMessage("StartDate must be in ISO 8601 format"),
+
+    query("endDate")
+      .optional()
+      .isISO8601()
+      .withMessage("EndDate must be in ISO 8601 format"),
+  ],
+
+  getTransfer: [
+    param("transferId")
+      .matches(/^0x[0-9a-fA-F]{64}$/)
+      .withMessage("Transfer ID must be a 32-byte hex string"),
+  ],
+};
+
+/**
+ * @route GET /api/ledger/transfers
+ * @desc List recorded meta-transfer attempts
+ * @access Private (scope: read)
+ */
+router.get(
+  "/ledger/transfers",
+  requireScope("read"),
+  validators.listTransfers,
+  validate,
+  transferLedgerController.listTransfers
+);
+
+/**
+ * @route GET /api/ledger/transfers/:transferId
+ * @desc Get a recorded meta-transfer attempt
+ * @access Private (scope: read)
+ */
+router.get(
+  "/ledger/transfers/:transferId",
+  requireScope("read"),
+  validators.getTransfer,
+  validate,
+  transferLedgerController.getTransfer
+);
+
+export default router;
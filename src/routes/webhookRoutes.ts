@@ -0,0 +1,155 @@
+import { Router } from "express";
+import webhookController from "../controllers/webhookController";
+import { body, param, query } from "express-validator";
+import { auditAdminAction } from "../middleware/audit";
+import { requireScope } from "../middleware/auth";
+import { validate } from "../middleware/validator";
+import { SERVICE_EVENTS } from "../utils/events";
+
+const router = Router();
+
+/**
+ * Validation rules for webhook endpoints
+ */
+const validators = {
+  createSubscription: [
+    body("url")
+      .isURL({ protocols: ["http", "https"], require_tld: false })
+      .withMessage("URL must be a valid http(s) URL"),
+
+    body("events")
+      .isArray({ min: 1 })
+      .withMessage("Events must be a non-empty array"),
+
+    body("events.*")
+      .isIn(SERVICE_EVENTS)
+      .withMessage(`Events must be one of: ${SERVICE_EVENTS.join(", ")}`),
+
+    body("secret")
+      .optional()
+      .isString()
+      .isLength({ min: 16, max: 256 })
+      .withMessage("Secret must be 16 to 256 characters"),
+
+    body("description")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Description must be at most 500 characters"),
+  ],
+
+  subscriptionId: [
+    param("subscriptionId")
+      .matches(/^wh_[0-9a-f]{24}$/)
+      .withMessage("Invalid subscription ID"),
+  ],
+
+  listDeliveries: [
+    param("subscriptionId")
+      .matches(/^wh_[0-9a-f]{24}$/)
+      .withMessage("Invalid subscription ID"),
+
+    query("status")
+      .optional()
+      .isIn(["pending", "delivered", "failed"])
+      .withMessage('Status must be "pending", "delivered", or "failed"'),
+
+    query("page")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Page must be a positive integer"),
+
+    query("limit")
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage("Limit must be between 1 and 100"),
+  ],
+
+  deliveryId: [
+    param("deliveryId")
+      .matches(/^whd_[0-9a-f]{24}$/)
+      .withMessage("Invalid delivery ID"),
+  ],
+};
+
+/**
+ * @route GET /api/webhooks
+ * @desc List webhook subscriptions
+ * @access Private (scope: read)
+ */
+router.get(
+  "/webhooks",
+  requireScope("read"),
+  webhookController.listSubscriptions
+);
+
+/**
+ * @route POST /api/webhooks
+ * @desc Subscribe a URL to service events
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/webhooks",
+  requireScope("admin"),
+  auditAdminAction("webhook.create"),
+  validators.createSubscription,
+  validate,
+  webhookController.createSubscription
+);
+
+/**
+ * @route GET /api/webhooks/:subscriptionId
+ * @desc Get a webhook subscription
+ * @access Private (scope: read)
+ */
+router.get(
+  "/webhooks/:subscriptionId",
+  requireScope("read"),
+  validators.subscriptionId,
+  validate,
+  webhookController.getSubscription
+);
+
+/**
+ * @route DELETE /api/webhooks/:subscriptionId
+ * @desc Delete a webhook subscription and cancel its pending deliveries
+ * @access Private (scope: admin)
+ */
+router.delete(
+  "/webhooks/:subscriptionId",
+  requireScope("admin"),
+  auditAdminAction("webhook.delete"),
+  validators.subscriptionId,
+  validate,
+  webhookController.deleteSubscription
+);
+
+/**
+ * @route GET /api/webhooks/:subscriptionId/deliveries
+ * @desc List the delivery log of a webhook subscription
+ * @access Private (scope: read)
+ */
+router.get(
+  "/webhooks/:subscriptionId/deliveries",
+  requireScope("read"),
+  validators.listDeliveries,
+  validate,
+  webhookController.listDeliveries
+);
+
+/**
+ * @route POST /api/webhooks/deliveries/:deliveryId/redeliver
+ * @desc Deliver an event again
+ * @access Private (scope: admin)
+ */
+router.post(
+  "/webhooks/deliveries/:deliveryId/redeliver",
+  requireScope("admin"),
+  auditAdminAction("webhook.redeliver"),
+  validators.deliveryId,
+  validate,
+  webhookController.redeliver
+);
+
+export default router;
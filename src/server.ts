@@ -1,14 +1,37 @@
 import createApp from "./app";
 import config from "./config/config";
+import metaTransactionService from "./services/metaTransactionService";
+import operatorGasMonitorService from "./services/operatorGasMonitorService";
+import operatorService from "./services/operatorService";
+import refundService from "./services/refundService";
+import reserveHealthMonitorService from "./services/reserveHealthMonitorService";
+import screeningService from "./services/screeningService";
+import transactionWatchdogService from "./services/transactionWatchdogService";
+import transferLimitProposalService from "./services/transferLimitProposalService";
+import webhookService from "./services/webhookService";
 
 /**
  * Server entry point
  */
 const startServer = async (): Promise<void> => {
   try {
-    const app = createApp();
+    const app = await createApp();
     const { port } = config.server;
 
+    operatorService.restore();
+    await operatorService.syncNonces();
+
+    const listed = screeningService.reload();
+    console.log(`Loaded ${listed} blocked addresses from screening lists`);
+
+    webhookService.start();
+    transactionWatchdogService.start();
+    reserveHealthMonitorService.start();
+    operatorGasMonitorService.start();
+    await metaTransactionService.resume();
+    refundService.resume();
+    transferLimitProposalService.resume();
+
     app.listen(port, () => {
       console.log(`Meta-transaction service running on port ${port}`);
       console.log(`Environment: ${config.server.nodeEnv}`);
@@ -0,0 +1,396 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import config from "../config/config";
+import { AppendOnlyLog, CorruptLogError } from "../utils/appendOnlyLog";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { paginate, Pagination } from "../utils/pagination";
+
+// previousHash of the first entry
+const GENESIS_HASH = "0".repeat(64);
+
+// Request fields never written to the log
+const REDACTED_PARAMS = ["privateKey", "secret", "signingSecret", "key"];
+
+// Key-value store the log was kept in before it was written append-only
+const LEGACY_STORE = "admin-audit-log";
+
+/**
+ * Outcome of an admin action: simulated (dry run), rejected before anything
+ * changed, or carried out as succeeded or failed
+ */
+export type AdminAuditOutcome =
+  | "simulated"
+  | "rejected"
+  | "succeeded"
+  | "failed";
+
+/**
+ * Interface for who performed an admin action
+ */
+export interface AdminAuditActor {
+  // API key ID, "bootstrap" for ADMIN_API_KEY, or absent for internal jobs
+  keyId?: string;
+  name?: string;
+  ip?: string;
+}
+
+/**
+ * Interface for an admin action to record
+ */
+export interface AdminAuditRecord {
+  action: string;
+  actor: AdminAuditActor;
+  params: Record<string, unknown>;
+  before?: unknown;
+  after?: unknown;
+  transactionHash?: string;
+  outcome: AdminAuditOutcome;
+  error?: string;
+}
+
+/**
+ * Interface for a recorded admin action. `hash` is the SHA-256 of the entry
+ * without its hash, so each entry commits to every entry before it through
+ * `previousHash`.
+ */
+export interface AdminAuditEntry extends AdminAuditRecord {
+  id: string;
+  sequence: number;
+  createdAt: number;
+  previousHash: string;
+  hash: string;
+}
+
+/**
+ * Interface for audit log query filters
+ */
+export interface AdminAuditFilter {
+  action?: string;
+  // Any of these actions; combined with action, both must match
+  actions?: string[];
+  actor?: string;
+  outcome?: AdminAuditOutcome;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface for the result of verifying the hash chain
+ */
+export interface AdminAuditVerification {
+  valid: boolean;
+  total: number;
+  // Hash of the last entry; keep a copy elsewhere to detect truncation
+  headHash: string;
+  brokenAt?: {
+    sequence: number;
+    reason: string;
+  };
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so the hash of an
+ * entry does not depend on key order after a round trip through storage
+ * @param value Value to serialize
+ * @returns Canonical JSON
+ */
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? "null" : canonicalize(item)))
+      .join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as any)[key] !== undefined)
+      .sort()
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalize((value as any)[key])}`
+      )
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Service keeping an append-only, hash-chained log of admin actions: who did
+ * what with which parameters, the state before and after, the transaction
+ * hash for on-chain actions, and the outcome. Each entry is appended as one
+ * line to a file opened in append mode and is never updated or removed;
+ * editing, reordering or deleting one breaks the chain, which verify()
+ * reports.
+ */
+export class AdminAuditService {
+  private log: AppendOnlyLog<AdminAuditEntry>;
+  private chain: AdminAuditEntry[];
+  private head: { sequence: number; hash: string };
+
+  constructor() {
+    this.log = new AppendOnlyLog<AdminAuditEntry>("admin-audit");
+    this.migrate();
+    this.chain = this.log.read();
+
+    const last = this.chain[this.chain.length - 1];
+    this.head = last
+      ? { sequence: last.sequence, hash: last.hash }
+      : { sequence: 0, hash: GENESIS_HASH };
+  }
+
+  /**
+   * Append an admin action to the log
+   * @param record Action, actor, parameters, state and outcome
+   * @returns Recorded entry
+   */
+  public record(record: AdminAuditRecord): AdminAuditEntry {
+    const sequence = this.head.sequence + 1;
+    const unsigned = JSON.parse(
+      JSON.stringify({
+        id: `aa_${crypto.randomBytes(12).toString("hex")}`,
+        sequence,
+        ...record,
+        params: this.redact(record.params),
+        createdAt: Date.now(),
+        previousHash: this.head.hash,
+      })
+    ) as Omit<AdminAuditEntry, "hash">;
+
+    const entry: AdminAuditEntry = { ...unsigned, hash: this.hash(unsigned) };
+
+    try {
+      this.log.append(entry);
+    } catch (error) {
+      console.error(`Failed to append to ${this.log.filePath}:`, error);
+    }
+
+    this.chain.push(entry);
+    this.head = { sequence, hash: entry.hash };
+
+    console.log(
+      `Admin audit #${sequence}: ${entry.action} ${entry.outcome} ` +
+        `by ${entry.actor.keyId || "system"}`
+    );
+
+    return entry;
+  }
+
+  /**
+   * List audit entries, newest first
+   * @param filter Query filters and pagination
+   * @returns Matching entries with pagination info
+   */
+  public list(filter: AdminAuditFilter = {}): {
+    entries: AdminAuditEntry[];
+    pagination: Pagination;
+  } {
+    const { page = 1, limit = 20 } = filter;
+    const matching = this.query(filter).reverse();
+    const { items, pagination } = paginate(matching, page, limit);
+
+    return { entries: items, pagination };
+  }
+
+  /**
+   * Export audit entries, oldest first, as JSON Lines or CSV
+   * @param format jsonl or csv
+   * @param filter Query filters (pagination is ignored)
+   * @returns Export file contents
+   */
+  public export(
+    format: "jsonl" | "csv",
+    filter: AdminAuditFilter = {}
+  ): string {
+    const entries = this.query(filter);
+
+    if (format === "jsonl") {
+      return entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+    }
+
+    const columns: (keyof AdminAuditEntry)[] = [
+      "sequence",
+      "id",
+      "createdAt",
+      "action",
+      "outcome",
+      "actor",
+      "params",
+      "before",
+      "after",
+      "transactionHash",
+      "error",
+      "previousHash",
+      "hash",
+    ];
+
+    const cell = (value: unknown): string => {
+      if (value === undefined) {
+        return "";
+      }
+
+      const text =
+        typeof value === "object" ? JSON.stringify(value) : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return (
+      [
+        columns.join(","),
+        ...entries.map((entry) =>
+          columns.map((column) => cell(entry[column])).join(",")
+        ),
+      ].join("\n") + "\n"
+    );
+  }
+
+  /**
+   * Check that the log file is an unbroken chain: sequences are
+   * consecutive, each entry links to the previous hash and every hash
+   * matches its entry. The file is read again, so changes made to it on
+   * disk are found.
+   * @returns Verification result
+   */
+  public verify(): AdminAuditVerification {
+    let entries: AdminAuditEntry[];
+    try {
+      entries = this.log.read();
+    } catch (error) {
+      if (!(error instanceof CorruptLogError)) {
+        throw error;
+      }
+
+      return {
+        valid: false,
+        total: this.chain.length,
+        headHash: this.head.hash,
+        brokenAt: { sequence: error.line, reason: "Entry is not valid JSON" },
+      };
+    }
+
+    let previousHash = GENESIS_HASH;
+
+    for (const [index, entry] of entries.entries()) {
+      const { hash, ...unsigned } = entry;
+      let reason: string | undefined;
+
+      if (entry.sequence !== index + 1) {
+        reason = `Expected sequence ${index + 1}`;
+      } else if (entry.previousHash !== previousHash) {
+        reason = "previousHash does not match the preceding entry";
+      } else if (this.hash(unsigned) !== hash) {
+        reason = "Entry does not match its hash";
+      }
+
+      if (reason) {
+        return {
+          valid: false,
+          total: entries.length,
+          headHash: this.head.hash,
+          brokenAt: { sequence: entry.sequence, reason },
+        };
+      }
+
+      previousHash = hash;
+    }
+
+    if (entries.length < this.chain.length) {
+      return {
+        valid: false,
+        total: entries.length,
+        headHash: this.head.hash,
+        brokenAt: {
+          sequence: entries.length + 1,
+          reason: "Entries written by this service are missing",
+        },
+      };
+    }
+
+    return { valid: true, total: entries.length, headHash: previousHash };
+  }
+
+  /**
+   * Get entries matching filters, oldest first
+   * @param filter Query filters
+   * @returns Matching entries
+   */
+  private query(filter: AdminAuditFilter): AdminAuditEntry[] {
+    const { action, actions, actor, outcome, startDate, endDate } = filter;
+
+    return this.chain.filter(
+      (entry) =>
+        (!action || entry.action === action) &&
+        (!actions || actions.includes(entry.action)) &&
+        (!actor || entry.actor.keyId === actor) &&
+        (!outcome || entry.outcome === outcome) &&
+        (!startDate || entry.createdAt >= startDate.getTime()) &&
+        (!endDate || entry.createdAt <= endDate.getTime())
+    );
+  }
+
+  /**
+   * Move entries from the key-value store the log used to be kept in to
+   * the append-only file, once. The old store file is kept, renamed, for
+   * reference.
+   */
+  private migrate(): void {
+    if (this.log.exists()) {
+      return;
+    }
+
+    const legacyPaths = [".json", ".jsonl"].map((extension) =>
+      path.resolve(config.storage.dataDir, `${LEGACY_STORE}${extension}`)
+    );
+
+    if (!legacyPaths.some((legacyPath) => fs.existsSync(legacyPath))) {
+      return;
+    }
+
+    const entries = new JsonFileStore<AdminAuditEntry>(LEGACY_STORE)
+      .values()
+      .sort((a, b) => a.sequence - b.sequence);
+
+    this.log.rewrite(entries);
+
+    for (const legacyPath of legacyPaths) {
+      if (fs.existsSync(legacyPath)) {
+        fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+      }
+    }
+
+    console.log(
+      `Moved ${entries.length} admin audit entries to ${this.log.filePath}`
+    );
+  }
+
+  /**
+   * Hash an entry
+   * @param entry Entry without its hash
+   * @returns SHA-256 hex digest of its canonical JSON
+   */
+  private hash(entry: Omit<AdminAuditEntry, "hash">): string {
+    return crypto
+      .createHash("sha256")
+      .update(canonicalize(entry))
+      .digest("hex");
+  }
+
+  /**
+   * Drop secrets from action parameters
+   * @param params Action parameters
+   * @returns Parameters with secret fields replaced
+   */
+  private redact(params: Record<string, unknown>): Record<string, unknown> {
+    const redacted: Record<string, unknown> = {};
+
+    for (const [name, value] of Object.entries(params)) {
+      redacted[name] = REDACTED_PARAMS.includes(name) ? "[redacted]" : value;
+    }
+
+    return redacted;
+  }
+}
+
+export default new AdminAuditService();
@@ -0,0 +1,299 @@
+import crypto from "crypto";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+// Keys are only written back this often when used, to limit store writes
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Permissions an API key can be granted. "admin" grants every scope.
+ */
+export type ApiKeyScope = "transfer:write" | "limits:admin" | "read" | "admin";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "transfer:write",
+  "limits:admin",
+  "read",
+  "admin",
+];
+
+/**
+ * Interface for a stored API key. Only the SHA-256 hash of the key is kept.
+ * Keys with a signing secret must sign requests to routes that verify
+ * signatures.
+ */
+export interface ApiKeyRecord {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  keyHash: string;
+  signingSecret?: string;
+  createdBy?: string;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+  revokedBy?: string;
+}
+
+/**
+ * API key as returned by the API, without its hash and signing secret
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, "keyHash" | "signingSecret"> & {
+  signing: boolean;
+};
+
+/**
+ * Interface for the API key a request was authenticated with
+ */
+export interface ApiKeyIdentity {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  // The key has a signing secret and must sign requests where verified
+  requiresSignature?: boolean;
+  // The request was authenticated by its signature
+  signed?: boolean;
+}
+
+/**
+ * Key ID of the ADMIN_API_KEY bootstrap key, recorded as the creator of the
+ * keys it creates
+ */
+export const BOOTSTRAP_KEY_ID = "bootstrap";
+
+/**
+ * Identity of the ADMIN_API_KEY bootstrap key
+ */
+const BOOTSTRAP_IDENTITY: ApiKeyIdentity = {
+  keyId: BOOTSTRAP_KEY_ID,
+  name: "ADMIN_API_KEY",
+  scopes: ["admin"],
+};
+
+/**
+ * Service managing API keys. Keys have the form `<keyId>.<secret>` and are
+ * shown once on creation; the store only holds their SHA-256 hash. The
+ * ADMIN_API_KEY environment variable, when set, is accepted as an admin key
+ * so the first keys can be created.
+ */
+export class ApiKeyService {
+  private store: JsonFileStore<ApiKeyRecord>;
+
+  constructor() {
+    this.store = new JsonFileStore<ApiKeyRecord>("api-keys");
+  }
+
+  /**
+   * Create an API key
+   * @param name Name describing the key holder
+   * @param scopes Scopes granted to the key
+   * @param createdBy Key ID of the admin creating the key
+   * @param signing Whether to create a request signing secret
+   * @returns The key and signing secret (only returned here) and the record
+   */
+  public createKey(
+    name: string,
+    scopes: ApiKeyScope[],
+    createdBy?: string,
+    signing: boolean = false
+  ): { key: string; signingSecret?: string; apiKey: ApiKeySummary } {
+    const keyId = `ak_${crypto.randomBytes(8).toString("hex")}`;
+    const key = `${keyId}.${crypto.randomBytes(32).toString("base64url")}`;
+    const signingSecret = signing
+      ? `zsk_${crypto.randomBytes(32).toString("hex")}`
+      : undefined;
+
+    const record: ApiKeyRecord = {
+      keyId,
+      name,
+      scopes: Array.from(new Set(scopes)),
+      keyHash: this.hash(key),
+      signingSecret,
+      createdBy,
+      createdAt: Date.now(),
+    };
+
+    this.store.set(keyId, record);
+
+    console.log(`API key ${keyId} created (${record.scopes.join(", ")})`);
+
+    return { key, signingSecret, apiKey: this.summarize(record) };
+  }
+
+  /**
+   * List API keys, newest first
+   * @param includeRevoked Whether to include revoked keys
+   * @returns API keys without their hashes
+   */
+  public listKeys(includeRevoked: boolean = false): ApiKeySummary[] {
+    return this.store
+      .values()
+      .filter((record) => includeRevoked || !record.revokedAt)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((record) => this.summarize(record));
+  }
+
+  /**
+   * Revoke an API key. Requests with it are rejected from then on.
+   * @param keyId Key ID
+   * @param revokedBy Key ID of the admin revoking the key
+   * @returns Revoked key
+   */
+  public revokeKey(keyId: string, revokedBy?: string): ApiKeySummary {
+    const record = this.store.get(keyId);
+
+    if (!record) {
+      throw new ServiceError(`API key not found: ${keyId}`, 404);
+    }
+
+    if (record.revokedAt) {
+      throw new ServiceError(`API key ${keyId} is already revoked`, 409);
+    }
+
+    const revoked: ApiKeyRecord = {
+      ...record,
+      revokedAt: Date.now(),
+      revokedBy,
+    };
+    this.store.set(keyId, revoked);
+
+    console.log(`API key ${keyId} revoked`);
+
+    return this.summarize(revoked);
+  }
+
+  /**
+   * Authenticate a key presented by a client
+   * @param key Key from the request
+   * @returns Identity of the key
+   */
+  public authenticate(key: string): ApiKeyIdentity {
+    const keyHash = this.hash(key);
+    const record = this.store.get(key.split(".")[0]);
+
+    if (record && this.matches(record.keyHash, keyHash)) {
+      if (record.revokedAt) {
+        throw new ServiceError("API key has been revoked", 401, "UNAUTHORIZED");
+      }
+
+      return this.identify(record);
+    }
+
+    const adminKey = config.auth.adminApiKey;
+    if (adminKey && this.matches(this.hash(adminKey), keyHash)) {
+      return BOOTSTRAP_IDENTITY;
+    }
+
+    throw new ServiceError("Invalid API key", 401, "UNAUTHORIZED");
+  }
+
+  /**
+   * Get the signing secret of an active API key
+   * @param keyId Key ID
+   * @returns Signing secret, if the key exists, is not revoked and has one
+   */
+  public getSigningSecret(keyId: string): string | undefined {
+    const record = this.store.get(keyId);
+    return record && !record.revokedAt ? record.signingSecret : undefined;
+  }
+
+  /**
+   * Identify a request signed with an API key's signing secret
+   * @param keyId Key ID whose secret verified the signature
+   * @returns Identity of the key
+   */
+  public identifySigned(keyId: string): ApiKeyIdentity {
+    const record = this.store.get(keyId);
+
+    if (!record || record.revokedAt) {
+      throw new ServiceError("Invalid API key", 401, "UNAUTHORIZED");
+    }
+
+    return { ...this.identify(record), signed: true };
+  }
+
+  /**
+   * Get a key and the keys that created it, following createdBy up to a key
+   * without a creator, such as the bootstrap key
+   * @param keyId Key ID
+   * @returns Key IDs, starting with the key itself
+   */
+  public getCreatorChain(keyId: string): string[] {
+    const chain: string[] = [];
+    let current: string | undefined = keyId;
+
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      current = this.store.get(current)?.createdBy;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Whether an identity holds a scope
+   * @param identity Authenticated key
+   * @param scope Required scope
+   * @returns true if the key has the scope or is an admin key
+   */
+  public hasScope(identity: ApiKeyIdentity, scope: ApiKeyScope): boolean {
+    return identity.scopes.includes("admin") || identity.scopes.includes(scope);
+  }
+
+  /**
+   * Build the identity of a key used by a request, recording the use
+   * @param record Stored key
+   * @returns Identity of the key
+   */
+  private identify(record: ApiKeyRecord): ApiKeyIdentity {
+    const now = Date.now();
+    if (
+      !record.lastUsedAt ||
+      now - record.lastUsedAt >= LAST_USED_RESOLUTION_MS
+    ) {
+      this.store.set(record.keyId, { ...record, lastUsedAt: now });
+    }
+
+    return {
+      keyId: record.keyId,
+      name: record.name,
+      scopes: record.scopes,
+      requiresSignature: !!record.signingSecret,
+    };
+  }
+
+  /**
+   * Hash a key for storage
+   * @param key API key
+   * @returns SHA-256 hex digest
+   */
+  private hash(key: string): string {
+    return crypto.createHash("sha256").update(key).digest("hex");
+  }
+
+  /**
+   * Compare two key hashes in constant time
+   * @param expected Stored hash
+   * @param actual Hash of the presented key
+   * @returns true if the hashes are equal
+   */
+  private matches(expected: string, actual: string): boolean {
+    return crypto.timingSafeEqual(
+      Buffer.from(expected, "hex"),
+      Buffer.from(actual, "hex")
+    );
+  }
+
+  /**
+   * Strip the hash and signing secret from a stored key
+   * @param record Stored key
+   * @returns Key summary
+   */
+  private summarize(record: ApiKeyRecord): ApiKeySummary {
+    const { keyHash, signingSecret, ...summary } = record;
+    return { ...summary, signing: !!signingSecret };
+  }
+}
+
+export default new ApiKeyService();
@@ -0,0 +1,647 @@
+import { ethers } from "ethers";
+import { ServiceError } from "../types";
+import {
+  formatAmount,
+  getContract,
+  getOperatorPool,
+  parseAmount,
+} from "../utils/blockchain";
+import { Operator } from "../utils/operatorPool";
+import { Pagination } from "../utils/pagination";
+import adminAuditService, {
+  AdminAuditActor,
+  AdminAuditEntry,
+} from "./adminAuditService";
+import screeningService from "./screeningService";
+
+const IDRX_TOKEN_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+/**
+ * Contract functions wrapped by the admin API
+ */
+export type ContractAdminAction =
+  | "pause"
+  | "unpause"
+  | "depositReserve"
+  | "withdrawReserve";
+
+/**
+ * Outcome of an admin operation: simulated (dry run), rejected by a
+ * pre-flight check, or mined as succeeded or failed
+ */
+export type ContractAdminOutcome =
+  | "simulated"
+  | "rejected"
+  | "succeeded"
+  | "failed";
+
+/**
+ * Interface for the contract state around an admin operation
+ */
+export interface ContractState {
+  paused: boolean;
+  isActive: boolean;
+  reserve: string;
+  effectiveMaxAmount: string;
+}
+
+/**
+ * Interface for an admin operation request
+ */
+export interface ContractAdminRequest {
+  amount?: string;
+  to?: string;
+  operator?: string;
+  dryRun?: boolean;
+  reason?: string;
+  actor?: AdminAuditActor;
+}
+
+/**
+ * Interface for the result of an admin operation
+ */
+export interface ContractAdminResult {
+  success: boolean;
+  action: ContractAdminAction;
+  dryRun: boolean;
+  operator: string;
+  requiredRole?: string;
+  amount?: string;
+  to?: string;
+  before: ContractState;
+  after?: ContractState;
+  approvalRequired?: boolean;
+  approvalTransactionHash?: string;
+  gasEstimate?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  auditId: string;
+}
+
+/**
+ * Interface for an admin operation attempt, as written to the admin audit
+ * log
+ */
+interface ContractAdminAttempt {
+  action: ContractAdminAction;
+  outcome: ContractAdminOutcome;
+  dryRun: boolean;
+  amount?: string;
+  to?: string;
+  operator?: string;
+  reason?: string;
+  before?: ContractState;
+  after?: ContractState;
+  approvalTransactionHash?: string;
+  transactionHash?: string;
+  error?: string;
+}
+
+/**
+ * Interface for audit query filters
+ */
+export interface ContractAdminAuditFilter {
+  action?: ContractAdminAction;
+  outcome?: ContractAdminOutcome;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface for an operator's roles on the contract
+ */
+export interface OperatorRoles {
+  address: string;
+  status: Operator["status"];
+  isAdmin: boolean;
+  isOperator: boolean;
+}
+
+/**
+ * Role each action needs; reserve deposits are open to any sender
+ */
+const REQUIRED_ROLES: Record<ContractAdminAction, string | undefined> = {
+  pause: "DEFAULT_ADMIN_ROLE",
+  unpause: "DEFAULT_ADMIN_ROLE",
+  depositReserve: undefined,
+  withdrawReserve: "DEFAULT_ADMIN_ROLE",
+};
+
+/**
+ * Admin audit log action of a contract admin operation
+ * @param action Contract admin action
+ * @returns Audit action, e.g. "contract.pause"
+ */
+const auditAction = (action: ContractAdminAction): string =>
+  `contract.${action}`;
+
+/**
+ * Service wrapping the IDRXTransferManager admin functions: pause, unpause,
+ * depositReserve and withdrawReserve.
+ *
+ * Every operation runs pre-flight checks first (current pause state and
+ * getReserveStatus, the sending operator's role, the operator's IDRX balance
+ * for deposits, screening of withdrawal recipients) and a callStatic
+ * simulation. Dry runs stop there; otherwise the transaction is sent from
+ * an operator wallet with its nonce manager and awaited. Operations run one
+ * at a time, and every attempt, including dry runs and rejected ones, is
+ * written to the admin audit log.
+ */
+export class ContractAdminService {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get the contract state and the roles held by each operator
+   * @returns Contract state, IDRX token and operator roles
+   */
+  public async getStatus(): Promise<{
+    contractAddress: string;
+    idrxToken: string;
+    state: ContractState;
+    operators: OperatorRoles[];
+  }> {
+    const contract = getContract();
+    const [state, idrxToken, adminRole, operatorRole] = await Promise.all([
+      this.getState(),
+      contract.idrxToken(),
+      contract.DEFAULT_ADMIN_ROLE(),
+      contract.OPERATOR_ROLE(),
+    ]);
+
+    const operators: OperatorRoles[] = [];
+
+    for (const operator of getOperatorPool().list()) {
+      if (operator.status === "retired") {
+        continue;
+      }
+
+      const [isAdmin, isOperator] = await Promise.all([
+        contract.hasRole(adminRole, operator.address),
+        contract.hasRole(operatorRole, operator.address),
+      ]);
+
+      operators.push({
+        address: operator.address,
+        status: operator.status,
+        isAdmin,
+        isOperator,
+      });
+    }
+
+    return {
+      contractAddress: contract.address,
+      idrxToken,
+      state,
+      operators,
+    };
+  }
+
+  /**
+   * Run an admin operation, or only its checks and simulation in a dry run
+   * @param action Contract function to call
+   * @param request Amount, recipient, sending operator and audit details
+   * @returns Operation result with the contract state before and after
+   */
+  public execute(
+    action: ContractAdminAction,
+    request: ContractAdminRequest
+  ): Promise<ContractAdminResult> {
+    const run = this.queue.then(
+      () => this.run(action, request),
+      () => this.run(action, request)
+    );
+    this.queue = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * List admin operations from the admin audit log, newest first
+   * @param filter Query filters and pagination
+   * @returns Matching entries with pagination info
+   */
+  public listAudit(filter: ContractAdminAuditFilter = {}): {
+    entries: AdminAuditEntry[];
+    pagination: Pagination;
+  } {
+    const { action, ...rest } = filter;
+    const actions = action
+      ? [action]
+      : (Object.keys(REQUIRED_ROLES) as ContractAdminAction[]);
+
+    return adminAuditService.list({
+      ...rest,
+      actions: actions.map(auditAction),
+    });
+  }
+
+  /**
+   * Check, simulate and (unless a dry run) send an admin operation
+   * @param action Contract function to call
+   * @param request Operation request
+   * @returns Operation result
+   */
+  private async run(
+    action: ContractAdminAction,
+    request: ContractAdminRequest
+  ): Promise<ContractAdminResult> {
+    const { amount, to, reason, actor = {} } = request;
+    const dryRun = request.dryRun === true;
+    const entry: ContractAdminAttempt = {
+      action,
+      outcome: "rejected",
+      dryRun,
+      amount,
+      to,
+      reason,
+    };
+
+    try {
+      const before = await this.getState();
+      entry.before = before;
+
+      const amountBN = amount !== undefined ? parseAmount(amount) : undefined;
+      this.checkState(action, before, amountBN);
+
+      if (action === "withdrawReserve") {
+        screeningService.screen(to as string, "withdrawal");
+      }
+
+      const operator = await this.selectOperator(action, request.operator);
+      entry.operator = operator.address;
+
+      const result: ContractAdminResult = {
+        success: false,
+        action,
+        dryRun,
+        operator: operator.address,
+        requiredRole: REQUIRED_ROLES[action],
+        amount,
+        to,
+        before,
+        auditId: "",
+      };
+
+      let token: ethers.Contract | undefined;
+      if (action === "depositReserve") {
+        token = await this.checkDepositFunds(operator, amountBN!);
+        result.approvalRequired = !!token;
+      }
+
+      // The simulation needs the allowance, so it is skipped until approved
+      if (!result.approvalRequired) {
+        result.gasEstimate = (
+          await this.simulate(operator, action, amountBN, to)
+        ).toString();
+      }
+
+      if (dryRun) {
+        result.success = true;
+        result.auditId = this.record(
+          { ...entry, outcome: "simulated" },
+          actor
+        );
+        return result;
+      }
+
+      // From here on an error means the operation was attempted and failed
+      entry.outcome = "failed";
+
+      if (token) {
+        result.approvalTransactionHash = await this.approve(
+          operator,
+          token,
+          amountBN!
+        );
+        entry.approvalTransactionHash = result.approvalTransactionHash;
+        await this.simulate(operator, action, amountBN, to);
+      }
+
+      const receipt = await this.send(operator, action, amountBN, to);
+      entry.outcome = receipt.status === 1 ? "succeeded" : "failed";
+      entry.transactionHash = receipt.transactionHash;
+
+      result.success = receipt.status === 1;
+      result.transactionHash = receipt.transactionHash;
+      result.blockNumber = receipt.blockNumber;
+      result.after = await this.getState();
+      result.auditId = this.record({ ...entry, after: result.after }, actor);
+
+      console.log(
+        `Contract ${action} ${entry.outcome}: ${receipt.transactionHash} ` +
+          `(operator ${operator.address})`
+      );
+
+      return result;
+    } catch (error) {
+      const serviceError = this.toServiceError(error, action);
+
+      this.record({ ...entry, error: serviceError.message }, actor);
+
+      throw serviceError;
+    }
+  }
+
+  /**
+   * Read the contract's pause state and reserve status
+   * @returns Current contract state
+   */
+  private async getState(): Promise<ContractState> {
+    const contract = getContract();
+    const [paused, status] = await Promise.all([
+      contract.paused(),
+      contract.getReserveStatus(),
+    ]);
+
+    return {
+      paused,
+      isActive: status.isActive,
+      reserve: formatAmount(status.reserve),
+      effectiveMaxAmount: formatAmount(status.effectiveMaxAmount),
+    };
+  }
+
+  /**
+   * Check that the operation makes sense for the current contract state
+   * @param action Contract function to call
+   * @param state Current contract state
+   * @param amountBN Amount in token units, for reserve operations
+   */
+  private checkState(
+    action: ContractAdminAction,
+    state: ContractState,
+    amountBN?: ethers.BigNumber
+  ): void {
+    if (action === "pause" && state.paused) {
+      throw new ServiceError(
+        "Contract is already paused",
+        409,
+        "ALREADY_PAUSED"
+      );
+    }
+
+    if (action === "unpause" && !state.paused) {
+      throw new ServiceError("Contract is not paused", 409, "NOT_PAUSED");
+    }
+
+    if (amountBN && amountBN.lte(0)) {
+      throw new ServiceError("Amount must be greater than 0", 400);
+    }
+
+    if (
+      action === "withdrawReserve" &&
+      amountBN!.gt(parseAmount(state.reserve))
+    ) {
+      throw new ServiceError(
+        `Amount exceeds the reserve of ${state.reserve} IDRX`,
+        400,
+        "INSUFFICIENT_RESERVE"
+      );
+    }
+  }
+
+  /**
+   * Pick the operator sending the operation: the requested one, or the
+   * first non-retired operator holding the required role
+   * @param action Contract function to call
+   * @param address Requested operator address, if any
+   * @returns Sending operator
+   */
+  private async selectOperator(
+    action: ContractAdminAction,
+    address?: string
+  ): Promise<Operator> {
+    const pool = getOperatorPool();
+    const candidates = address
+      ? [pool.get(address)]
+      : pool.list().filter((op) => op.status !== "retired");
+
+    if (address && (!candidates[0] || candidates[0].status === "retired")) {
+      throw new ServiceError(`Operator not found: ${address}`, 404);
+    }
+
+    const roleName = REQUIRED_ROLES[action];
+    if (!roleName) {
+      return candidates[0] as Operator;
+    }
+
+    const contract = getContract();
+    const role =
+      roleName === "DEFAULT_ADMIN_ROLE"
+        ? await contract.DEFAULT_ADMIN_ROLE()
+        : await contract.OPERATOR_ROLE();
+
+    for (const operator of candidates as Operator[]) {
+      if (await contract.hasRole(role, operator.address)) {
+        return operator;
+      }
+    }
+
+    throw new ServiceError(
+      address
+        ? `Operator ${address} does not hold ${roleName}`
+        : `No operator holds ${roleName}`,
+      403,
+      "MISSING_ROLE"
+    );
+  }
+
+  /**
+   * Check that an operator holds enough IDRX for a deposit
+   * @param operator Sending operator
+   * @param amountBN Deposit amount in token units
+   * @returns Token contract when an approval is needed first
+   */
+  private async checkDepositFunds(
+    operator: Operator,
+    amountBN: ethers.BigNumber
+  ): Promise<ethers.Contract | undefined> {
+    const contract = getContract();
+    const token = new ethers.Contract(
+      await contract.idrxToken(),
+      IDRX_TOKEN_ABI,
+      operator.signer
+    );
+
+    const [balance, allowance]: ethers.BigNumber[] = await Promise.all([
+      token.balanceOf(operator.address),
+      token.allowance(operator.address, contract.address),
+    ]);
+
+    if (balance.lt(amountBN)) {
+      throw new ServiceError(
+        `Operator ${operator.address} holds ${formatAmount(balance)} IDRX, ` +
+          `less than the deposit`,
+        400,
+        "INSUFFICIENT_BALANCE"
+      );
+    }
+
+    return allowance.lt(amountBN) ? token : undefined;
+  }
+
+  /**
+   * Simulate an operation from an operator with callStatic and estimate
+   * its gas
+   * @param operator Sending operator
+   * @param action Contract function to call
+   * @param amountBN Amount in token units, for reserve operations
+   * @param to Withdrawal recipient
+   * @returns Gas estimate
+   */
+  private async simulate(
+    operator: Operator,
+    action: ContractAdminAction,
+    amountBN?: ethers.BigNumber,
+    to?: string
+  ): Promise<ethers.BigNumber> {
+    const { callStatic, estimateGas } = operator.contract;
+
+    switch (action) {
+      case "pause":
+        await callStatic.pause();
+        return estimateGas.pause();
+      case "unpause":
+        await callStatic.unpause();
+        return estimateGas.unpause();
+      case "depositReserve":
+        await callStatic.depositReserve(amountBN!);
+        return estimateGas.depositReserve(amountBN!);
+      case "withdrawReserve":
+        await callStatic.withdrawReserve(to!, amountBN!);
+        return estimateGas.withdrawReserve(to!, amountBN!);
+    }
+  }
+
+  /**
+   * Approve the contract to pull a deposit from an operator
+   * @param operator Depositing operator
+   * @param token IDRX token contract connected to the operator
+   * @param amountBN Deposit amount in token units
+   * @returns Approval transaction hash
+   */
+  private async approve(
+    operator: Operator,
+    token: ethers.Contract,
+    amountBN: ethers.BigNumber
+  ): Promise<string> {
+    const tx: ethers.providers.TransactionResponse =
+      await operator.nonceManager.sendWithNonce((nonce) =>
+        token.approve(getContract().address, amountBN, { nonce })
+      );
+
+    try {
+      const receipt = await tx.wait();
+      console.log(`IDRX approval for reserve deposit: ${tx.hash}`);
+      return receipt.transactionHash;
+    } finally {
+      operator.nonceManager.complete(tx.nonce);
+    }
+  }
+
+  /**
+   * Send an operation from an operator and wait for it to be mined
+   * @param operator Sending operator
+   * @param action Contract function to call
+   * @param amountBN Amount in token units, for reserve operations
+   * @param to Withdrawal recipient
+   * @returns Transaction receipt
+   */
+  private async send(
+    operator: Operator,
+    action: ContractAdminAction,
+    amountBN?: ethers.BigNumber,
+    to?: string
+  ): Promise<ethers.providers.TransactionReceipt> {
+    const { contract } = operator;
+
+    const tx = await operator.nonceManager.sendWithNonce((nonce) => {
+      switch (action) {
+        case "pause":
+          return contract.pause({ nonce });
+        case "unpause":
+          return contract.unpause({ nonce });
+        case "depositReserve":
+          return contract.depositReserve(amountBN!, { nonce });
+        case "withdrawReserve":
+          return contract.withdrawReserve(to!, amountBN!, { nonce });
+      }
+    });
+
+    try {
+      return await tx.wait();
+    } catch (error) {
+      // Reverted transactions reject with their receipt
+      if ((error as any).receipt) {
+        return (error as any).receipt;
+      }
+      throw error;
+    } finally {
+      operator.nonceManager.complete(tx.nonce);
+    }
+  }
+
+  /**
+   * Convert an error into a ServiceError
+   * @param error Error thrown by an operation
+   * @param action Contract function called
+   * @returns Service error
+   */
+  private toServiceError(
+    error: unknown,
+    action: ContractAdminAction
+  ): ServiceError {
+    if (error instanceof ServiceError) {
+      return error;
+    }
+
+    console.error(`Error running contract ${action}:`, error);
+
+    if (
+      (error as any).code === "UNPREDICTABLE_GAS_LIMIT" ||
+      (error as any).code === "CALL_EXCEPTION"
+    ) {
+      return new ServiceError(
+        `Contract error: ${(error as any).reason || "Execution reverted"}`,
+        400
+      );
+    }
+
+    return new ServiceError(
+      (error as any).message || `Failed to run contract ${action}`,
+      500
+    );
+  }
+
+  /**
+   * Write an operation attempt to the admin audit log
+   * @param entry Operation attempt
+   * @param actor Admin requesting the operation
+   * @returns Admin audit entry ID
+   */
+  private record(entry: ContractAdminAttempt, actor: AdminAuditActor): string {
+    return adminAuditService.record({
+      action: auditAction(entry.action),
+      actor,
+      params: {
+        amount: entry.amount,
+        to: entry.to,
+        operator: entry.operator,
+        dryRun: entry.dryRun,
+        reason: entry.reason,
+        approvalTransactionHash: entry.approvalTransactionHash,
+      },
+      before: entry.before,
+      after: entry.after,
+      transactionHash: entry.transactionHash,
+      outcome: entry.outcome,
+      error: entry.error,
+    }).id;
+  }
+}
+
+export default new ContractAdminService();
@@ -0,0 +1,439 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { NETWORKS, getTokenDecimals } from "../constants/tokens";
+import { ServiceError } from "../types";
+import {
+  getNetworkProvider,
+  getTokenContract,
+  getTransactionStatus,
+  waitForConfirmation,
+} from "../utils/crossChainUtils";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import tokenFeeService from "./tokenFeeService";
+
+/**
+ * Interface for a source-chain deposit backing a transfer
+ */
+export interface DepositSource {
+  network: string;
+  depositTxHash: string;
+  token: string;
+  isTestnet: boolean;
+}
+
+/**
+ * Interface for a deposit that passed verification
+ */
+export interface VerifiedDeposit {
+  sender: string;
+  amount: string;
+  confirmations: number;
+  blockNumber: number;
+}
+
+/**
+ * Interface for a deposit claimed by a transfer
+ */
+export interface DepositRecord {
+  key: string;
+  network: string;
+  isTestnet: boolean;
+  depositTxHash: string;
+  token: string;
+  status: "claimed" | "paid" | "refunding" | "refunded";
+  transferId: string;
+  sender?: string;
+  amount?: string;
+  idrxAmount?: string;
+  payoutTransactionHash?: string;
+  refundTransactionHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Service verifying source-chain deposits to the treasury and making sure
+ * each deposit pays out IDRX at most once
+ */
+export class DepositVerificationService {
+  private store: JsonFileStore<DepositRecord>;
+
+  constructor() {
+    this.store = new JsonFileStore<DepositRecord>("deposits");
+  }
+
+  /**
+   * Build the registry key of a deposit
+   * @param deposit Deposit source
+   * @returns Key unique per network, environment and transaction
+   */
+  public depositKey(deposit: DepositSource): string {
+    return [
+      deposit.network.toLowerCase(),
+      deposit.isTestnet ? "testnet" : "mainnet",
+      deposit.depositTxHash.toLowerCase(),
+    ].join(":");
+  }
+
+  /**
+   * Claim a deposit for a transfer before it is verified, so concurrent
+   * requests cannot use the same deposit
+   * @param deposit Deposit source
+   * @param transferId Transfer the deposit will pay for
+   * @returns Registry key of the claimed deposit
+   */
+  public claim(deposit: DepositSource, transferId: string): string {
+    const key = this.checkUnclaimed(deposit);
+
+    const now = Date.now();
+    this.store.set(key, {
+      key,
+      network: deposit.network.toLowerCase(),
+      isTestnet: deposit.isTestnet,
+      depositTxHash: deposit.depositTxHash,
+      token: deposit.token.toLowerCase(),
+      status: "claimed",
+      transferId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return key;
+  }
+
+  /**
+   * Check that a deposit has not been claimed by another transfer
+   * @param deposit Deposit source
+   * @returns Registry key of the deposit
+   */
+  public checkUnclaimed(deposit: DepositSource): string {
+    const key = this.depositKey(deposit);
+    const existing = this.store.get(key);
+
+    if (existing) {
+      const messages = {
+        claimed: "is already being processed",
+        paid: `has already been paid out (transfer ${existing.transferId})`,
+        refunding: "is awaiting a refund",
+        refunded: "has been refunded",
+      };
+
+      throw new ServiceError(
+        `Deposit ${deposit.depositTxHash} ${messages[existing.status]}`,
+        409
+      );
+    }
+
+    return key;
+  }
+
+  /**
+   * Store the verified deposit details on its registry record
+   * @param key Registry key
+   * @param verified Verified deposit
+   * @param idrxAmount IDRX payout for the deposit
+   */
+  public recordVerified(
+    key: string,
+    verified: VerifiedDeposit,
+    idrxAmount: string
+  ): void {
+    this.update(key, {
+      sender: verified.sender,
+      amount: verified.amount,
+      idrxAmount,
+    });
+  }
+
+  /**
+   * Mark a claimed deposit as paid out
+   * @param key Registry key
+   * @param transactionHash Hash of the IDRX payout transaction
+   */
+  public markPaid(key: string, transactionHash: string): void {
+    this.update(key, {
+      status: "paid",
+      payoutTransactionHash: transactionHash,
+    });
+  }
+
+  /**
+   * Release a claimed deposit whose payout never happened so it can be
+   * used again. Paid deposits are never released.
+   * @param key Registry key
+   */
+  public release(key: string): void {
+    const record = this.store.get(key);
+
+    if (record && record.status === "claimed") {
+      this.store.delete(key);
+    }
+  }
+
+  /**
+   * Hold a claimed deposit whose payout failed until it is refunded
+   * @param key Registry key
+   */
+  public markRefunding(key: string): void {
+    this.update(key, { status: "refunding" });
+  }
+
+  /**
+   * Mark a deposit as returned to its sender
+   * @param key Registry key
+   * @param transactionHash Hash of the refund transaction
+   */
+  public markRefunded(key: string, transactionHash: string): void {
+    this.update(key, {
+      status: "refunded",
+      refundTransactionHash: transactionHash,
+    });
+  }
+
+  /**
+   * Release a deposit awaiting a refund that will not be sent, so the
+   * payout can be attempted again
+   * @param key Registry key
+   */
+  public reopen(key: string): void {
+    const record = this.store.get(key);
+
+    if (record && record.status === "refunding") {
+      this.store.delete(key);
+    }
+  }
+
+  /**
+   * Get a deposit record by registry key
+   * @param key Registry key
+   * @returns Deposit record or undefined
+   */
+  public getRecordByKey(key: string): DepositRecord | undefined {
+    return this.store.get(key);
+  }
+
+  /**
+   * Get the registry record of a deposit
+   * @param deposit Deposit source
+   * @returns Deposit record or undefined if the deposit was never claimed
+   */
+  public getRecord(deposit: DepositSource): DepositRecord | undefined {
+    return this.store.get(this.depositKey(deposit));
+  }
+
+  /**
+   * Verify that a deposit transaction sent the token to the treasury and has
+   * enough confirmations
+   * @param deposit Deposit source
+   * @returns Verified deposit
+   */
+  public async verify(deposit: DepositSource): Promise<VerifiedDeposit> {
+    const { network, depositTxHash, token, isTestnet } = deposit;
+    const treasury = config.deposit.treasuryAddress;
+
+    if (!treasury) {
+      throw new ServiceError("Deposit verification is not configured", 503);
+    }
+
+    const status = await getTransactionStatus(
+      network,
+      depositTxHash,
+      isTestnet
+    );
+
+    if (status.status === "failed") {
+      throw new ServiceError("Deposit transaction failed", 400);
+    }
+
+    let receipt = status.receipt;
+    const required = config.deposit.minConfirmations;
+
+    if (!receipt || status.confirmations < required) {
+      try {
+        receipt = await waitForConfirmation(
+          network,
+          depositTxHash,
+          required,
+          isTestnet,
+          config.deposit.confirmationTimeoutMs
+        );
+      } catch (error) {
+        throw new ServiceError(
+          `Deposit has ${status.confirmations} of ${required} required confirmations`,
+          409
+        );
+      }
+
+      if (receipt.status !== 1) {
+        throw new ServiceError("Deposit transaction failed", 400);
+      }
+    }
+
+    const { provider } = getNetworkProvider(network, isTestnet);
+    const tx = await provider.getTransaction(depositTxHash);
+
+    // The node can return the receipt but no longer know the transaction
+    if (!tx) {
+      throw new ServiceError(
+        `Deposit transaction not found: ${depositTxHash}`,
+        404
+      );
+    }
+
+    const amountBN = this.isNativeToken(network, token)
+      ? this.nativeDepositAmount(tx, treasury)
+      : this.tokenDepositAmount(deposit, receipt, treasury, provider);
+
+    if (amountBN.isZero()) {
+      throw new ServiceError(
+        `Deposit does not transfer ${token.toUpperCase()} to the treasury`,
+        400
+      );
+    }
+
+    return {
+      sender: tx.from,
+      amount: ethers.utils.formatUnits(
+        amountBN,
+        this.tokenDecimals(network, token)
+      ),
+      confirmations: Math.max(receipt.confirmations, required),
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  /**
+   * Compute the IDRX payout for a verified deposit at the current price
+   * @param token Deposited token symbol
+   * @param verified Verified deposit
+   * @returns IDRX amount, rounded down to IDRX precision
+   */
+  public async calculatePayout(
+    token: string,
+    verified: VerifiedDeposit
+  ): Promise<string> {
+    const { idrxAmount } = await tokenFeeService.calculateIdrxAmount(
+      token,
+      parseFloat(verified.amount)
+    );
+    const payout = Math.floor(idrxAmount * 100) / 100;
+
+    if (payout <= 0) {
+      throw new ServiceError("Deposit is too small to pay out any IDRX", 400);
+    }
+
+    return payout.toFixed(2);
+  }
+
+  /**
+   * Get the decimals of a deposited token
+   * @param network Network ID
+   * @param token Token symbol
+   * @returns Token decimals
+   */
+  public tokenDecimals(network: string, token: string): number {
+    const decimals = this.isNativeToken(network, token)
+      ? NETWORKS[network.toLowerCase()].nativeCurrency.decimals
+      : getTokenDecimals(network, token);
+
+    if (decimals === undefined) {
+      throw new ServiceError(
+        `Token ${token} not supported on ${network}`,
+        400
+      );
+    }
+
+    return decimals;
+  }
+
+  /**
+   * Check whether the token is the native currency of the network
+   * @param network Network ID
+   * @param token Token symbol
+   * @returns true for native currency deposits
+   */
+  private isNativeToken(network: string, token: string): boolean {
+    return (
+      NETWORKS[network.toLowerCase()]?.nativeCurrency.symbol.toLowerCase() ===
+      token.toLowerCase()
+    );
+  }
+
+  /**
+   * Amount of native currency a deposit sent to the treasury
+   * @param tx Deposit transaction
+   * @param treasury Treasury address
+   * @returns Deposited amount (zero if not sent to the treasury)
+   */
+  private nativeDepositAmount(
+    tx: ethers.providers.TransactionResponse,
+    treasury: string
+  ): ethers.BigNumber {
+    if (!tx.to || tx.to.toLowerCase() !== treasury.toLowerCase()) {
+      return ethers.BigNumber.from(0);
+    }
+
+    return tx.value;
+  }
+
+  /**
+   * Sum of the token Transfer events of a deposit that credit the treasury
+   * @param deposit Deposit source
+   * @param receipt Deposit transaction receipt
+   * @param treasury Treasury address
+   * @param provider Source network provider
+   * @returns Deposited amount (zero if nothing reached the treasury)
+   */
+  private tokenDepositAmount(
+    deposit: DepositSource,
+    receipt: ethers.providers.TransactionReceipt,
+    treasury: string,
+    provider: ethers.providers.Provider
+  ): ethers.BigNumber {
+    const tokenContract = getTokenContract(
+      deposit.network,
+      deposit.token,
+      provider,
+      deposit.isTestnet
+    );
+
+    return receipt.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() === tokenContract.address.toLowerCase()
+      )
+      .reduce((sum, log) => {
+        try {
+          const event = tokenContract.interface.parseLog(log);
+
+          if (
+            event.name === "Transfer" &&
+            event.args.to.toLowerCase() === treasury.toLowerCase()
+          ) {
+            return sum.add(event.args.value);
+          }
+        } catch (error) {
+          // Not an ERC20 event
+        }
+
+        return sum;
+      }, ethers.BigNumber.from(0));
+  }
+
+  /**
+   * Apply changes to a deposit record
+   * @param key Registry key
+   * @param changes Fields to update
+   */
+  private update(key: string, changes: Partial<DepositRecord>): void {
+    const record = this.store.get(key);
+
+    if (!record) {
+      return;
+    }
+
+    this.store.set(key, { ...record, ...changes, updatedAt: Date.now() });
+  }
+}
+
+export default new DepositVerificationService();
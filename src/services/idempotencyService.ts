@@ -0,0 +1,223 @@
+import crypto from "crypto";
+import config from "../config/config";
+import {
+  BatchTransferResponse,
+  MetaTransferResponse,
+  ServiceError,
+} from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+/**
+ * Response stored for a single or batch transfer
+ */
+export type IdempotentResponse = MetaTransferResponse | BatchTransferResponse;
+
+/**
+ * Interface for a stored idempotency record
+ */
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  status: "pending" | "submitted" | "completed";
+  transferId?: string;
+  transactionHash?: string;
+  // Transfers of a batch, which is submitted as a whole
+  transferIds?: string[];
+  response?: IdempotentResponse;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Service for de-duplicating meta-transfer requests by idempotency key
+ */
+export class IdempotencyService {
+  private store: JsonFileStore<IdempotencyRecord>;
+
+  constructor() {
+    this.store = new JsonFileStore<IdempotencyRecord>("idempotency");
+  }
+
+  /**
+   * Compute a stable fingerprint of the request payload
+   * @param payload Request payload (key order does not matter)
+   * @returns SHA-256 hex digest
+   */
+  public fingerprint(payload: Record<string, unknown>): string {
+    const canonical = Object.keys(payload)
+      .filter((key) => payload[key] !== undefined)
+      .sort()
+      .map((key) => [key, payload[key]]);
+
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(canonical))
+      .digest("hex");
+  }
+
+  /**
+   * Claim an idempotency key for a new request
+   * @param key Idempotency key supplied by the client
+   * @param fingerprint Fingerprint of the request payload
+   * @returns The original response if the request was already completed
+   */
+  public begin<T extends IdempotentResponse>(
+    key: string,
+    fingerprint: string
+  ): T | undefined {
+    const existing = this.getRecord(key);
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new ServiceError(
+          "Idempotency key has already been used with a different request payload",
+          409
+        );
+      }
+
+      if (existing.status === "completed" && existing.response) {
+        return existing.response as T;
+      }
+
+      if (existing.status === "submitted") {
+        throw new ServiceError(
+          existing.transferIds
+            ? "Batch for this idempotency key was already submitted and " +
+                "is not yet complete"
+            : `Transfer for this idempotency key was already submitted ` +
+                `(transaction ${existing.transactionHash}) and is not yet ` +
+                "confirmed",
+          409
+        );
+      }
+
+      throw new ServiceError(
+        "A request with this idempotency key is already being processed",
+        409
+      );
+    }
+
+    const now = Date.now();
+    this.store.set(key, {
+      key,
+      fingerprint,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return undefined;
+  }
+
+  /**
+   * Record that the transfer for a key has been broadcast
+   * @param key Idempotency key
+   * @param transferId Transfer ID sent to the contract
+   * @param transactionHash Hash of the broadcast transaction
+   */
+  public markSubmitted(
+    key: string,
+    transferId: string,
+    transactionHash: string
+  ): void {
+    const record = this.store.get(key);
+    if (!record) {
+      return;
+    }
+
+    this.store.set(key, {
+      ...record,
+      status: "submitted",
+      transferId,
+      transactionHash,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Record that the transfers of a batch are about to be broadcast. Like a
+   * submitted transfer, the key can no longer expire or be released.
+   * @param key Idempotency key
+   * @param transferIds Transfer IDs of the batch items
+   */
+  public markBatchSubmitted(key: string, transferIds: string[]): void {
+    const record = this.store.get(key);
+    if (!record) {
+      return;
+    }
+
+    this.store.set(key, {
+      ...record,
+      status: "submitted",
+      transferIds,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Store the final response for a key so replays can return it
+   * @param key Idempotency key
+   * @param response Response returned to the original request
+   */
+  public complete(key: string, response: IdempotentResponse): void {
+    const record = this.store.get(key);
+    if (!record) {
+      return;
+    }
+
+    this.store.set(key, {
+      ...record,
+      status: "completed",
+      ...("transferId" in response && {
+        transferId: response.transferId,
+        transactionHash: response.transactionHash,
+      }),
+      response,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Release a key whose request is known not to have paid out (failed before
+   * broadcast or reverted on-chain), so the client can retry with the same key
+   * @param key Idempotency key
+   */
+  public release(key: string): void {
+    const record = this.store.get(key);
+    if (record && record.status !== "completed") {
+      this.store.delete(key);
+    }
+  }
+
+  /**
+   * Get the record of a key
+   * @param key Idempotency key
+   * @returns Stored record or undefined (also once it has expired)
+   */
+  public get(key: string): IdempotencyRecord | undefined {
+    return this.getRecord(key);
+  }
+
+  /**
+   * Get a record, discarding it if it has outlived the configured TTL.
+   * Submitted records are kept until resolved so they can never be replayed.
+   * @param key Idempotency key
+   * @returns Stored record or undefined
+   */
+  private getRecord(key: string): IdempotencyRecord | undefined {
+    const record = this.store.get(key);
+
+    if (
+      record &&
+      record.status !== "submitted" &&
+      Date.now() - record.createdAt > config.idempotency.ttlMs
+    ) {
+      this.store.delete(key);
+      return undefined;
+    }
+
+    return record;
+  }
+}
+
+export default new IdempotencyService();
@@ -2,6 +2,7 @@ import { ethers } from "ethers";
 import { ServiceError } from "../types";
 import config from "../config/config";
 import { isValidAddress } from "../utils/blockchain";
+import screeningService from "./screeningService";
 
 /**
  * Interface for balance response
@@ -57,6 +58,8 @@ export class IDRXBalanceService {
       throw new ServiceError("Invalid address format", 400);
     }
 
+    screeningService.screen(address, "balance");
+
     try {
       const tokenContract = new ethers.Contract(
         this.tokenAddress,
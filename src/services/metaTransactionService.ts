@@ -1,116 +1,525 @@
 import { ethers } from "ethers";
 import {
+  BatchTransferItemResult,
+  BatchTransferRequest,
+  BatchTransferResponse,
   MetaTransferRequest,
   MetaTransferResponse,
+  OperatorGasReport,
   StatusResponse,
+  TransferIntentSignature,
+  TransferSimulationResult,
+  TransferStatusResponse,
   ServiceError,
 } from "../types";
 import {
   getContract,
+  getOperatorPool,
+  getProvider,
   generateTransferId,
   parseAmount,
   formatAmount,
   isValidAddress,
 } from "../utils/blockchain";
+import config from "../config/config";
+import depositVerificationService, {
+  DepositSource,
+} from "./depositVerificationService";
+import idempotencyService from "./idempotencyService";
+import operatorGasMonitorService from "./operatorGasMonitorService";
+import quoteService, { Quote } from "./quoteService";
+import refundService, { RefundRecord } from "./refundService";
+import screeningService, { ScreeningEntry } from "./screeningService";
+import transferIntentService from "./transferIntentService";
+import velocityLimitService from "./velocityLimitService";
+import transactionWatchdogService from "./transactionWatchdogService";
+import transferLedgerService, {
+  TransferLedgerDeposit,
+  TransferLedgerEntry,
+  TransferLedgerScreening,
+} from "./transferLedgerService";
+import transferStatusService, {
+  TransferLimitSnapshot,
+} from "./transferStatusService";
+
+/**
+ * Interface for the contract state a transfer is checked against
+ */
+interface ContractLimits {
+  minAmount: ethers.BigNumber;
+  maxAmount: ethers.BigNumber;
+  reserve: ethers.BigNumber;
+  isActive: boolean;
+}
+
+/**
+ * Interface for the single-use resources a transfer holds until it is paid
+ */
+interface TransferClaims {
+  idempotencyKey?: string;
+  depositKey?: string;
+  quoteId?: string;
+}
+
+/**
+ * Interface for the payout of a transfer as it is being resolved
+ */
+interface PayoutResolution {
+  idrxAmount?: string;
+  depositInfo?: TransferLedgerDeposit;
+}
+
+/**
+ * Interface for a validated item of a batch transfer
+ */
+interface PreparedBatchItem {
+  index: number;
+  transferId: string;
+  recipient: string;
+  idrxAmount: string;
+  amountBN: ethers.BigNumber;
+  screening?: TransferLedgerScreening;
+}
 
 /**
  * Service class for handling meta-transactions
  */
 export class MetaTransactionService {
+  // Transfers whose receipt this process is still waiting for
+  private confirming = new Set<string>();
+
   /**
-   * Execute transferIDRX meta-transaction
+   * Execute transferIDRX meta-transaction. When a source-chain deposit is
+   * given, the payout is computed from the verified deposit and the deposit
+   * can only be paid out once. When a quote is given, exactly the quoted
+   * IDRX amount is paid. With params.simulate, the transfer is only checked
+   * and simulated, nothing is broadcast or consumed.
    * @param params Request parameters
-   * @returns Transaction response
+   * @returns Transaction response (queued status only when params.async is set)
    */
   public async executeTransfer(
     params: MetaTransferRequest
   ): Promise<MetaTransferResponse> {
-    const { recipient, idrxAmount } = params;
+    const { recipient, idempotencyKey, quoteId } = params;
 
     if (!isValidAddress(recipient)) {
       throw new ServiceError("Invalid recipient address", 400);
     }
 
-    const amountBN = parseAmount(idrxAmount);
+    const deposit = this.getDepositSource(params);
+
+    if (!deposit && !quoteId && !params.idrxAmount) {
+      throw new ServiceError("IDRX amount is required", 400);
+    }
+
+    if (config.intents.required && !params.intent) {
+      throw new ServiceError(
+        "A transfer intent signed by the recipient is required",
+        401
+      );
+    }
+
+    // With a deposit, a requested amount is the minimum acceptable payout
+    const requestedBN = params.idrxAmount
+      ? parseAmount(params.idrxAmount)
+      : undefined;
+
+    if (params.simulate) {
+      return this.simulateTransfer(params, requestedBN, deposit);
+    }
+
+    const screening = this.toLedgerScreening(
+      screeningService.screen(recipient, "transfer")
+    );
+
+    if (idempotencyKey) {
+      await this.reconcileIdempotencyKey(idempotencyKey);
+      const replay = idempotencyService.begin<MetaTransferResponse>(
+        idempotencyKey,
+        idempotencyService.fingerprint({
+          recipient: recipient.toLowerCase(),
+          idrxAmount: requestedBN?.toString(),
+          async: !!params.async,
+          deposit: deposit && depositVerificationService.depositKey(deposit),
+          quoteId,
+          intent: params.intent?.signature,
+        })
+      );
+
+      if (replay) {
+        console.log(
+          `Replaying transfer for idempotency key ${idempotencyKey}`
+        );
+        return replay;
+      }
+    }
+
+    const transferId = generateTransferId();
+    const { claims, quote } = await this.acquireClaims(
+      params,
+      transferId,
+      requestedBN,
+      deposit,
+      false
+    );
+
+    const payout: PayoutResolution = { idrxAmount: params.idrxAmount };
+    let amountBN: ethers.BigNumber;
+    let limits: ContractLimits | undefined;
 
     try {
-      const contract = getContract();
+      amountBN = await this.resolvePayout(
+        params,
+        requestedBN,
+        deposit,
+        quote,
+        payout,
+        claims.depositKey
+      );
 
-      const minAmount = await contract.minTransferAmount();
-      if (amountBN.lt(minAmount)) {
+      limits = await this.fetchContractLimits();
+      this.checkTransferAllowed(amountBN, limits);
+      velocityLimitService.check([{ recipient, amountBN }]);
+      operatorGasMonitorService.checkCanPay();
+    } catch (error) {
+      const serviceError = this.toServiceError(
+        error,
+        "Failed to execute transfer"
+      );
+
+      transferStatusService.markRejected(
+        transferId,
+        recipient,
+        payout.idrxAmount || "0",
+        serviceError.message,
+        limits && this.toLimitSnapshot(limits)
+      );
+      if (payout.depositInfo || screening) {
+        transferLedgerService.update(transferId, {
+          deposit: payout.depositInfo,
+          screening,
+        });
+      }
+      this.releaseClaims(claims);
+      throw serviceError;
+    }
+
+    const payoutAmount = payout.idrxAmount as string;
+
+    transferStatusService.markQueued(
+      transferId,
+      recipient,
+      payoutAmount,
+      this.toLimitSnapshot(limits)
+    );
+    if (payout.depositInfo || quoteId || screening) {
+      transferLedgerService.update(transferId, {
+        deposit: payout.depositInfo,
+        quoteId,
+        screening,
+      });
+    }
+
+    if (params.async) {
+      const response: MetaTransferResponse = {
+        success: true,
+        transferId,
+        status: "queued",
+        recipient,
+        amount: payoutAmount,
+      };
+
+      if (idempotencyKey) {
+        idempotencyService.complete(idempotencyKey, response);
+      }
+
+      this.submitTransfer(transferId, recipient, amountBN, payoutAmount, {
+        ...claims,
+        idempotencyKey: undefined,
+      }).catch((error) => {
+        console.error(
+          `Asynchronous transfer ${transferId} failed: ${error.message}`
+        );
+      });
+
+      return response;
+    }
+
+    return this.submitTransfer(
+      transferId,
+      recipient,
+      amountBN,
+      payoutAmount,
+      claims
+    );
+  }
+
+  /**
+   * Execute a batch of transferIDRX meta-transactions. All items are checked
+   * against a single snapshot of the contract limits and reserve before any
+   * transfer is broadcast; transfers are then broadcast in batch order.
+   * A batch repeated with the same idempotency key returns the original
+   * results instead of being broadcast again.
+   * @param params Batch request parameters
+   * @returns Per-item results (queued statuses only when params.async is set)
+   */
+  public async executeBatchTransfer(
+    params: BatchTransferRequest
+  ): Promise<BatchTransferResponse> {
+    const { transfers, idempotencyKey } = params;
+
+    if (config.deposit.required || config.intents.required) {
+      throw new ServiceError(
+        "Batch transfers are unavailable while deposits or signed intents " +
+          "are required",
+        403
+      );
+    }
+
+    if (transfers.length === 0) {
+      throw new ServiceError("Batch must contain at least one transfer", 400);
+    }
+
+    if (transfers.length > config.batch.maxTransfers) {
+      throw new ServiceError(
+        `Batch cannot contain more than ${config.batch.maxTransfers} transfers`,
+        400
+      );
+    }
+
+    const items: PreparedBatchItem[] = transfers.map((item, index) => {
+      if (!isValidAddress(item.recipient)) {
         throw new ServiceError(
-          `Amount below minimum (${formatAmount(minAmount)} IDRX)`,
+          `Transfer ${index}: Invalid recipient address`,
           400
         );
       }
 
-      const maxAmount = await contract.getEffectiveMaxTransferAmount();
-      if (amountBN.gt(maxAmount)) {
+      let amountBN: ethers.BigNumber;
+      try {
+        amountBN = parseAmount(item.idrxAmount);
+      } catch (error) {
+        throw new ServiceError(`Transfer ${index}: Invalid amount format`, 400);
+      }
+
+      let screening: TransferLedgerScreening | undefined;
+      try {
+        screening = this.toLedgerScreening(
+          screeningService.screen(item.recipient, "batch")
+        );
+      } catch (error) {
+        const { message, statusCode, code } = error as ServiceError;
         throw new ServiceError(
-          `Amount exceeds maximum (${formatAmount(maxAmount)} IDRX)`,
-          400
+          `Transfer ${index}: ${message}`,
+          statusCode,
+          code
         );
       }
 
-      const status = await contract.getReserveStatus();
-      if (!status.isActive) {
+      return {
+        index,
+        transferId: generateTransferId(),
+        recipient: item.recipient,
+        idrxAmount: item.idrxAmount,
+        amountBN,
+        screening,
+      };
+    });
+
+    if (idempotencyKey) {
+      await this.reconcileIdempotencyKey(idempotencyKey);
+      const replay = idempotencyService.begin<BatchTransferResponse>(
+        idempotencyKey,
+        idempotencyService.fingerprint({
+          transfers: items.map((item) => [
+            item.recipient.toLowerCase(),
+            item.amountBN.toString(),
+          ]),
+          async: !!params.async,
+        })
+      );
+
+      if (replay) {
+        console.log(`Replaying batch for idempotency key ${idempotencyKey}`);
+        return replay;
+      }
+    }
+
+    const totalBN = items.reduce(
+      (sum, item) => sum.add(item.amountBN),
+      ethers.BigNumber.from(0)
+    );
+    let limits: ContractLimits | undefined;
+
+    try {
+      limits = await this.fetchContractLimits();
+
+      if (!limits.isActive) {
         throw new ServiceError(
           "Service is currently unavailable (contract is paused)",
           503
         );
       }
 
-      if (amountBN.gt(status.reserve)) {
-        throw new ServiceError("Insufficient reserve", 400);
+      const errors: string[] = [];
+
+      for (const item of items) {
+        try {
+          this.checkTransferAllowed(item.amountBN, limits);
+        } catch (error) {
+          errors.push(`Transfer ${item.index}: ${(error as Error).message}`);
+        }
       }
 
-      const transferId = generateTransferId();
+      if (totalBN.gt(limits.reserve)) {
+        errors.push(
+          `Batch total (${formatAmount(
+            totalBN
+          )} IDRX) exceeds reserve (${formatAmount(limits.reserve)} IDRX)`
+        );
+      }
 
-      console.log(`Executing meta-transaction for recipient ${recipient}`);
-      console.log(`Transfer ID: ${transferId}`);
-      console.log(`IDRX Amount: ${idrxAmount}`);
+      if (errors.length > 0) {
+        throw new ServiceError(errors.join("; "), 400);
+      }
 
-      const tx = await contract.transferIDRX(transferId, recipient, amountBN);
+      velocityLimitService.check(items);
+      operatorGasMonitorService.checkCanPay();
+    } catch (error) {
+      const serviceError = this.toServiceError(
+        error,
+        "Failed to execute batch transfer"
+      );
 
-      console.log(`Transaction submitted: ${tx.hash}`);
+      for (const item of items) {
+        transferStatusService.markRejected(
+          item.transferId,
+          item.recipient,
+          item.idrxAmount,
+          serviceError.message,
+          limits && this.toLimitSnapshot(limits)
+        );
+      }
+      if (idempotencyKey) {
+        idempotencyService.release(idempotencyKey);
+      }
+      throw serviceError;
+    }
 
-      const receipt = await tx.wait();
+    const snapshot = this.toLimitSnapshot(limits);
+    for (const item of items) {
+      transferStatusService.markQueued(
+        item.transferId,
+        item.recipient,
+        item.idrxAmount,
+        snapshot
+      );
+      if (item.screening) {
+        transferLedgerService.update(item.transferId, {
+          screening: item.screening,
+        });
+      }
+    }
 
-      console.log(`Transaction confirmed: ${receipt.transactionHash}`);
+    console.log(
+      `Executing batch of ${items.length} transfers (${formatAmount(
+        totalBN
+      )} IDRX)`
+    );
 
-      if (receipt.status !== 1) {
-        throw new ServiceError("Transaction failed", 500);
-      }
+    if (params.async) {
+      const response = this.summarizeBatch(
+        items.map((item) => ({
+          index: item.index,
+          success: true,
+          transferId: item.transferId,
+          status: "queued",
+          recipient: item.recipient,
+          amount: item.idrxAmount,
+        })),
+        totalBN
+      );
 
-      return {
-        success: true,
-        transferId: ethers.utils.hexlify(transferId),
-        recipient,
-        amount: idrxAmount,
-        transactionHash: receipt.transactionHash,
-      };
-    } catch (error) {
-      if (error instanceof ServiceError) {
-        throw error;
+      // Replays return the queued statuses, like an asynchronous transfer
+      if (idempotencyKey) {
+        idempotencyService.complete(idempotencyKey, response);
       }
 
-      console.error("Error executing meta-transaction:", error);
+      this.processBatch(items).catch((error) => {
+        console.error(`Asynchronous batch failed: ${error.message}`);
+      });
 
-      if (
-        (error as any).code === "UNPREDICTABLE_GAS_LIMIT" ||
-        (error as any).code === "CALL_EXCEPTION"
-      ) {
-        throw new ServiceError(
-          `Contract error: ${(error as any).reason || "Execution reverted"}`,
-          400
-        );
-      }
+      return response;
+    }
 
-      throw new ServiceError(
-        (error as any).message || "Failed to execute transfer",
-        500
+    if (idempotencyKey) {
+      idempotencyService.markBatchSubmitted(
+        idempotencyKey,
+        items.map((item) => item.transferId)
       );
     }
+
+    const response = this.summarizeBatch(
+      await this.processBatch(items),
+      totalBN
+    );
+
+    if (idempotencyKey) {
+      idempotencyService.complete(idempotencyKey, response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Resume transfers left unfinished by a restart. Submitted transfers are
+   * settled from their receipts; those still pending are watched again (and
+   * replaced if stuck) until they are mined or dropped. Queued transfers may
+   * not have been broadcast, so they are failed and their claims freed.
+   */
+  public async resume(): Promise<void> {
+    for (const entry of transferLedgerService.listUnfinished()) {
+      const { transferId } = entry;
+
+      try {
+        if (entry.status === "queued") {
+          const reason = "Interrupted by a restart before it was broadcast";
+          const claims = this.claimsOf(entry);
+
+          transferStatusService.markFailed(transferId, reason);
+          this.holdForRefund(transferId, claims, reason);
+          this.releaseClaims(claims);
+          continue;
+        }
+
+        const settled = await this.settleSubmitted(transferId);
+        if (settled?.status !== "submitted" || !settled.transactionHash) {
+          continue;
+        }
+
+        const tx = await getProvider().getTransaction(settled.transactionHash);
+        const operator = tx && getOperatorPool().get(tx.from);
+        if (operator) {
+          transactionWatchdogService.track(transferId, tx, operator.signer);
+        }
+        this.watchResumed(transferId);
+      } catch (error) {
+        console.error(
+          `Resuming transfer ${transferId} failed: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get lifecycle status of a transfer
+   * @param transferId Transfer ID returned by executeTransfer
+   * @returns Transfer status response
+   */
+  public async getTransferStatus(
+    transferId: string
+  ): Promise<TransferStatusResponse> {
+    return transferStatusService.getTransferStatus(transferId);
   }
 
   /**
@@ -124,12 +533,23 @@ export class MetaTransactionService {
       const status = await contract.getReserveStatus();
       const minAmount = await contract.minTransferAmount();
 
+      let operatorGas: OperatorGasReport | undefined;
+      try {
+        operatorGas = await operatorGasMonitorService.getReport();
+      } catch (error) {
+        console.warn(
+          "Operator gas report unavailable:",
+          (error as Error).message
+        );
+      }
+
       return {
         success: true,
         isActive: status.isActive,
         reserve: formatAmount(status.reserve),
         minTransferAmount: formatAmount(minAmount),
         maxTransferAmount: formatAmount(status.effectiveMaxAmount),
+        operatorGas,
       };
     } catch (error) {
       console.error("Error fetching service status:", error);
@@ -144,6 +564,1024 @@ export class MetaTransactionService {
       );
     }
   }
+
+  /**
+   * Run all checks of a transfer, then simulate transferIDRX with
+   * callStatic and estimateGas. Nothing is broadcast and no idempotency key,
+   * quote, deposit or intent nonce is consumed.
+   * @param params Request parameters
+   * @param requestedBN Requested IDRX amount in token units, if any
+   * @param deposit Deposit source, if any
+   * @returns Response with the would-be outcome in simulation
+   */
+  private async simulateTransfer(
+    params: MetaTransferRequest,
+    requestedBN: ethers.BigNumber | undefined,
+    deposit: DepositSource | undefined
+  ): Promise<MetaTransferResponse> {
+    const { recipient } = params;
+    const transferId = generateTransferId();
+    const payout: PayoutResolution = { idrxAmount: params.idrxAmount };
+    const simulation: TransferSimulationResult = { wouldSucceed: false };
+    let amountBN: ethers.BigNumber;
+    let limits: ContractLimits;
+
+    try {
+      screeningService.screen(recipient, "simulation");
+
+      const { quote } = await this.acquireClaims(
+        params,
+        transferId,
+        requestedBN,
+        deposit,
+        true
+      );
+
+      amountBN = await this.resolvePayout(
+        params,
+        requestedBN,
+        deposit,
+        quote,
+        payout
+      );
+
+      limits = await this.fetchContractLimits();
+      simulation.reserve = formatAmount(limits.reserve);
+      this.checkTransferAllowed(amountBN, limits);
+      velocityLimitService.check([{ recipient, amountBN }]);
+      operatorGasMonitorService.checkCanPay();
+    } catch (error) {
+      const serviceError = this.toServiceError(
+        error,
+        "Failed to simulate transfer"
+      );
+
+      // Server errors mean the outcome could not be determined
+      if (serviceError.statusCode === 500) {
+        throw serviceError;
+      }
+
+      return {
+        success: false,
+        simulated: true,
+        recipient,
+        amount: payout.idrxAmount,
+        error: serviceError.message,
+        simulation: {
+          ...simulation,
+          error: serviceError.message,
+          statusCode: serviceError.statusCode,
+        },
+      };
+    }
+
+    simulation.projectedReserve = formatAmount(limits.reserve.sub(amountBN));
+
+    try {
+      // Simulated as sent by an operator, since only operators may transfer
+      const contract = getOperatorPool().primary()?.contract;
+
+      if (!contract) {
+        throw new ServiceError(
+          "Service is currently unavailable (no active operator)",
+          503
+        );
+      }
+
+      await contract.callStatic.transferIDRX(transferId, recipient, amountBN);
+
+      const gasEstimate: ethers.BigNumber =
+        await contract.estimateGas.transferIDRX(
+          transferId,
+          recipient,
+          amountBN
+        );
+      const gasPrice = await getProvider().getGasPrice();
+
+      simulation.wouldSucceed = true;
+      simulation.gasEstimate = gasEstimate.toString();
+      simulation.gasPrice = gasPrice.toString();
+      simulation.estimatedFee = ethers.utils.formatEther(
+        gasEstimate.mul(gasPrice)
+      );
+    } catch (error) {
+      const { code, reason } = error as any;
+
+      if (code !== "CALL_EXCEPTION" && code !== "UNPREDICTABLE_GAS_LIMIT") {
+        throw this.toServiceError(error, "Failed to simulate transfer");
+      }
+
+      simulation.revertReason = reason || "Execution reverted";
+    }
+
+    return {
+      success: simulation.wouldSucceed,
+      simulated: true,
+      recipient,
+      amount: payout.idrxAmount,
+      error: simulation.revertReason,
+      simulation,
+    };
+  }
+
+  /**
+   * Take the single-use resources a transfer needs: reserve the quote,
+   * verify the signed intent (consuming its nonce) and claim the deposit.
+   * In dry-run mode the same checks run without taking anything.
+   * @param params Request parameters
+   * @param transferId Transfer ID
+   * @param requestedBN Requested IDRX amount in token units, if any
+   * @param deposit Deposit source, if any
+   * @param dryRun Check without reserving, consuming or claiming
+   * @returns Claims held by the transfer and the quote, if any
+   */
+  private async acquireClaims(
+    params: MetaTransferRequest,
+    transferId: string,
+    requestedBN: ethers.BigNumber | undefined,
+    deposit: DepositSource | undefined,
+    dryRun: boolean
+  ): Promise<{ claims: TransferClaims; quote?: Quote }> {
+    const claims: TransferClaims = {
+      idempotencyKey: dryRun ? undefined : params.idempotencyKey,
+    };
+    let quote: Quote | undefined;
+
+    try {
+      if (params.quoteId) {
+        if (dryRun) {
+          quote = quoteService.checkUsable(params.quoteId);
+        } else {
+          quote = quoteService.reserve(params.quoteId, transferId);
+          claims.quoteId = params.quoteId;
+        }
+      }
+      if (params.intent) {
+        await this.verifyIntent(params, requestedBN, quote, !dryRun);
+      }
+      if (deposit) {
+        if (dryRun) {
+          depositVerificationService.checkUnclaimed(deposit);
+        } else {
+          claims.depositKey = depositVerificationService.claim(
+            deposit,
+            transferId
+          );
+        }
+      }
+    } catch (error) {
+      this.releaseClaims(claims);
+      throw error;
+    }
+
+    return { claims, quote };
+  }
+
+  /**
+   * Work out the IDRX payout from the requested amount, quote and deposit.
+   * Progress is written to payout so failures can still be recorded.
+   * @param params Request parameters
+   * @param requestedBN Requested IDRX amount in token units, if any
+   * @param deposit Deposit source, if any
+   * @param quote Quote, if any
+   * @param payout Payout resolution, updated as the payout is resolved
+   * @param depositKey Registry key of the claimed deposit, if claimed
+   * @returns IDRX payout in token units
+   */
+  private async resolvePayout(
+    params: MetaTransferRequest,
+    requestedBN: ethers.BigNumber | undefined,
+    deposit: DepositSource | undefined,
+    quote: Quote | undefined,
+    payout: PayoutResolution,
+    depositKey?: string
+  ): Promise<ethers.BigNumber> {
+    if (quote) {
+      if (
+        quote.recipient &&
+        quote.recipient.toLowerCase() !== params.recipient.toLowerCase()
+      ) {
+        throw new ServiceError(
+          `Quote ${quote.quoteId} was issued for another recipient`,
+          400
+        );
+      }
+
+      if (requestedBN && !requestedBN.eq(parseAmount(quote.idrxAmount))) {
+        throw new ServiceError(
+          `IDRX amount does not match the quoted ${quote.idrxAmount} IDRX`,
+          400
+        );
+      }
+
+      payout.idrxAmount = quote.idrxAmount;
+    }
+
+    if (deposit) {
+      payout.depositInfo = { ...deposit };
+
+      const verified = await depositVerificationService.verify(deposit);
+      payout.depositInfo = {
+        ...payout.depositInfo,
+        sender: verified.sender,
+        amount: verified.amount,
+      };
+
+      // Deposits are public on-chain; only their sender may be paid out
+      if (verified.sender.toLowerCase() !== params.recipient.toLowerCase()) {
+        throw new ServiceError(
+          "Deposit was sent from another address than the recipient",
+          403,
+          "DEPOSIT_SENDER_MISMATCH"
+        );
+      }
+
+      if (quote) {
+        this.checkDepositCoversQuote(deposit, verified.amount, quote);
+      } else {
+        payout.idrxAmount = await depositVerificationService.calculatePayout(
+          deposit.token,
+          verified
+        );
+      }
+
+      if (depositKey) {
+        depositVerificationService.recordVerified(
+          depositKey,
+          verified,
+          payout.idrxAmount as string
+        );
+      }
+
+      console.log(
+        `Deposit ${deposit.depositTxHash} verified: ${verified.amount} ` +
+          `${deposit.token.toUpperCase()} on ${deposit.network} pays ` +
+          `${payout.idrxAmount} IDRX`
+      );
+    }
+
+    const amountBN = parseAmount(payout.idrxAmount as string);
+
+    if (deposit && !quote && requestedBN && amountBN.lt(requestedBN)) {
+      throw new ServiceError(
+        `Deposit pays out ${payout.idrxAmount} IDRX, below the requested ` +
+          `${params.idrxAmount} IDRX`,
+        409
+      );
+    }
+
+    return amountBN;
+  }
+
+  /**
+   * Extract the source-chain deposit from the request parameters
+   * @param params Request parameters
+   * @returns Deposit source, or undefined if the request has no deposit
+   */
+  private getDepositSource(
+    params: MetaTransferRequest
+  ): DepositSource | undefined {
+    const { network, depositTxHash, token } = params;
+
+    if (!depositTxHash) {
+      if (config.deposit.required) {
+        throw new ServiceError(
+          "A source-chain deposit (network, depositTxHash, token) is required",
+          400
+        );
+      }
+      return undefined;
+    }
+
+    if (!network || !token) {
+      throw new ServiceError(
+        "Network and token are required with depositTxHash",
+        400
+      );
+    }
+
+    return {
+      network: network.toLowerCase(),
+      depositTxHash,
+      token: token.toLowerCase(),
+      isTestnet: config.deposit.networkType === "testnet",
+    };
+  }
+
+  /**
+   * Verify the recipient's signed transfer intent and optionally consume its
+   * nonce.
+   * The signed amount is the requested IDRX amount, else the quoted amount,
+   * else zero (a deposit-only transfer pays whatever the deposit is worth).
+   * @param params Request parameters
+   * @param requestedBN Requested IDRX amount in token units, if any
+   * @param quote Reserved quote, if any
+   * @param consume Whether to consume the intent nonce
+   */
+  private async verifyIntent(
+    params: MetaTransferRequest,
+    requestedBN: ethers.BigNumber | undefined,
+    quote: Quote | undefined,
+    consume: boolean
+  ): Promise<void> {
+    const amount =
+      requestedBN ||
+      (quote ? parseAmount(quote.idrxAmount) : ethers.BigNumber.from(0));
+
+    const signer = await transferIntentService.verifyAndConsume(
+      {
+        recipient: params.recipient,
+        amount,
+        reference: transferIntentService.buildReference(
+          params.quoteId,
+          params.depositTxHash
+        ),
+      },
+      params.intent as TransferIntentSignature,
+      consume
+    );
+
+    console.log(
+      `Transfer intent verified for ${signer} (nonce ${params.intent?.nonce})`
+    );
+  }
+
+  /**
+   * Check that a verified deposit pays for a quote
+   * @param deposit Deposit source
+   * @param depositAmount Verified deposit amount
+   * @param quote Reserved quote
+   */
+  private checkDepositCoversQuote(
+    deposit: DepositSource,
+    depositAmount: string,
+    quote: Quote
+  ): void {
+    if (!quoteService.isQuotedToken(quote, deposit.token)) {
+      throw new ServiceError(
+        `Deposit token ${deposit.token.toUpperCase()} does not match the ` +
+          `quoted ${quote.token.toUpperCase()}`,
+        400
+      );
+    }
+
+    if (parseFloat(depositAmount) < quote.sourceAmount) {
+      throw new ServiceError(
+        `Deposit of ${depositAmount} ${deposit.token.toUpperCase()} is ` +
+          `below the quoted ${quote.sourceAmount}`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Read the current transfer limits, reserve and pause state from the contract
+   * @returns Contract limits
+   */
+  private async fetchContractLimits(): Promise<ContractLimits> {
+    const contract = getContract();
+
+    const minAmount = await contract.minTransferAmount();
+    const maxAmount = await contract.getEffectiveMaxTransferAmount();
+    const status = await contract.getReserveStatus();
+
+    return {
+      minAmount,
+      maxAmount,
+      reserve: status.reserve,
+      isActive: status.isActive,
+    };
+  }
+
+  /**
+   * Check the amount against contract limits, reserve and pause state
+   * @param amountBN IDRX amount in token units
+   * @param limits Contract limits to check against
+   */
+  private checkTransferAllowed(
+    amountBN: ethers.BigNumber,
+    limits: ContractLimits
+  ): void {
+    if (amountBN.lt(limits.minAmount)) {
+      throw new ServiceError(
+        `Amount below minimum (${formatAmount(limits.minAmount)} IDRX)`,
+        400
+      );
+    }
+
+    if (amountBN.gt(limits.maxAmount)) {
+      throw new ServiceError(
+        `Amount exceeds maximum (${formatAmount(limits.maxAmount)} IDRX)`,
+        400
+      );
+    }
+
+    if (!limits.isActive) {
+      throw new ServiceError(
+        "Service is currently unavailable (contract is paused)",
+        503
+      );
+    }
+
+    if (amountBN.gt(limits.reserve)) {
+      throw new ServiceError("Insufficient reserve", 400);
+    }
+  }
+
+  /**
+   * Format contract limits for the transfer ledger
+   * @param limits Contract limits
+   * @returns Limit snapshot with formatted IDRX amounts
+   */
+  private toLimitSnapshot(limits: ContractLimits): TransferLimitSnapshot {
+    return {
+      minTransferAmount: formatAmount(limits.minAmount),
+      maxTransferAmount: formatAmount(limits.maxAmount),
+      reserve: formatAmount(limits.reserve),
+    };
+  }
+
+  /**
+   * Convert a block list match into the ledger's screening flag
+   * @param entry Matching block list entry, if the recipient was flagged
+   * @returns Ledger screening flag or undefined
+   */
+  private toLedgerScreening(
+    entry: ScreeningEntry | undefined
+  ): TransferLedgerScreening | undefined {
+    return entry && { source: entry.source, reason: entry.reason };
+  }
+
+  /**
+   * Broadcast transferIDRX and wait for it to be mined
+   * @param transferId Transfer ID
+   * @param recipient Recipient address
+   * @param amountBN IDRX amount in token units
+   * @param idrxAmount IDRX amount as requested
+   * @param claims Idempotency key, deposit and quote held by the transfer
+   * @returns Transaction response
+   */
+  private async submitTransfer(
+    transferId: string,
+    recipient: string,
+    amountBN: ethers.BigNumber,
+    idrxAmount: string,
+    claims: TransferClaims = {}
+  ): Promise<MetaTransferResponse> {
+    let tx: ethers.providers.TransactionResponse;
+
+    try {
+      tx = await this.broadcastTransfer(
+        transferId,
+        recipient,
+        amountBN,
+        idrxAmount
+      );
+    } catch (error) {
+      const refund = this.holdForRefund(
+        transferId,
+        claims,
+        (error as Error).message
+      );
+      this.releaseClaims(claims);
+
+      if (refund && error instanceof Error) {
+        error.message += `; deposit held for refund ${refund.refundId}`;
+      }
+      throw error;
+    }
+
+    if (claims.idempotencyKey) {
+      idempotencyService.markSubmitted(
+        claims.idempotencyKey,
+        transferId,
+        tx.hash
+      );
+    }
+
+    // Once broadcast, the outcome is unknown until mined, so if waiting fails
+    // the transfer stays "submitted" and its claims stay held
+    const receipt = await this.confirmTransfer(transferId, tx);
+
+    if (receipt.status !== 1) {
+      const refund = this.holdForRefund(
+        transferId,
+        claims,
+        "Transaction reverted"
+      );
+      this.releaseClaims(claims);
+
+      throw new ServiceError(
+        refund
+          ? `Transaction failed; deposit held for refund ${refund.refundId}`
+          : "Transaction failed",
+        500
+      );
+    }
+
+    const response: MetaTransferResponse = {
+      success: true,
+      transferId: ethers.utils.hexlify(transferId),
+      status: "confirmed",
+      recipient,
+      amount: idrxAmount,
+      transactionHash: receipt.transactionHash,
+    };
+
+    if (claims.idempotencyKey) {
+      idempotencyService.complete(claims.idempotencyKey, response);
+    }
+    if (claims.depositKey) {
+      depositVerificationService.markPaid(
+        claims.depositKey,
+        receipt.transactionHash
+      );
+    }
+    if (claims.quoteId) {
+      quoteService.consume(claims.quoteId, receipt.transactionHash);
+    }
+
+    return response;
+  }
+
+  /**
+   * Resolve an idempotency key left "submitted" because the service stopped
+   * waiting for its transactions. Once every transfer of the key is settled
+   * on the chain, the key is completed (or released if nothing was paid).
+   * @param key Idempotency key
+   */
+  private async reconcileIdempotencyKey(key: string): Promise<void> {
+    const record = idempotencyService.get(key);
+
+    if (!record || record.status !== "submitted") {
+      return;
+    }
+
+    const transferIds =
+      record.transferIds || (record.transferId ? [record.transferId] : []);
+    const entries: TransferLedgerEntry[] = [];
+
+    try {
+      for (const transferId of transferIds) {
+        const entry = await this.settleSubmitted(transferId);
+        const settled =
+          entry?.status === "confirmed" || entry?.status === "failed";
+
+        if (!entry || !settled) {
+          return;
+        }
+        entries.push(entry);
+      }
+    } catch (error) {
+      console.warn(
+        `Could not reconcile idempotency key ${key}: ${
+          (error as Error).message
+        }`
+      );
+      return;
+    }
+
+    if (record.transferIds) {
+      idempotencyService.complete(
+        key,
+        this.summarizeBatch(
+          entries.map((entry, index) => ({
+            index,
+            success: entry.status === "confirmed",
+            transferId: entry.transferId,
+            status: entry.status,
+            recipient: entry.recipient,
+            amount: entry.idrxAmount,
+            transactionHash: entry.transactionHash,
+            error: entry.error,
+          })),
+          entries.reduce(
+            (sum, entry) => sum.add(parseAmount(entry.idrxAmount)),
+            ethers.BigNumber.from(0)
+          )
+        )
+      );
+    } else if (entries[0]?.status === "confirmed") {
+      idempotencyService.complete(key, {
+        success: true,
+        transferId: entries[0].transferId,
+        status: "confirmed",
+        recipient: entries[0].recipient,
+        amount: entries[0].idrxAmount,
+        transactionHash: entries[0].transactionHash,
+      });
+    } else {
+      idempotencyService.release(key);
+    }
+  }
+
+  /**
+   * Settle a transfer left "submitted" without a process waiting for it,
+   * from the receipt of its latest (or a replaced) transaction. A mined
+   * transfer uses up its deposit and quote; a reverted or dropped one frees
+   * them (or holds the deposit for a refund).
+   * @param transferId Transfer ID
+   * @returns Ledger entry after settling (still "submitted" while pending)
+   */
+  private async settleSubmitted(
+    transferId: string
+  ): Promise<TransferLedgerEntry | undefined> {
+    const entry = transferLedgerService.findEntry(transferId);
+
+    if (
+      !entry?.transactionHash ||
+      entry.status !== "submitted" ||
+      this.confirming.has(transferId)
+    ) {
+      return entry;
+    }
+
+    const claims = this.claimsOf(entry);
+    const provider = getProvider();
+    const hashes = [
+      entry.transactionHash,
+      ...(entry.replacedTransactionHashes || []),
+    ];
+
+    let receipt: ethers.providers.TransactionReceipt | null = null;
+    for (const hash of hashes) {
+      receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        break;
+      }
+    }
+
+    if (receipt && receipt.status === 1) {
+      transferStatusService.markConfirmed(transferId, receipt);
+      if (claims.depositKey) {
+        depositVerificationService.markPaid(
+          claims.depositKey,
+          receipt.transactionHash
+        );
+      }
+      if (claims.quoteId) {
+        quoteService.consume(claims.quoteId, receipt.transactionHash);
+      }
+    } else if (receipt) {
+      transferStatusService.markFailed(
+        transferId,
+        "Transaction failed",
+        receipt
+      );
+      this.holdForRefund(transferId, claims, "Transaction reverted");
+      this.releaseClaims(claims);
+    } else if (
+      Date.now() - entry.updatedAt > config.transferStatus.dropTimeoutMs &&
+      !(await provider.getTransaction(entry.transactionHash))
+    ) {
+      const reason = "Transaction was dropped without being mined";
+      transferStatusService.markFailed(transferId, reason);
+      this.holdForRefund(transferId, claims, reason);
+      this.releaseClaims(claims);
+    }
+
+    return transferLedgerService.findEntry(transferId);
+  }
+
+  /**
+   * Rebuild the deposit and quote claims of a transfer from its ledger entry
+   * @param entry Ledger entry
+   * @returns Claims held by the transfer (without its idempotency key)
+   */
+  private claimsOf(entry: TransferLedgerEntry): TransferClaims {
+    return {
+      depositKey:
+        entry.deposit && depositVerificationService.depositKey(entry.deposit),
+      quoteId: entry.quoteId,
+    };
+  }
+
+  /**
+   * Check a resumed transfer again every watchdog interval until it is
+   * settled, so its claims are finished once it is mined or dropped
+   * @param transferId Transfer ID
+   */
+  private watchResumed(transferId: string): void {
+    const schedule = () =>
+      setTimeout(check, config.watchdog.intervalMs).unref();
+
+    const check = async () => {
+      try {
+        const entry = await this.settleSubmitted(transferId);
+        if (entry?.status === "submitted") {
+          schedule();
+          return;
+        }
+      } catch (error) {
+        console.warn(
+          `Could not check transfer ${transferId}: ${(error as Error).message}`
+        );
+        schedule();
+        return;
+      }
+
+      transactionWatchdogService.untrack(transferId);
+    };
+
+    schedule();
+  }
+
+  /**
+   * Hold the deposit of a failed payout for a refund. The deposit claim is
+   * handed over to the refund, so it is not released with the other claims.
+   * @param transferId Failed transfer
+   * @param claims Claims held by the transfer
+   * @param reason Why the payout failed
+   * @returns Refund awaiting approval, or undefined without a deposit
+   */
+  private holdForRefund(
+    transferId: string,
+    claims: TransferClaims,
+    reason: string
+  ): RefundRecord | undefined {
+    if (!claims.depositKey) {
+      return undefined;
+    }
+
+    const refund = refundService.recordFailedPayout(
+      transferId,
+      claims.depositKey,
+      reason
+    );
+
+    if (refund) {
+      claims.depositKey = undefined;
+    }
+
+    return refund;
+  }
+
+  /**
+   * Release the claims of a transfer that was not paid, so the idempotency
+   * key, deposit and quote can be used again
+   * @param claims Claims held by the transfer
+   */
+  private releaseClaims(claims: TransferClaims): void {
+    if (claims.idempotencyKey) {
+      idempotencyService.release(claims.idempotencyKey);
+    }
+    if (claims.depositKey) {
+      depositVerificationService.release(claims.depositKey);
+    }
+    if (claims.quoteId) {
+      quoteService.release(claims.quoteId);
+    }
+  }
+
+  /**
+   * Broadcast transferIDRX with a managed nonce and start watching it
+   * @param transferId Transfer ID
+   * @param recipient Recipient address
+   * @param amountBN IDRX amount in token units
+   * @param idrxAmount IDRX amount as requested
+   * @returns Broadcast transaction
+   */
+  private async broadcastTransfer(
+    transferId: string,
+    recipient: string,
+    amountBN: ethers.BigNumber,
+    idrxAmount: string
+  ): Promise<ethers.providers.TransactionResponse> {
+    try {
+      console.log(`Executing meta-transaction for recipient ${recipient}`);
+      console.log(`Transfer ID: ${transferId}`);
+      console.log(`IDRX Amount: ${idrxAmount}`);
+
+      const { tx, signer } = await getOperatorPool().withOperator(
+        async (operator) => ({
+          tx: (await operator.nonceManager.sendWithNonce((nonce) =>
+            operator.contract.transferIDRX(transferId, recipient, amountBN, {
+              nonce,
+            })
+          )) as ethers.providers.TransactionResponse,
+          signer: operator.signer,
+        }),
+        (operator) => operatorGasMonitorService.canPay(operator)
+      );
+
+      console.log(
+        `Transaction submitted: ${tx.hash} (operator ${tx.from}, nonce ${tx.nonce})`
+      );
+
+      transferStatusService.markSubmitted(transferId, tx.hash);
+      transactionWatchdogService.track(transferId, tx, signer);
+
+      return tx;
+    } catch (error) {
+      const serviceError = this.toServiceError(
+        error,
+        "Failed to execute transfer"
+      );
+      transferStatusService.markFailed(transferId, serviceError.message);
+      throw serviceError;
+    }
+  }
+
+  /**
+   * Wait for a broadcast transfer to be mined and record the outcome
+   * @param transferId Transfer ID
+   * @param tx Broadcast transaction
+   * @returns Receipt of the mined transaction (status 0 if it reverted)
+   */
+  private async confirmTransfer(
+    transferId: string,
+    tx: ethers.providers.TransactionResponse
+  ): Promise<ethers.providers.TransactionReceipt> {
+    let receipt: ethers.providers.TransactionReceipt;
+
+    this.confirming.add(transferId);
+    try {
+      receipt = await this.waitForReceipt(tx);
+    } catch (error) {
+      throw this.toServiceError(error, "Failed to confirm transfer");
+    } finally {
+      this.confirming.delete(transferId);
+      transactionWatchdogService.untrack(transferId);
+      getOperatorPool().complete(tx.from, tx.nonce);
+    }
+
+    console.log(`Transaction confirmed: ${receipt.transactionHash}`);
+
+    if (receipt.status !== 1) {
+      transferStatusService.markFailed(
+        transferId,
+        "Transaction failed",
+        receipt
+      );
+    } else {
+      transferStatusService.markConfirmed(transferId, receipt);
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Broadcast batch items one by one (so each operator's nonces follow batch
+   * order), then wait for all of them to be mined
+   * @param items Validated batch items
+   * @returns Per-item results in batch order
+   */
+  private async processBatch(
+    items: PreparedBatchItem[]
+  ): Promise<BatchTransferItemResult[]> {
+    const broadcasts: Array<{
+      item: PreparedBatchItem;
+      tx?: ethers.providers.TransactionResponse;
+      error?: string;
+    }> = [];
+
+    for (const item of items) {
+      try {
+        const tx = await this.broadcastTransfer(
+          item.transferId,
+          item.recipient,
+          item.amountBN,
+          item.idrxAmount
+        );
+        broadcasts.push({ item, tx });
+      } catch (error) {
+        broadcasts.push({ item, error: (error as Error).message });
+      }
+    }
+
+    return Promise.all(
+      broadcasts.map(async ({ item, tx, error }) => {
+        const result = {
+          index: item.index,
+          transferId: item.transferId,
+          recipient: item.recipient,
+          amount: item.idrxAmount,
+        };
+
+        if (!tx) {
+          return {
+            ...result,
+            success: false,
+            status: "failed" as const,
+            error,
+          };
+        }
+
+        try {
+          const receipt = await this.confirmTransfer(item.transferId, tx);
+
+          if (receipt.status !== 1) {
+            return {
+              ...result,
+              success: false,
+              status: "failed" as const,
+              transactionHash: receipt.transactionHash,
+              error: "Transaction failed",
+            };
+          }
+
+          return {
+            ...result,
+            success: true,
+            status: "confirmed" as const,
+            transactionHash: receipt.transactionHash,
+          };
+        } catch (confirmError) {
+          return {
+            ...result,
+            success: false,
+            status: "submitted" as const,
+            transactionHash: tx.hash,
+            error: (confirmError as Error).message,
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Build the batch response from per-item results
+   * @param results Per-item results
+   * @param totalBN Total IDRX amount of the batch
+   * @returns Batch response
+   */
+  private summarizeBatch(
+    results: BatchTransferItemResult[],
+    totalBN: ethers.BigNumber
+  ): BatchTransferResponse {
+    const succeeded = results.filter((result) => result.success).length;
+
+    return {
+      success: succeeded === results.length,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      totalAmount: formatAmount(totalBN),
+      results,
+    };
+  }
+
+  /**
+   * Wait for a transaction to be mined, returning the receipt even on revert.
+   * If the watchdog replaced the transaction with a repriced copy, the
+   * receipt of the mined replacement is returned.
+   * @param tx Submitted transaction
+   * @returns Transaction receipt
+   */
+  private async waitForReceipt(
+    tx: ethers.providers.TransactionResponse
+  ): Promise<ethers.providers.TransactionReceipt> {
+    try {
+      return await tx.wait();
+    } catch (error) {
+      const { code, receipt, cancelled } = error as any;
+
+      if (code === "CALL_EXCEPTION" && receipt) {
+        return receipt;
+      }
+
+      if (code === "TRANSACTION_REPLACED") {
+        if (!cancelled && receipt) {
+          return receipt;
+        }
+        throw new ServiceError(
+          "Transaction was replaced by an unrelated transaction",
+          500
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Map an error thrown while executing a transfer to a ServiceError
+   * @param error Caught error
+   * @param fallbackMessage Message used when the error has none
+   * @returns ServiceError to surface to the client
+   */
+  private toServiceError(
+    error: unknown,
+    fallbackMessage: string
+  ): ServiceError {
+    if (error instanceof ServiceError) {
+      return error;
+    }
+
+    console.error("Error executing meta-transaction:", error);
+
+    if (
+      (error as any).code === "UNPREDICTABLE_GAS_LIMIT" ||
+      (error as any).code === "CALL_EXCEPTION"
+    ) {
+      return new ServiceError(
+        `Contract error: ${(error as any).reason || "Execution reverted"}`,
+        400
+      );
+    }
+
+    return new ServiceError((error as any).message || fallbackMessage, 500);
+  }
 }
 
 export default new MetaTransactionService();
@@ -0,0 +1,262 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import {
+  OperatorGasBalance,
+  OperatorGasReport,
+  ServiceError,
+} from "../types";
+import { getOperatorPool, getProvider } from "../utils/blockchain";
+import { OperatorGasStatus, serviceEvents } from "../utils/events";
+import { Operator } from "../utils/operatorPool";
+import transferLedgerService from "./transferLedgerService";
+
+/**
+ * Service tracking how many more transfers each operator wallet can pay gas
+ * for, from its native balance and the gas used by recent transfers at the
+ * current gas price.
+ *
+ * Operators below OPERATOR_GAS_ALERT_TRANSFERS are "low" and those below
+ * OPERATOR_GAS_REJECT_TRANSFERS (or unable to pay for one transfer) are
+ * "critical". Status changes are logged and published as
+ * "operator.gas_status_changed". Transfers are sent from operators that are
+ * not critical where possible, and when OPERATOR_GAS_REJECT_TRANSFERS is set
+ * new transfers are rejected while every active operator is critical.
+ */
+export class OperatorGasMonitorService {
+  private report?: OperatorGasReport;
+  private statuses = new Map<string, OperatorGasStatus>();
+  private timer?: NodeJS.Timeout;
+  private checking?: Promise<OperatorGasReport>;
+
+  /**
+   * Start the periodic balance check
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => this.refresh().catch(() => undefined),
+      config.operatorGas.intervalMs
+    );
+    this.timer.unref();
+
+    this.refresh().catch(() => undefined);
+  }
+
+  /**
+   * Stop the periodic check
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get the latest gas report, checking balances if none is available yet
+   * @returns Gas funding of the operator pool
+   */
+  public async getReport(): Promise<OperatorGasReport> {
+    return this.report || this.refresh();
+  }
+
+  /**
+   * Check operator balances now. Concurrent calls share one check.
+   * @returns Gas funding of the operator pool
+   */
+  public refresh(): Promise<OperatorGasReport> {
+    if (!this.checking) {
+      this.checking = this.check().finally(() => {
+        this.checking = undefined;
+      });
+    }
+
+    return this.checking;
+  }
+
+  /**
+   * Whether an operator is preferred for sending transfers
+   * @param operator Operator
+   * @returns false only for operators last seen as critical
+   */
+  public canPay(operator: Operator): boolean {
+    return this.statuses.get(operator.address.toLowerCase()) !== "critical";
+  }
+
+  /**
+   * Reject new transfers while no active operator can pay for gas, if
+   * OPERATOR_GAS_REJECT_TRANSFERS is set
+   */
+  public checkCanPay(): void {
+    if (!config.operatorGas.rejectBelowTransfers || !this.report) {
+      return;
+    }
+
+    const active = getOperatorPool()
+      .list()
+      .filter((op) => op.status === "active");
+
+    if (active.length > 0 && !active.some((op) => this.canPay(op))) {
+      throw new ServiceError(
+        "Service is currently unavailable (operator gas balance too low)",
+        503,
+        "OPERATOR_GAS_LOW"
+      );
+    }
+  }
+
+  /**
+   * Read operator balances and the gas price, and publish status changes
+   * @returns Gas funding of the operator pool
+   */
+  private async check(): Promise<OperatorGasReport> {
+    const provider = getProvider();
+    const { alertBelowTransfers, rejectBelowTransfers } = config.operatorGas;
+
+    try {
+      const samples = transferLedgerService.listRecentReceipts(
+        config.operatorGas.sampleSize
+      );
+      const averageGasUsed =
+        samples.length > 0
+          ? samples
+              .reduce(
+                (sum, entry) => sum.add(entry.gasUsed as string),
+                ethers.BigNumber.from(0)
+              )
+              .div(samples.length)
+          : ethers.BigNumber.from(config.operatorGas.fallbackGasLimit);
+
+      const gasPrice = await provider.getGasPrice();
+      const costPerTransfer = averageGasUsed.mul(gasPrice);
+
+      const operators: OperatorGasBalance[] = [];
+
+      for (const operator of getOperatorPool().list()) {
+        if (operator.status === "retired") {
+          continue;
+        }
+
+        operators.push(
+          await this.checkOperator(operator.address, costPerTransfer)
+        );
+      }
+
+      this.report = {
+        gasPriceGwei: ethers.utils.formatUnits(gasPrice, "gwei"),
+        averageGasUsed: averageGasUsed.toString(),
+        sampleSize: samples.length,
+        estimatedCostPerTransfer: ethers.utils.formatEther(costPerTransfer),
+        alertBelowTransfers,
+        rejectBelowTransfers,
+        operators,
+        checkedAt: Date.now(),
+      };
+
+      return this.report;
+    } catch (error) {
+      console.error(
+        "Operator gas balance check failed:",
+        (error as Error).message
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Check the balance of one operator and publish a change of its status
+   * @param address Operator address
+   * @param costPerTransfer Estimated gas cost of one transfer in wei
+   * @returns Gas funding of the operator
+   */
+  private async checkOperator(
+    address: string,
+    costPerTransfer: ethers.BigNumber
+  ): Promise<OperatorGasBalance> {
+    const key = address.toLowerCase();
+    const previousStatus = this.statuses.get(key);
+
+    let balanceBN: ethers.BigNumber;
+    try {
+      balanceBN = await getProvider().getBalance(address);
+    } catch (error) {
+      // Keep the last known status rather than guessing
+      return {
+        address,
+        status: previousStatus || "ok",
+        balance: null,
+        estimatedTransfersRemaining: null,
+        checkedAt: Date.now(),
+        error: (error as Error).message,
+      };
+    }
+
+    const remainingBN = costPerTransfer.isZero()
+      ? ethers.constants.MaxUint256
+      : balanceBN.div(costPerTransfer);
+    // BigNumber refuses numbers from MAX_SAFE_INTEGER up, so compare strings
+    const estimatedTransfersRemaining = remainingBN.gt(
+      Number.MAX_SAFE_INTEGER.toString()
+    )
+      ? Number.MAX_SAFE_INTEGER
+      : remainingBN.toNumber();
+
+    const status = this.classify(estimatedTransfersRemaining);
+    const balance = ethers.utils.formatEther(balanceBN);
+
+    this.statuses.set(key, status);
+
+    if (status !== previousStatus && (previousStatus || status !== "ok")) {
+      const message =
+        `Operator ${address} gas status ${previousStatus || "unknown"} -> ` +
+        `${status}: ${balance} ETH, about ${estimatedTransfersRemaining} ` +
+        "transfers left";
+
+      if (status === "ok") {
+        console.log(message);
+      } else {
+        console.warn(message);
+      }
+
+      serviceEvents.emit("operator.gas_status_changed", {
+        address,
+        previousStatus,
+        status,
+        balance,
+        estimatedTransfersRemaining,
+      });
+    }
+
+    return {
+      address,
+      status,
+      balance,
+      estimatedTransfersRemaining,
+      checkedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Classify the number of transfers an operator can still pay for
+   * @param transfersRemaining Estimated transfers remaining
+   * @returns Gas status
+   */
+  private classify(transfersRemaining: number): OperatorGasStatus {
+    const { alertBelowTransfers, rejectBelowTransfers } = config.operatorGas;
+
+    if (transfersRemaining < Math.max(rejectBelowTransfers, 1)) {
+      return "critical";
+    }
+
+    if (transfersRemaining < alertBelowTransfers) {
+      return "low";
+    }
+
+    return "ok";
+  }
+}
+
+export default new OperatorGasMonitorService();
@@ -0,0 +1,272 @@
+import { ethers } from "ethers";
+import { ServiceError } from "../types";
+import { getOperatorPool, getProvider } from "../utils/blockchain";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { Operator, OperatorStatus } from "../utils/operatorPool";
+import { createSignerProvider } from "../utils/signerProvider";
+
+/**
+ * Interface for an operator as reported by the admin API
+ */
+export interface OperatorSummary {
+  address: string;
+  status: OperatorStatus;
+  primary: boolean;
+  pendingCount: number;
+  balance: string | null;
+  addedAt: string;
+}
+
+/**
+ * Interface for a stored operator status. Private keys are never stored.
+ */
+interface OperatorRecord {
+  address: string;
+  status: OperatorStatus;
+  updatedAt: number;
+}
+
+/**
+ * Service managing the operator key pool at runtime: adding keys, draining
+ * them out of rotation and retiring them once their transactions are mined
+ */
+export class OperatorService {
+  private store: JsonFileStore<OperatorRecord>;
+
+  constructor() {
+    this.store = new JsonFileStore<OperatorRecord>("operators");
+  }
+
+  /**
+   * Apply stored statuses to the operators loaded from the environment, so
+   * drained and retired keys stay out of rotation after a restart
+   */
+  public restore(): void {
+    const pool = getOperatorPool();
+
+    for (const record of this.store.values()) {
+      const operator = pool.get(record.address);
+
+      if (operator) {
+        operator.status = record.status;
+      }
+    }
+
+    if (!pool.list().some((operator) => operator.status === "active")) {
+      console.warn("No active operator: transfers will be rejected");
+    }
+  }
+
+  /**
+   * Resync the nonces of all operators still in rotation with the chain
+   */
+  public async syncNonces(): Promise<void> {
+    const operators = getOperatorPool()
+      .list()
+      .filter((operator) => operator.status !== "retired");
+
+    for (const operator of operators) {
+      await this.syncNonce(operator);
+    }
+  }
+
+  /**
+   * List all operators with their load and native balance
+   * @returns Operator summaries
+   */
+  public async listOperators(): Promise<OperatorSummary[]> {
+    return Promise.all(
+      getOperatorPool()
+        .list()
+        .map((operator) => this.toSummary(operator))
+    );
+  }
+
+  /**
+   * Add an operator to the rotation without a restart. The signer is loaded
+   * from the configured signer provider, so keys never pass through the API.
+   * @param address Operator address
+   * @returns Added operator
+   */
+  public async addOperator(address: string): Promise<OperatorSummary> {
+    const signerProvider = createSignerProvider();
+    const signer = await signerProvider.findSigner(getProvider(), address);
+
+    if (!signer) {
+      throw new ServiceError(
+        `The ${signerProvider.type} signer provider has no key for ${address}`,
+        404
+      );
+    }
+
+    const operator = await getOperatorPool().addSigner(signer);
+
+    await this.syncNonce(operator);
+    this.save(operator.address, "active");
+
+    console.log(`Operator ${operator.address} added to the pool`);
+
+    return this.toSummary(operator);
+  }
+
+  /**
+   * Take an operator out of rotation. Its in-flight transactions are still
+   * confirmed and watched.
+   * @param address Operator address
+   * @returns Updated operator
+   */
+  public async drainOperator(address: string): Promise<OperatorSummary> {
+    const pool = getOperatorPool();
+    const operator = this.getOperator(address);
+
+    if (operator.status !== "active") {
+      throw new ServiceError(`Operator ${address} is not active`, 409);
+    }
+
+    const activeCount = pool
+      .list()
+      .filter((op) => op.status === "active").length;
+
+    if (activeCount === 1) {
+      throw new ServiceError("Cannot drain the last active operator", 409);
+    }
+
+    pool.setStatus(address, "draining");
+    this.save(operator.address, "draining");
+
+    console.log(
+      `Operator ${operator.address} draining (${operator.nonceManager.pendingCount} pending)`
+    );
+
+    return this.toSummary(operator);
+  }
+
+  /**
+   * Put a draining or retired operator back into rotation
+   * @param address Operator address
+   * @returns Updated operator
+   */
+  public async activateOperator(address: string): Promise<OperatorSummary> {
+    const operator = this.getOperator(address);
+
+    if (operator.status === "active") {
+      throw new ServiceError(`Operator ${address} is already active`, 409);
+    }
+
+    if (operator.status === "retired") {
+      await this.syncNonce(operator);
+    }
+
+    getOperatorPool().setStatus(address, "active");
+    this.save(operator.address, "active");
+
+    console.log(`Operator ${operator.address} activated`);
+
+    return this.toSummary(operator);
+  }
+
+  /**
+   * Retire a drained operator once it has no transactions in flight
+   * @param address Operator address
+   * @returns Updated operator
+   */
+  public async retireOperator(address: string): Promise<OperatorSummary> {
+    const operator = this.getOperator(address);
+
+    if (operator.status !== "draining") {
+      throw new ServiceError(
+        `Operator ${address} must be drained before it is retired`,
+        409
+      );
+    }
+
+    const pending = operator.nonceManager.pendingCount + operator.leases;
+    if (pending > 0) {
+      throw new ServiceError(
+        `Operator ${address} still has ${pending} pending transactions`,
+        409
+      );
+    }
+
+    getOperatorPool().setStatus(address, "retired");
+    this.save(operator.address, "retired");
+
+    console.log(`Operator ${operator.address} retired`);
+
+    return this.toSummary(operator);
+  }
+
+  /**
+   * Get an operator from the pool
+   * @param address Operator address
+   * @returns Operator
+   */
+  private getOperator(address: string): Operator {
+    const operator = getOperatorPool().get(address);
+
+    if (!operator) {
+      throw new ServiceError(`Operator not found: ${address}`, 404);
+    }
+
+    return operator;
+  }
+
+  /**
+   * Resync an operator's nonce, falling back to a resync on first use
+   * @param operator Operator
+   */
+  private async syncNonce(operator: Operator): Promise<void> {
+    try {
+      const nextNonce = await operator.nonceManager.sync();
+      console.log(
+        `Operator ${operator.address} nonce synced with chain (next nonce ${nextNonce})`
+      );
+    } catch (error) {
+      console.warn(
+        `Could not sync nonce of operator ${operator.address}, will retry on first transfer:`,
+        (error as Error).message
+      );
+    }
+  }
+
+  /**
+   * Store the status of an operator
+   * @param address Operator address
+   * @param status Operator status
+   */
+  private save(address: string, status: OperatorStatus): void {
+    this.store.set(address.toLowerCase(), {
+      address,
+      status,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Build the admin view of an operator
+   * @param operator Operator
+   * @returns Operator summary
+   */
+  private async toSummary(operator: Operator): Promise<OperatorSummary> {
+    let balance: string | null = null;
+    try {
+      balance = ethers.utils.formatEther(await operator.signer.getBalance());
+    } catch (error) {
+      console.warn(
+        `Could not fetch balance of operator ${operator.address}:`,
+        (error as Error).message
+      );
+    }
+
+    return {
+      address: operator.address,
+      status: operator.status,
+      primary: operator === getOperatorPool().primary(),
+      pendingCount: operator.nonceManager.pendingCount,
+      balance,
+      addedAt: new Date(operator.addedAt).toISOString(),
+    };
+  }
+}
+
+export default new OperatorService();
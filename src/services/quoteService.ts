@@ -0,0 +1,238 @@
+import crypto from "crypto";
+import config from "../config/config";
+import { normalizeTokenId } from "../constants/tokens";
+import { ServiceError } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import tokenFeeService, { FeeCalculationResult } from "./tokenFeeService";
+
+/**
+ * Interface for quote creation parameters. Exactly one of amount (source
+ * token amount) and idrxAmount (desired IDRX amount) must be set.
+ */
+export interface CreateQuoteParams {
+  token: string;
+  amount?: number;
+  idrxAmount?: number;
+  customSpreadFee?: number;
+  recipient?: string;
+}
+
+/**
+ * Interface for a locked quote
+ */
+export interface Quote {
+  quoteId: string;
+  token: string;
+  sourceAmount: number;
+  idrxAmount: string;
+  fees: FeeCalculationResult;
+  recipient?: string;
+  status: "open" | "reserved" | "consumed";
+  transferId?: string;
+  transactionHash?: string;
+  expiresAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Service locking token price and fee calculations under a quote ID so a
+ * meta-transfer pays exactly the quoted IDRX amount
+ */
+export class QuoteService {
+  private store: JsonFileStore<Quote>;
+
+  constructor() {
+    this.store = new JsonFileStore<Quote>("quotes");
+  }
+
+  /**
+   * Calculate fees and lock the result for the quote TTL
+   * @param params Quote parameters
+   * @returns Locked quote
+   */
+  public async createQuote(params: CreateQuoteParams): Promise<Quote> {
+    const { token, amount, idrxAmount, customSpreadFee, recipient } = params;
+
+    if ((amount === undefined) === (idrxAmount === undefined)) {
+      throw new ServiceError(
+        "Exactly one of amount and idrxAmount is required",
+        400
+      );
+    }
+
+    let sourceAmount: number;
+    let quotedIdrx: number;
+    let fees: FeeCalculationResult;
+
+    if (amount !== undefined) {
+      const result = await tokenFeeService.calculateIdrxAmount(
+        token,
+        amount,
+        customSpreadFee
+      );
+      sourceAmount = amount;
+      quotedIdrx = result.idrxAmount;
+      fees = result.feeCalculation;
+    } else {
+      const result = await tokenFeeService.calculateSourceAmount(
+        token,
+        idrxAmount as number,
+        customSpreadFee
+      );
+      sourceAmount = result.sourceAmount;
+      quotedIdrx = idrxAmount as number;
+      fees = result.feeCalculation;
+    }
+
+    // IDRX has 2 decimals; never quote more than the calculation gives
+    const payout = Math.floor(quotedIdrx * 100) / 100;
+
+    if (payout <= 0) {
+      throw new ServiceError("Quoted IDRX amount must be greater than 0", 400);
+    }
+
+    this.pruneFinished();
+
+    const now = Date.now();
+    const quote: Quote = {
+      quoteId: `q_${crypto.randomBytes(16).toString("hex")}`,
+      token: token.toLowerCase(),
+      sourceAmount,
+      idrxAmount: payout.toFixed(2),
+      fees,
+      recipient,
+      status: "open",
+      expiresAt: now + config.quotes.ttlMs,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.set(quote.quoteId, quote);
+
+    return quote;
+  }
+
+  /**
+   * Get a quote
+   * @param quoteId Quote ID
+   * @returns Quote
+   */
+  public getQuote(quoteId: string): Quote {
+    const quote = this.store.get(quoteId);
+
+    if (!quote) {
+      throw new ServiceError(`Quote not found: ${quoteId}`, 404);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Reserve an open, unexpired quote for a transfer so it cannot be used by
+   * another request
+   * @param quoteId Quote ID
+   * @param transferId Transfer paying the quote
+   * @returns Reserved quote
+   */
+  public reserve(quoteId: string, transferId: string): Quote {
+    this.checkUsable(quoteId);
+
+    return this.update(quoteId, { status: "reserved", transferId });
+  }
+
+  /**
+   * Check that a quote is open and unexpired without reserving it
+   * @param quoteId Quote ID
+   * @returns Quote
+   */
+  public checkUsable(quoteId: string): Quote {
+    const quote = this.getQuote(quoteId);
+
+    if (quote.status === "consumed") {
+      throw new ServiceError(
+        `Quote ${quoteId} has already been used (transfer ${quote.transferId})`,
+        409
+      );
+    }
+
+    if (quote.status === "reserved") {
+      throw new ServiceError(
+        `Quote ${quoteId} is already being used by another transfer`,
+        409
+      );
+    }
+
+    if (quote.expiresAt <= Date.now()) {
+      throw new ServiceError(`Quote ${quoteId} has expired`, 410);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Mark a reserved quote as used once its transfer was paid
+   * @param quoteId Quote ID
+   * @param transactionHash Hash of the IDRX payout transaction
+   */
+  public consume(quoteId: string, transactionHash: string): void {
+    this.update(quoteId, { status: "consumed", transactionHash });
+  }
+
+  /**
+   * Return a reserved quote whose transfer was never paid. The quote can be
+   * used again until it expires.
+   * @param quoteId Quote ID
+   */
+  public release(quoteId: string): void {
+    const quote = this.store.get(quoteId);
+
+    if (quote && quote.status === "reserved") {
+      this.update(quoteId, { status: "open", transferId: undefined });
+    }
+  }
+
+  /**
+   * Check that a token symbol refers to the quoted token
+   * @param quote Quote
+   * @param token Token symbol to compare
+   * @returns true if both refer to the same token
+   */
+  public isQuotedToken(quote: Quote, token: string): boolean {
+    return normalizeTokenId(quote.token) === normalizeTokenId(token);
+  }
+
+  /**
+   * Drop quotes that were used or expired longer ago than the retention
+   * period. Reserved quotes are kept until their transfer is resolved.
+   */
+  private pruneFinished(): void {
+    const cutoff = Date.now() - config.quotes.retentionMs;
+
+    for (const quote of this.store.values()) {
+      if (
+        (quote.status === "consumed" && quote.updatedAt < cutoff) ||
+        (quote.status === "open" && quote.expiresAt < cutoff)
+      ) {
+        this.store.delete(quote.quoteId);
+      }
+    }
+  }
+
+  /**
+   * Apply changes to a quote
+   * @param quoteId Quote ID
+   * @param changes Fields to update
+   * @returns Updated quote
+   */
+  private update(quoteId: string, changes: Partial<Quote>): Quote {
+    const quote = this.getQuote(quoteId);
+    const updated = { ...quote, ...changes, updatedAt: Date.now() };
+
+    this.store.set(quoteId, updated);
+
+    return updated;
+  }
+}
+
+export default new QuoteService();
@@ -0,0 +1,139 @@
+import config from "../config/config";
+
+// Expired windows are pruned at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Named request budgets. "default" covers every API route; the others are
+ * spent in addition on the routes they protect.
+ */
+export type RateLimitBudget = "default" | "pricing" | "transfer";
+
+/**
+ * Interface for a client's request count in the current window
+ */
+export interface RateLimitHit {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Storage backend for rate limit counters. Implementations shared by several
+ * instances (e.g. Redis INCR with PEXPIRE) make the budgets global.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a request, starting a new window if the current one has ended
+   * @param key Budget and client key
+   * @param windowMs Window length in milliseconds
+   * @returns Requests counted in the window, including this one
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Rate limit store kept in process memory, so budgets apply per instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+  private lastPrunedAt = 0;
+
+  public async increment(
+    key: string,
+    windowMs: number
+  ): Promise<RateLimitHit> {
+    const now = Date.now();
+
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      for (const [seen, hit] of this.hits) {
+        if (hit.resetAt <= now) {
+          this.hits.delete(seen);
+        }
+      }
+      this.lastPrunedAt = now;
+    }
+
+    const current = this.hits.get(key);
+    const hit =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+
+    this.hits.set(key, hit);
+    return hit;
+  }
+}
+
+/**
+ * Interface for the outcome of spending one request from a budget
+ */
+export interface RateLimitResult {
+  budget: RateLimitBudget;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  windowMs: number;
+  allowed: boolean;
+}
+
+/**
+ * Service counting requests per client against fixed-window budgets
+ */
+export class RateLimitService {
+  private store: RateLimitStore;
+
+  constructor(store?: RateLimitStore) {
+    this.store = store || new MemoryRateLimitStore();
+  }
+
+  /**
+   * Replace the counter store, e.g. with a shared one for multi-instance
+   * deployments. Call before the server starts accepting requests.
+   * @param store Rate limit store
+   */
+  public setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Spend one request from a client's budget
+   * @param budget Budget name
+   * @param client Client key (API key ID or IP address)
+   * @returns Outcome, or undefined if the budget is disabled or the store
+   * failed (requests are let through rather than rejected)
+   */
+  public async consume(
+    budget: RateLimitBudget,
+    client: string
+  ): Promise<RateLimitResult | undefined> {
+    const limit = config.rateLimit.budgets[budget];
+    const { windowMs } = config.rateLimit;
+
+    if (!limit || limit <= 0) {
+      return undefined;
+    }
+
+    let hit: RateLimitHit;
+    try {
+      hit = await this.store.increment(`${budget}:${client}`, windowMs);
+    } catch (error) {
+      console.error(
+        `Rate limit store failed, allowing request: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return undefined;
+    }
+
+    return {
+      budget,
+      limit,
+      remaining: Math.max(limit - hit.count, 0),
+      resetAt: hit.resetAt,
+      windowMs,
+      allowed: hit.count <= limit,
+    };
+  }
+}
+
+export default new RateLimitService();
@@ -0,0 +1,532 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import {
+  broadcastTransaction,
+  createSignedTokenTransfer,
+  getTransactionStatus,
+  waitForConfirmation,
+} from "../utils/crossChainUtils";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { paginate, Pagination } from "../utils/pagination";
+import depositVerificationService from "./depositVerificationService";
+import transferLedgerService from "./transferLedgerService";
+
+/**
+ * Lifecycle status of a refund
+ */
+export type RefundStatus =
+  | "pending_approval"
+  | "approved"
+  | "submitted"
+  | "confirmed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Interface for a refund of a deposit whose payout failed
+ */
+export interface RefundRecord {
+  refundId: string;
+  transferId: string;
+  depositKey: string;
+  network: string;
+  isTestnet: boolean;
+  token: string;
+  depositTxHash: string;
+  recipient: string;
+  amount: string;
+  payoutError: string;
+  status: RefundStatus;
+  note?: string;
+  transactionHash?: string;
+  confirmations?: number;
+  blockNumber?: number;
+  error?: string;
+  approvedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Interface for refund query filters
+ */
+export interface RefundFilter {
+  status?: RefundStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Service refunding source-chain deposits whose IDRX payout failed.
+ *
+ * A failed payout is recorded as pending approval and its deposit is held
+ * so it cannot be paid out again. Once an operator approves the refund the
+ * deposited tokens are sent back to the depositor from the treasury, and
+ * the refund is tracked until it has enough confirmations. Cancelling a
+ * refund releases the deposit so the payout can be attempted again.
+ */
+export class RefundService {
+  private store: JsonFileStore<RefundRecord>;
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor() {
+    this.store = new JsonFileStore<RefundRecord>("refunds");
+  }
+
+  /**
+   * Record a failed payout of a deposit as a refund awaiting approval
+   * @param transferId Failed transfer
+   * @param depositKey Registry key of the deposit the transfer claimed
+   * @param payoutError Why the payout failed
+   * @returns Refund record, or undefined if the deposit cannot be refunded
+   */
+  public recordFailedPayout(
+    transferId: string,
+    depositKey: string,
+    payoutError: string
+  ): RefundRecord | undefined {
+    const deposit = depositVerificationService.getRecordByKey(depositKey);
+
+    if (!deposit || !deposit.sender || !deposit.amount) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const refund: RefundRecord = {
+      refundId: `rf_${crypto.randomBytes(16).toString("hex")}`,
+      transferId,
+      depositKey,
+      network: deposit.network,
+      isTestnet: deposit.isTestnet,
+      token: deposit.token,
+      depositTxHash: deposit.depositTxHash,
+      recipient: deposit.sender,
+      amount: deposit.amount,
+      payoutError,
+      status: "pending_approval",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.set(refund.refundId, refund);
+    depositVerificationService.markRefunding(depositKey);
+    transferLedgerService.update(transferId, { refundId: refund.refundId });
+
+    console.log(
+      `Refund ${refund.refundId} of ${refund.amount} ` +
+        `${refund.token.toUpperCase()} to ${refund.recipient} awaiting ` +
+        `approval (transfer ${transferId})`
+    );
+
+    return refund;
+  }
+
+  /**
+   * Get a refund. Submitted refunds are refreshed from the source chain.
+   * @param refundId Refund ID
+   * @returns Refund record
+   */
+  public async getRefund(refundId: string): Promise<RefundRecord> {
+    const refund = this.findRefund(refundId);
+
+    if (refund.status === "submitted" && refund.transactionHash) {
+      try {
+        const status = await getTransactionStatus(
+          refund.network,
+          refund.transactionHash,
+          refund.isTestnet
+        );
+
+        return this.applyStatus(refund, status.receipt, status.confirmations);
+      } catch (error) {
+        console.warn(
+          `Could not refresh refund ${refundId}:`,
+          (error as Error).message
+        );
+      }
+    }
+
+    return refund;
+  }
+
+  /**
+   * List refunds, newest first
+   * @param filter Query filters and pagination
+   * @returns Matching refunds with pagination info
+   */
+  public listRefunds(filter: RefundFilter = {}): {
+    refunds: RefundRecord[];
+    pagination: Pagination;
+  } {
+    const { status, page = 1, limit = 20 } = filter;
+
+    const matching = this.store
+      .values()
+      .filter((refund) => !status || refund.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const { items, pagination } = paginate(matching, page, limit);
+
+    return { refunds: items, pagination };
+  }
+
+  /**
+   * Approve a refund. The refund is sent in the background; failed refunds
+   * can be approved again once the chain shows their earlier transaction
+   * was not mined.
+   * @param refundId Refund ID
+   * @param note Optional approval note
+   * @returns Approved refund
+   */
+  public async approve(refundId: string, note?: string): Promise<RefundRecord> {
+    const refund = this.findRefund(refundId);
+
+    if (refund.status !== "pending_approval" && refund.status !== "failed") {
+      throw new ServiceError(
+        `Refund ${refundId} cannot be approved (status ${refund.status})`,
+        409
+      );
+    }
+
+    if (!config.refunds.treasuryPrivateKey) {
+      throw new ServiceError("Refunds are not configured", 503);
+    }
+
+    await this.checkNotSent(refund);
+
+    // Re-checked after the await so concurrent approvals are refused
+    const current = this.findRefund(refundId);
+    if (current.status !== refund.status) {
+      throw new ServiceError(
+        `Refund ${refundId} cannot be approved (status ${current.status})`,
+        409
+      );
+    }
+
+    const approved = this.update(refundId, {
+      status: "approved",
+      note,
+      transactionHash: undefined,
+      error: undefined,
+      approvedAt: Date.now(),
+    });
+
+    this.send(approved).catch((error) => {
+      console.error(`Refund ${refundId} failed: ${error.message}`);
+    });
+
+    return approved;
+  }
+
+  /**
+   * Cancel a refund that was not sent and release its deposit, so the
+   * payout can be attempted again
+   * @param refundId Refund ID
+   * @param note Why the refund was cancelled
+   * @returns Cancelled refund
+   */
+  public async cancel(refundId: string, note: string): Promise<RefundRecord> {
+    const refund = this.findRefund(refundId);
+
+    if (refund.status !== "pending_approval" && refund.status !== "failed") {
+      throw new ServiceError(
+        `Refund ${refundId} cannot be cancelled (status ${refund.status})`,
+        409
+      );
+    }
+
+    await this.checkNotSent(refund);
+
+    const current = this.findRefund(refundId);
+    if (current.status !== refund.status) {
+      throw new ServiceError(
+        `Refund ${refundId} cannot be cancelled (status ${current.status})`,
+        409
+      );
+    }
+
+    depositVerificationService.reopen(refund.depositKey);
+
+    return this.update(refundId, { status: "cancelled", note });
+  }
+
+  /**
+   * Resume tracking of refunds that were sent or approved before a restart.
+   * Approved refunds that may not have been broadcast are marked failed;
+   * approving them again first checks the chain for their transaction.
+   */
+  public resume(): void {
+    for (const refund of this.store.values()) {
+      if (refund.status === "submitted") {
+        this.trackConfirmation(refund).catch((error) => {
+          console.error(
+            `Tracking refund ${refund.refundId} failed: ${error.message}`
+          );
+        });
+      } else if (refund.status === "approved") {
+        this.update(refund.refundId, {
+          status: "failed",
+          error: "Interrupted by a restart before it was broadcast",
+        });
+      }
+    }
+  }
+
+  /**
+   * Sign and broadcast a refund, then track it until confirmed
+   * @param refund Approved refund
+   */
+  private async send(refund: RefundRecord): Promise<void> {
+    const { refundId, network, isTestnet, token, recipient } = refund;
+
+    // The treasury nonce is read from the chain, so refunds on one network
+    // are sent one at a time, each waiting for its first confirmation
+    const submitted = await this.runExclusive(
+      `${network}:${isTestnet ? "testnet" : "mainnet"}`,
+      async () => {
+        let hash: string;
+        try {
+          const amountBN = ethers.utils.parseUnits(
+            refund.amount,
+            depositVerificationService.tokenDecimals(network, token)
+          );
+          const signedTx = await createSignedTokenTransfer(
+            network,
+            token,
+            config.refunds.treasuryPrivateKey as string,
+            recipient,
+            amountBN,
+            isTestnet
+          );
+
+          // Recorded before broadcasting: if the broadcast throws after the
+          // transaction propagated, a retry must find it on the chain
+          hash = ethers.utils.keccak256(signedTx);
+          this.update(refundId, { transactionHash: hash });
+
+          await broadcastTransaction(network, signedTx, isTestnet);
+        } catch (error) {
+          this.update(refundId, {
+            status: "failed",
+            error: (error as Error).message,
+          });
+          throw error;
+        }
+
+        console.log(`Refund ${refundId} submitted: ${hash}`);
+
+        const updated = this.update(refundId, {
+          status: "submitted",
+          transactionHash: hash,
+        });
+
+        try {
+          await waitForConfirmation(
+            network,
+            hash,
+            1,
+            isTestnet,
+            config.refunds.confirmationTimeoutMs
+          );
+        } catch (error) {
+          // Still tracked below; a later refund may need to be approved again
+        }
+
+        return updated;
+      }
+    );
+
+    await this.trackConfirmation(submitted);
+  }
+
+  /**
+   * Check the chain for the transaction of an earlier attempt at a failed
+   * refund. A transaction that is pending or was mined successfully means
+   * the refund went out: it is tracked again as submitted, and the caller
+   * is refused with 409 so the deposit is not refunded twice or released.
+   * Throws 503 if the chain cannot be checked.
+   * @param refund Refund about to be retried or cancelled
+   */
+  private async checkNotSent(refund: RefundRecord): Promise<void> {
+    if (refund.status !== "failed" || !refund.transactionHash) {
+      return;
+    }
+
+    let status: Awaited<ReturnType<typeof getTransactionStatus>>;
+    try {
+      status = await getTransactionStatus(
+        refund.network,
+        refund.transactionHash,
+        refund.isTestnet
+      );
+    } catch (error) {
+      if (error instanceof ServiceError && error.statusCode === 404) {
+        // Never broadcast, or dropped; a new transaction reuses its nonce
+        return;
+      }
+
+      throw new ServiceError(
+        `Could not check the earlier refund transaction ` +
+          `${refund.transactionHash}: ${(error as Error).message}`,
+        503
+      );
+    }
+
+    if (status.receipt && status.receipt.status !== 1) {
+      return;
+    }
+
+    const submitted = this.update(refund.refundId, {
+      status: "submitted",
+      error: undefined,
+    });
+
+    const current = status.receipt
+      ? this.applyStatus(submitted, status.receipt, status.confirmations)
+      : submitted;
+
+    if (current.status === "submitted") {
+      this.trackConfirmation(current).catch((error) => {
+        console.error(
+          `Tracking refund ${refund.refundId} failed: ${error.message}`
+        );
+      });
+    }
+
+    throw new ServiceError(
+      `Refund ${refund.refundId} was already sent in ` +
+        `${refund.transactionHash}`,
+      409,
+      "REFUND_ALREADY_SENT"
+    );
+  }
+
+  /**
+   * Wait for a submitted refund to reach the required confirmations
+   * @param refund Submitted refund
+   */
+  private async trackConfirmation(refund: RefundRecord): Promise<void> {
+    let receipt: ethers.providers.TransactionReceipt;
+    try {
+      receipt = await waitForConfirmation(
+        refund.network,
+        refund.transactionHash as string,
+        config.refunds.minConfirmations,
+        refund.isTestnet,
+        config.refunds.confirmationTimeoutMs
+      );
+    } catch (error) {
+      this.update(refund.refundId, {
+        error: `Not confirmed yet: ${(error as Error).message}`,
+      });
+      throw error;
+    }
+
+    this.applyStatus(refund, receipt, receipt.confirmations);
+  }
+
+  /**
+   * Update a submitted refund from its receipt
+   * @param refund Submitted refund
+   * @param receipt Refund receipt, if mined
+   * @param confirmations Current confirmations
+   * @returns Updated refund
+   */
+  private applyStatus(
+    refund: RefundRecord,
+    receipt: ethers.providers.TransactionReceipt | undefined,
+    confirmations: number
+  ): RefundRecord {
+    if (!receipt) {
+      return this.update(refund.refundId, { confirmations });
+    }
+
+    if (receipt.status !== 1) {
+      return this.update(refund.refundId, {
+        status: "failed",
+        confirmations,
+        blockNumber: receipt.blockNumber,
+        error: "Refund transaction reverted",
+      });
+    }
+
+    if (confirmations < config.refunds.minConfirmations) {
+      return this.update(refund.refundId, {
+        confirmations,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+
+    depositVerificationService.markRefunded(
+      refund.depositKey,
+      receipt.transactionHash
+    );
+
+    console.log(`Refund ${refund.refundId} confirmed`);
+
+    return this.update(refund.refundId, {
+      status: "confirmed",
+      confirmations,
+      blockNumber: receipt.blockNumber,
+      error: undefined,
+    });
+  }
+
+  /**
+   * Run a function after all earlier functions with the same key finished
+   * @param key Lock key
+   * @param fn Function to run
+   * @returns Result of the function
+   */
+  private async runExclusive<T>(
+    key: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const run = previous.then(fn, fn);
+
+    this.locks.set(key, run.catch(() => undefined));
+
+    return run;
+  }
+
+  /**
+   * Get a refund or throw 404
+   * @param refundId Refund ID
+   * @returns Refund record
+   */
+  private findRefund(refundId: string): RefundRecord {
+    const refund = this.store.get(refundId);
+
+    if (!refund) {
+      throw new ServiceError(`Refund not found: ${refundId}`, 404);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Apply changes to a refund
+   * @param refundId Refund ID
+   * @param changes Fields to update
+   * @returns Updated refund
+   */
+  private update(
+    refundId: string,
+    changes: Partial<RefundRecord>
+  ): RefundRecord {
+    const updated = {
+      ...this.findRefund(refundId),
+      ...changes,
+      updatedAt: Date.now(),
+    };
+
+    this.store.set(refundId, updated);
+
+    return updated;
+  }
+}
+
+export default new RefundService();
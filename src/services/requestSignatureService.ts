@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import apiKeyService, { ApiKeyIdentity } from "./apiKeyService";
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// Seen nonces are pruned at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Interface for the signature headers and the parts of a request they sign
+ */
+export interface SignedRequest {
+  keyId: string;
+  timestamp?: string;
+  nonce?: string;
+  signature?: string;
+  method: string;
+  path: string;
+  body: string;
+}
+
+/**
+ * Service verifying requests signed with an API key's signing secret.
+ *
+ * `X-Zap-Signature` is `sha256=` followed by the hex HMAC-SHA256 of
+ * `<timestamp>.<nonce>.<METHOD>.<path>.<raw body>` keyed with the signing
+ * secret, where the timestamp (`X-Zap-Timestamp`, Unix seconds) must be
+ * within REQUEST_SIGNATURE_MAX_SKEW_MS of the server clock and the nonce
+ * (`X-Zap-Nonce`) must not have been used by the key within that window.
+ * Seen nonces are kept in memory, so replays are only detected per instance.
+ */
+export class RequestSignatureService {
+  private nonces = new Map<string, number>();
+  private lastPrunedAt = 0;
+
+  /**
+   * Verify a signed request and consume its nonce
+   * @param request Signature headers and signed request parts
+   * @returns Identity of the signing key
+   */
+  public verify(request: SignedRequest): ApiKeyIdentity {
+    const { keyId, timestamp, nonce, signature } = request;
+
+    if (!timestamp || !nonce || !signature) {
+      throw this.reject(
+        "Signed requests need X-Zap-Timestamp, X-Zap-Nonce and X-Zap-Signature"
+      );
+    }
+
+    const signedAt = Number(timestamp) * 1000;
+    const now = Date.now();
+
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(now - signedAt) > config.requestSigning.maxSkewMs
+    ) {
+      throw this.reject(
+        "Request timestamp is outside the allowed clock skew",
+        "STALE_TIMESTAMP"
+      );
+    }
+
+    if (!NONCE_PATTERN.test(nonce)) {
+      throw this.reject(
+        "X-Zap-Nonce must be 16 to 128 characters of [A-Za-z0-9_-]"
+      );
+    }
+
+    const secret = apiKeyService.getSigningSecret(keyId);
+    const expected = secret && `sha256=${this.sign(secret, request)}`;
+
+    if (
+      !expected ||
+      expected.length !== signature.length ||
+      !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+    ) {
+      throw this.reject("Invalid request signature");
+    }
+
+    // Checked after the signature so unsigned requests cannot burn nonces
+    this.consumeNonce(`${keyId}:${nonce}`, signedAt, now);
+
+    return apiKeyService.identifySigned(keyId);
+  }
+
+  /**
+   * Compute the signature of a request
+   * @param secret Signing secret
+   * @param request Signed request parts
+   * @returns Hex HMAC-SHA256
+   */
+  public sign(
+    secret: string,
+    request: Omit<SignedRequest, "keyId" | "signature">
+  ): string {
+    const { timestamp, nonce, method, path, body } = request;
+
+    return crypto
+      .createHmac("sha256", secret)
+      .update(`${timestamp}.${nonce}.${method.toUpperCase()}.${path}.${body}`)
+      .digest("hex");
+  }
+
+  /**
+   * Record a nonce, rejecting one already seen within the skew window
+   * @param key Key ID and nonce
+   * @param signedAt Request timestamp in milliseconds
+   * @param now Current time in milliseconds
+   */
+  private consumeNonce(key: string, signedAt: number, now: number): void {
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      for (const [seen, expiresAt] of this.nonces) {
+        if (expiresAt < now) {
+          this.nonces.delete(seen);
+        }
+      }
+      this.lastPrunedAt = now;
+    }
+
+    const expiresAt = this.nonces.get(key);
+    if (expiresAt !== undefined && expiresAt >= now) {
+      throw this.reject(
+        "Request nonce has already been used",
+        "REPLAYED_NONCE"
+      );
+    }
+
+    // Past this time the timestamp check rejects the request anyway
+    this.nonces.set(key, signedAt + config.requestSigning.maxSkewMs);
+  }
+
+  /**
+   * Build a signature verification error
+   * @param message Error message
+   * @param code Error code
+   * @returns 401 service error
+   */
+  private reject(
+    message: string,
+    code: string = "INVALID_SIGNATURE"
+  ): ServiceError {
+    return new ServiceError(message, 401, code);
+  }
+}
+
+export default new RequestSignatureService();
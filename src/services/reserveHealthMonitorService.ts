@@ -0,0 +1,101 @@
+import config from "../config/config";
+import { getContract, formatAmount } from "../utils/blockchain";
+import { ReserveHealthStatus, serviceEvents } from "../utils/events";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { classifyReserveHealth } from "./reserveLimitService";
+
+/**
+ * Interface for the last observed reserve health
+ */
+interface ReserveHealthRecord {
+  healthStatus: ReserveHealthStatus;
+  reserve: string;
+  checkedAt: number;
+}
+
+/**
+ * Service that polls the contract reserve and publishes
+ * "reserve.health_changed" whenever its health status changes. The last
+ * status is persisted so that changes across restarts are reported too.
+ */
+export class ReserveHealthMonitorService {
+  private store: JsonFileStore<ReserveHealthRecord>;
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  constructor() {
+    this.store = new JsonFileStore<ReserveHealthRecord>("reserve-health");
+  }
+
+  /**
+   * Start the periodic reserve check
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => this.check(),
+      config.reserveMonitor.intervalMs
+    );
+    this.timer.unref();
+
+    this.check();
+  }
+
+  /**
+   * Stop the periodic check
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Read the reserve and publish a change of its health status
+   */
+  public async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const status = await getContract().getReserveStatus();
+      const reserve = formatAmount(status.reserve);
+      const { healthStatus } = classifyReserveHealth(parseFloat(reserve));
+      const previous = this.store.get("current");
+
+      this.store.set("current", {
+        healthStatus,
+        reserve,
+        checkedAt: Date.now(),
+      });
+
+      if (previous?.healthStatus !== healthStatus) {
+        console.log(
+          `Reserve health changed: ${previous?.healthStatus || "unknown"} ` +
+            `-> ${healthStatus} (reserve ${reserve} IDRX)`
+        );
+
+        serviceEvents.emit("reserve.health_changed", {
+          previousStatus: previous?.healthStatus,
+          healthStatus,
+          reserve,
+        });
+      }
+    } catch (error) {
+      console.error(
+        "Reserve health check failed:",
+        (error as Error).message
+      );
+    } finally {
+      this.checking = false;
+    }
+  }
+}
+
+export default new ReserveHealthMonitorService();
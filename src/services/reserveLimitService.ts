@@ -1,6 +1,16 @@
 import { ethers } from "ethers";
 import { ServiceError } from "../types";
-import { getContract, formatAmount } from "../utils/blockchain";
+import {
+  getContract,
+  getOperatorPool,
+  formatAmount,
+  parseAmount,
+} from "../utils/blockchain";
+import { ReserveHealthStatus } from "../utils/events";
+import adminAuditService, {
+  AdminAuditActor,
+  AdminAuditRecord,
+} from "./adminAuditService";
 
 /**
  * Interface for transfer limit calculation result
@@ -12,7 +22,7 @@ export interface TransferLimitResult {
   maxTransferAmount: string;
   recommendedMaxAmount: string;
   reserveUtilizationPercentage: string;
-  healthStatus: "EXCELLENT" | "GOOD" | "MODERATE" | "LOW" | "CRITICAL";
+  healthStatus: ReserveHealthStatus;
   tokenInfo?: {
     tokenSymbol: string;
     tokenPrice: number;
@@ -23,6 +33,45 @@ export interface TransferLimitResult {
   };
 }
 
+/**
+ * Classify reserve health and the recommended maximum transfer for a reserve.
+ * Smaller reserves may move a larger share per transfer, so that transfers
+ * stay usable as the reserve drains.
+ * @param reserveValue Reserve in IDRX
+ * @returns Health status and recommended maximum transfer in IDRX
+ */
+export function classifyReserveHealth(reserveValue: number): {
+  healthStatus: ReserveHealthStatus;
+  recommendedMaxAmount: number;
+} {
+  const reserveThresholds = {
+    EXCELLENT: 0.01,
+    GOOD: 0.02,
+    MODERATE: 0.05,
+    LOW: 0.1,
+    CRITICAL: 0.2,
+  };
+
+  let healthStatus: ReserveHealthStatus;
+
+  if (reserveValue >= 10000000) {
+    healthStatus = "EXCELLENT";
+  } else if (reserveValue >= 1000000) {
+    healthStatus = "GOOD";
+  } else if (reserveValue >= 100000) {
+    healthStatus = "MODERATE";
+  } else if (reserveValue >= 10000) {
+    healthStatus = "LOW";
+  } else {
+    healthStatus = "CRITICAL";
+  }
+
+  return {
+    healthStatus,
+    recommendedMaxAmount: reserveValue * reserveThresholds[healthStatus],
+  };
+}
+
 /**
  * Service for calculating transfer limits based on reserve pool size
  */
@@ -48,34 +97,9 @@ export class ReserveLimitService {
       const minAmountFormatted = formatAmount(minAmount);
       const maxAmountFormatted = formatAmount(contractMaxAmount);
 
-      const reserveThresholds = {
-        EXCELLENT: 0.01,
-        GOOD: 0.02,
-        MODERATE: 0.05,
-        LOW: 0.1,
-        CRITICAL: 0.2,
-      };
-
       const reserveValue = parseFloat(reserveFormatted);
-      let recommendedMaxAmount: number;
-      let healthStatus: "EXCELLENT" | "GOOD" | "MODERATE" | "LOW" | "CRITICAL";
-
-      if (reserveValue >= 10000000) {
-        recommendedMaxAmount = reserveValue * reserveThresholds.EXCELLENT;
-        healthStatus = "EXCELLENT";
-      } else if (reserveValue >= 1000000) {
-        recommendedMaxAmount = reserveValue * reserveThresholds.GOOD;
-        healthStatus = "GOOD";
-      } else if (reserveValue >= 100000) {
-        recommendedMaxAmount = reserveValue * reserveThresholds.MODERATE;
-        healthStatus = "MODERATE";
-      } else if (reserveValue >= 10000) {
-        recommendedMaxAmount = reserveValue * reserveThresholds.LOW;
-        healthStatus = "LOW";
-      } else {
-        recommendedMaxAmount = reserveValue * reserveThresholds.CRITICAL;
-        healthStatus = "CRITICAL";
-      }
+      const { healthStatus, recommendedMaxAmount } =
+        classifyReserveHealth(reserveValue);
 
       const recommendedMinAmount = Math.max(
         parseFloat(minAmountFormatted),
@@ -148,20 +172,32 @@ export class ReserveLimitService {
   }
 
   /**
-   * Update contract transfer limits based on calculated values
+   * Update contract transfer limits based on calculated values. Every
+   * attempt is written to the admin audit log.
    * @param minAmount Minimum transfer amount to set (in IDRX)
    * @param maxAmount Maximum transfer amount to set (in IDRX)
+   * @param actor Admin requesting the change
    * @returns Success status
    */
   public async updateContractLimits(
     minAmount: string,
-    maxAmount: string
+    maxAmount: string,
+    actor: AdminAuditActor = {}
   ): Promise<{ success: boolean; transactionHash?: string }> {
+    const audit: AdminAuditRecord = {
+      action: "transferLimits.update",
+      actor,
+      params: { minAmount, maxAmount },
+      outcome: "rejected",
+    };
+
     try {
       const contract = getContract();
 
-      const minAmountBN = ethers.utils.parseUnits(minAmount, 18);
-      const maxAmountBN = ethers.utils.parseUnits(maxAmount, 18);
+      const minAmountBN = parseAmount(minAmount);
+      const maxAmountBN = parseAmount(maxAmount);
+
+      audit.before = await this.getContractLimits();
 
       if (minAmountBN.lte(0)) {
         throw new ServiceError("Minimum amount must be greater than 0", 400);
@@ -184,9 +220,43 @@ export class ReserveLimitService {
         );
       }
 
-      const tx = await contract.updateTransferLimits(minAmountBN, maxAmountBN);
+      // Sent by the primary operator, through its nonce manager so the
+      // update cannot collide with transfers sent from the same key
+      const operator = getOperatorPool().primary();
+
+      if (!operator) {
+        throw new ServiceError(
+          "Service is currently unavailable (no active operator)",
+          503
+        );
+      }
+
+      const tx = await operator.nonceManager.sendWithNonce((nonce) =>
+        operator.contract.updateTransferLimits(minAmountBN, maxAmountBN, {
+          nonce,
+        })
+      );
 
-      const receipt = await tx.wait();
+      // From here on an error means the change was sent and failed
+      audit.outcome = "failed";
+      audit.transactionHash = tx.hash;
+
+      let receipt: ethers.providers.TransactionReceipt;
+      try {
+        receipt = await tx.wait();
+      } catch (error) {
+        // Reverted transactions reject with their receipt
+        if (!(error as any).receipt) {
+          throw error;
+        }
+        receipt = (error as any).receipt;
+      } finally {
+        operator.nonceManager.complete(tx.nonce);
+      }
+
+      audit.outcome = receipt.status === 1 ? "succeeded" : "failed";
+      audit.after = await this.getContractLimits();
+      adminAuditService.record(audit);
 
       return {
         success: receipt.status === 1,
@@ -195,22 +265,54 @@ export class ReserveLimitService {
     } catch (error) {
       console.error("Error updating contract limits:", error);
 
-      if (error instanceof ServiceError) {
-        throw error;
-      }
+      const serviceError = this.toServiceError(error);
+      adminAuditService.record({ ...audit, error: serviceError.message });
 
-      if (
-        (error as any).code === "UNPREDICTABLE_GAS_LIMIT" ||
-        (error as any).code === "CALL_EXCEPTION"
-      ) {
-        throw new ServiceError(
-          `Contract error: ${(error as any).reason || "Execution reverted"}`,
-          400
-        );
-      }
+      throw serviceError;
+    }
+  }
 
-      throw new ServiceError("Failed to update contract limits", 500);
+  /**
+   * Read the transfer limits currently set on the contract
+   * @returns Minimum and maximum transfer amounts in IDRX
+   */
+  private async getContractLimits(): Promise<{
+    minTransferAmount: string;
+    maxTransferAmount: string;
+  }> {
+    const contract = getContract();
+    const [minTransferAmount, maxTransferAmount] = await Promise.all([
+      contract.minTransferAmount(),
+      contract.maxTransferAmount(),
+    ]);
+
+    return {
+      minTransferAmount: formatAmount(minTransferAmount),
+      maxTransferAmount: formatAmount(maxTransferAmount),
+    };
+  }
+
+  /**
+   * Convert an error from a limit update into a ServiceError
+   * @param error Error thrown by the update
+   * @returns Service error
+   */
+  private toServiceError(error: unknown): ServiceError {
+    if (error instanceof ServiceError) {
+      return error;
     }
+
+    if (
+      (error as any).code === "UNPREDICTABLE_GAS_LIMIT" ||
+      (error as any).code === "CALL_EXCEPTION"
+    ) {
+      return new ServiceError(
+        `Contract error: ${(error as any).reason || "Execution reverted"}`,
+        400
+      );
+    }
+
+    return new ServiceError("Failed to update contract limits", 500);
   }
 }
 
@@ -0,0 +1,292 @@
+import crypto from "crypto";
+import fs from "fs";
+import { ethers } from "ethers";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { paginate, Pagination } from "../utils/pagination";
+
+/**
+ * Where a screening check happened
+ */
+export type ScreeningContext =
+  | "transfer"
+  | "simulation"
+  | "batch"
+  | "balance"
+  | "history"
+  | "withdrawal";
+
+// Checks that move funds are audited; lookups and simulations are not, as
+// anyone can repeat them without limit
+const AUDITED_CONTEXTS: ScreeningContext[] = [
+  "transfer",
+  "batch",
+  "withdrawal",
+];
+
+/**
+ * Interface for a blocked address
+ */
+export interface ScreeningEntry {
+  address: string;
+  reason: string;
+  // List file path, or "admin" for entries added through the API
+  source: string;
+  addedAt?: number;
+}
+
+/**
+ * Interface for a screening audit entry
+ */
+export interface ScreeningAuditEntry {
+  id: string;
+  action: "rejected" | "flagged" | "added" | "removed";
+  address: string;
+  reason: string;
+  source?: string;
+  context?: ScreeningContext;
+  createdAt: number;
+}
+
+/**
+ * Interface for audit query filters
+ */
+export interface ScreeningAuditFilter {
+  address?: string;
+  action?: ScreeningAuditEntry["action"];
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Service screening addresses against blocked address lists. Lists are
+ * loaded from local files (one address per line, optionally followed by a
+ * comma and a reason; `#` starts a comment) and from entries added by
+ * admins. Listed addresses are rejected or, in flag mode, let through;
+ * either way a hit on a transfer or withdrawal is written to the screening
+ * audit log.
+ */
+export class ScreeningService {
+  private adminEntries: JsonFileStore<ScreeningEntry>;
+  private audit: JsonFileStore<ScreeningAuditEntry>;
+  private fileEntries?: Map<string, ScreeningEntry>;
+
+  constructor() {
+    this.adminEntries = new JsonFileStore<ScreeningEntry>("screening-list");
+    this.audit = new JsonFileStore<ScreeningAuditEntry>("screening-audit");
+  }
+
+  /**
+   * Reload the list files
+   * @returns Number of addresses loaded from files
+   */
+  public reload(): number {
+    const entries = new Map<string, ScreeningEntry>();
+
+    for (const file of config.screening.listFiles) {
+      let content: string;
+      try {
+        content = fs.readFileSync(file, "utf8");
+      } catch (error) {
+        throw new ServiceError(
+          `Failed to read screening list ${file}: ${(error as Error).message}`,
+          500
+        );
+      }
+
+      content.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.split("#")[0].trim();
+        if (!line) {
+          return;
+        }
+
+        const [address, ...reason] = line.split(",");
+        if (!ethers.utils.isAddress(address.trim())) {
+          console.warn(
+            `Skipping invalid address in ${file} line ${index + 1}: ${address}`
+          );
+          return;
+        }
+
+        entries.set(address.trim().toLowerCase(), {
+          address: ethers.utils.getAddress(address.trim()),
+          reason: reason.join(",").trim() || "Listed",
+          source: file,
+        });
+      });
+    }
+
+    this.fileEntries = entries;
+    return entries.size;
+  }
+
+  /**
+   * Look up an address in the block lists
+   * @param address Address to look up
+   * @returns Matching entry or undefined if the address is not listed
+   */
+  public lookup(address: string): ScreeningEntry | undefined {
+    if (!this.fileEntries) {
+      this.reload();
+    }
+
+    const key = address.toLowerCase();
+    return this.adminEntries.get(key) || this.fileEntries?.get(key);
+  }
+
+  /**
+   * Screen an address. Listed addresses are audited if the check moves
+   * funds, then rejected with 403 unless SCREENING_MODE is "flag".
+   * @param address Address to screen
+   * @param context Where the check happened
+   * @returns Matching entry when the address is listed and flagged
+   */
+  public screen(
+    address: string,
+    context: ScreeningContext
+  ): ScreeningEntry | undefined {
+    const entry = this.lookup(address);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const reject = config.screening.mode !== "flag";
+
+    if (AUDITED_CONTEXTS.includes(context)) {
+      this.record({
+        action: reject ? "rejected" : "flagged",
+        address: entry.address,
+        reason: entry.reason,
+        source: entry.source,
+        context,
+      });
+    }
+
+    if (reject) {
+      throw new ServiceError(
+        `Address ${entry.address} is blocked: ${entry.reason}`,
+        403,
+        "ADDRESS_BLOCKED"
+      );
+    }
+
+    console.warn(
+      `Flagged ${context} for listed address ${entry.address}: ${entry.reason}`
+    );
+
+    return entry;
+  }
+
+  /**
+   * List all blocked addresses
+   * @param source Optional source to filter by ("admin" or a file path)
+   * @returns Entries from files and admins; admin entries take precedence
+   */
+  public listEntries(source?: string): ScreeningEntry[] {
+    if (!this.fileEntries) {
+      this.reload();
+    }
+
+    const entries = new Map(this.fileEntries);
+    for (const entry of this.adminEntries.values()) {
+      entries.set(entry.address.toLowerCase(), entry);
+    }
+
+    return Array.from(entries.values()).filter(
+      (entry) => !source || entry.source === source
+    );
+  }
+
+  /**
+   * Block an address
+   * @param address Address to block
+   * @param reason Why the address is blocked
+   * @returns Added entry
+   */
+  public addEntry(address: string, reason: string): ScreeningEntry {
+    const key = address.toLowerCase();
+
+    if (this.adminEntries.has(key)) {
+      throw new ServiceError(`Address ${address} is already blocked`, 409);
+    }
+
+    const entry: ScreeningEntry = {
+      address: ethers.utils.getAddress(address),
+      reason,
+      source: "admin",
+      addedAt: Date.now(),
+    };
+
+    this.adminEntries.set(key, entry);
+    this.record({ action: "added", address: entry.address, reason });
+
+    return entry;
+  }
+
+  /**
+   * Unblock an address added by an admin. Addresses from list files must be
+   * removed from the file.
+   * @param address Address to unblock
+   * @param reason Why the address is unblocked
+   * @returns Removed entry
+   */
+  public removeEntry(address: string, reason: string): ScreeningEntry {
+    const key = address.toLowerCase();
+    const entry = this.adminEntries.get(key);
+
+    if (!entry) {
+      const listed = this.lookup(address);
+      if (listed) {
+        throw new ServiceError(
+          `Address ${address} is listed in ${listed.source}; remove it there`,
+          409
+        );
+      }
+
+      throw new ServiceError(`Address ${address} is not blocked`, 404);
+    }
+
+    this.adminEntries.delete(key);
+    this.record({ action: "removed", address: entry.address, reason });
+
+    return entry;
+  }
+
+  /**
+   * List screening audit entries, newest first
+   * @param filter Query filters and pagination
+   * @returns Matching entries with pagination info
+   */
+  public listAudit(filter: ScreeningAuditFilter = {}): {
+    entries: ScreeningAuditEntry[];
+    pagination: Pagination;
+  } {
+    const { address, action, page = 1, limit = 20 } = filter;
+
+    const matching = this.audit
+      .values()
+      .filter(
+        (entry) =>
+          (!address || entry.address.toLowerCase() === address.toLowerCase()) &&
+          (!action || entry.action === action)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const { items, pagination } = paginate(matching, page, limit);
+
+    return { entries: items, pagination };
+  }
+
+  /**
+   * Write an audit entry
+   * @param entry Audit entry without ID and timestamp
+   */
+  private record(entry: Omit<ScreeningAuditEntry, "id" | "createdAt">): void {
+    const id = crypto.randomBytes(12).toString("hex");
+    this.audit.set(id, { id, ...entry, createdAt: Date.now() });
+  }
+}
+
+export default new ScreeningService();
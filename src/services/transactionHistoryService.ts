@@ -1,6 +1,7 @@
 import axios from "axios";
 import { ServiceError } from "../types";
 import { isValidAddress } from "../utils/blockchain";
+import screeningService from "./screeningService";
 
 /**
  * Interface for transaction data returned from Blockscout API
@@ -102,6 +103,8 @@ export class TransactionHistoryService {
       throw new ServiceError("Invalid Ethereum address", 400);
     }
 
+    screeningService.screen(address, "history");
+
     try {
       const {
         page = 1,
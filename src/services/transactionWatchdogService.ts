@@ -0,0 +1,234 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import transferStatusService from "./transferStatusService";
+
+/**
+ * Interface for a transaction watched for being stuck in the mempool
+ */
+interface WatchedTransaction {
+  transferId: string;
+  signer: ethers.Signer;
+  request: ethers.providers.TransactionRequest;
+  hashes: string[];
+  lastBroadcastAt: number;
+}
+
+/**
+ * Service that detects pending transfer transactions stuck in the mempool and
+ * re-broadcasts them with the same nonce and a bumped gas price
+ */
+export class TransactionWatchdogService {
+  private watched: Map<string, WatchedTransaction>;
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  constructor() {
+    this.watched = new Map();
+  }
+
+  /**
+   * Start the periodic stuck transaction check
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => this.checkPending(),
+      config.watchdog.intervalMs
+    );
+    this.timer.unref();
+
+    console.log(
+      `Transaction watchdog started (stuck after ${config.watchdog.stuckAfterMs}ms, bump ${config.watchdog.gasBumpPercent}%)`
+    );
+  }
+
+  /**
+   * Stop the periodic check
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Watch a broadcast transaction until it is mined
+   * @param transferId Transfer ID the transaction belongs to
+   * @param tx Broadcast transaction
+   * @param signer Signer that sent the transaction
+   */
+  public track(
+    transferId: string,
+    tx: ethers.providers.TransactionResponse,
+    signer: ethers.Signer
+  ): void {
+    this.watched.set(transferId.toLowerCase(), {
+      transferId,
+      signer,
+      request: {
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        nonce: tx.nonce,
+        gasLimit: tx.gasLimit,
+        chainId: tx.chainId,
+        type: tx.type ?? undefined,
+        gasPrice: tx.type === 2 ? undefined : tx.gasPrice,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      },
+      hashes: [tx.hash],
+      lastBroadcastAt: Date.now(),
+    });
+  }
+
+  /**
+   * Stop watching a transfer once its transaction was mined or abandoned
+   * @param transferId Transfer ID
+   */
+  public untrack(transferId: string): void {
+    this.watched.delete(transferId.toLowerCase());
+  }
+
+  /**
+   * Check all watched transactions and replace the stuck ones
+   */
+  private async checkPending(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+
+      for (const entry of Array.from(this.watched.values())) {
+        if (now - entry.lastBroadcastAt < config.watchdog.stuckAfterMs) {
+          continue;
+        }
+
+        try {
+          await this.replaceIfStuck(entry);
+        } catch (error) {
+          console.error(
+            `Watchdog failed to replace transfer ${entry.transferId}:`,
+            (error as Error).message
+          );
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Re-broadcast a transaction with a bumped fee if none of its versions
+   * has been mined yet
+   * @param entry Watched transaction
+   */
+  private async replaceIfStuck(entry: WatchedTransaction): Promise<void> {
+    const provider = entry.signer.provider as ethers.providers.Provider;
+
+    for (const hash of entry.hashes) {
+      if (await provider.getTransactionReceipt(hash)) {
+        return;
+      }
+    }
+
+    const bumped = await this.bumpFees(entry.request, provider);
+    if (!bumped) {
+      console.warn(
+        `Transfer ${entry.transferId} is stuck at the maximum gas price cap (${config.watchdog.maxGasPriceGwei} gwei), not replacing`
+      );
+      entry.lastBroadcastAt = Date.now();
+      return;
+    }
+
+    let replacement: ethers.providers.TransactionResponse;
+    try {
+      replacement = await entry.signer.sendTransaction(bumped);
+    } catch (error) {
+      if (
+        (error as any).code === "NONCE_EXPIRED" ||
+        /nonce too low|already known/i.test((error as any).message || "")
+      ) {
+        // An earlier version was mined (or is already in the pool) meanwhile
+        entry.lastBroadcastAt = Date.now();
+        return;
+      }
+      throw error;
+    }
+
+    const previousHash = entry.hashes[entry.hashes.length - 1];
+
+    entry.request = bumped;
+    entry.hashes.push(replacement.hash);
+    entry.lastBroadcastAt = Date.now();
+
+    console.log(
+      `Replaced stuck transaction ${previousHash} with ${replacement.hash} (nonce ${bumped.nonce})`
+    );
+
+    transferStatusService.markReplaced(
+      entry.transferId,
+      previousHash,
+      replacement.hash
+    );
+  }
+
+  /**
+   * Compute bumped fees for a replacement transaction, respecting the cap
+   * @param request Previous transaction request
+   * @param provider Provider used to read the current gas price
+   * @returns Replacement request, or undefined if the cap was already reached
+   */
+  private async bumpFees(
+    request: ethers.providers.TransactionRequest,
+    provider: ethers.providers.Provider
+  ): Promise<ethers.providers.TransactionRequest | undefined> {
+    const cap = ethers.utils.parseUnits(
+      config.watchdog.maxGasPriceGwei,
+      "gwei"
+    );
+    const bump = (value: ethers.BigNumberish) =>
+      ethers.BigNumber.from(value)
+        .mul(100 + config.watchdog.gasBumpPercent)
+        .div(100);
+    const min = (a: ethers.BigNumber, b: ethers.BigNumber) => (a.lt(b) ? a : b);
+
+    if (request.maxFeePerGas !== undefined) {
+      const currentFee = ethers.BigNumber.from(request.maxFeePerGas);
+      if (currentFee.gte(cap)) {
+        return undefined;
+      }
+
+      const maxFeePerGas = min(bump(currentFee), cap);
+      const maxPriorityFeePerGas = min(
+        bump(request.maxPriorityFeePerGas || 0),
+        maxFeePerGas
+      );
+
+      return { ...request, maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    const currentPrice = ethers.BigNumber.from(request.gasPrice || 0);
+    if (currentPrice.gte(cap)) {
+      return undefined;
+    }
+
+    const networkPrice = await provider.getGasPrice();
+    const bumpedPrice = bump(currentPrice);
+    const gasPrice = min(
+      bumpedPrice.gt(networkPrice) ? bumpedPrice : networkPrice,
+      cap
+    );
+
+    return { ...request, gasPrice };
+  }
+}
+
+export default new TransactionWatchdogService();
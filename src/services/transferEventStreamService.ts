@@ -0,0 +1,311 @@
+import { Request, Response } from "express";
+import config from "../config/config";
+import { TransferStatusResponse } from "../types";
+import { getProvider } from "../utils/blockchain";
+import {
+  SERVICE_EVENTS,
+  ServiceEventMap,
+  ServiceEventName,
+  TransferEventData,
+  serviceEvents,
+} from "../utils/events";
+import transferStatusService from "./transferStatusService";
+
+/**
+ * Interface for a connected event stream client. Transfer streams follow one
+ * transfer; the firehose (no transferId) receives every event.
+ */
+interface StreamClient {
+  res: Response;
+  transferId?: string;
+  nextId: number;
+}
+
+/**
+ * Interface for a confirmed transfer whose confirmations are being counted
+ */
+interface ConfirmationWatch {
+  transferId: string;
+  blockNumber: number;
+  confirmations: number;
+}
+
+/**
+ * Service streaming transfer lifecycle events to clients as Server-Sent
+ * Events.
+ *
+ * A transfer stream starts with a `transfer.status` snapshot, then sends
+ * each state transition (`transfer.submitted`, `transfer.confirmed` with
+ * the receipt, `transfer.failed`) and, once mined, a `transfer.confirmations`
+ * event per block until SSE_CONFIRMATION_TARGET confirmations, after which
+ * the stream ends. The admin firehose sends every service event and never
+ * ends.
+ */
+export class TransferEventStreamService {
+  private clients = new Set<StreamClient>();
+  private watches = new Map<string, ConfirmationWatch>();
+  private heartbeat?: NodeJS.Timeout;
+  private listening = false;
+  private blockListener = (blockNumber: number) => this.onBlock(blockNumber);
+
+  /**
+   * Stream the events of one transfer
+   * @param req Request
+   * @param res Response to stream to
+   * @param transferId Transfer ID
+   */
+  public async streamTransfer(
+    req: Request,
+    res: Response,
+    transferId: string
+  ): Promise<void> {
+    // Throws 404 before the stream is opened for unknown transfers
+    const status = await transferStatusService.getTransferStatus(transferId);
+    const client = this.open(req, res, transferId);
+
+    this.send(client, "transfer.status", status);
+
+    if (this.isFinal(status)) {
+      this.close(client);
+      return;
+    }
+
+    if (status.status === "confirmed" && status.blockNumber !== undefined) {
+      this.watch(transferId, status.blockNumber, status.confirmations);
+    }
+  }
+
+  /**
+   * Stream every service event (admin firehose)
+   * @param req Request
+   * @param res Response to stream to
+   */
+  public streamAll(req: Request, res: Response): void {
+    const client = this.open(req, res);
+
+    this.send(client, "stream.open", { events: SERVICE_EVENTS });
+  }
+
+  /**
+   * Open an event stream and register the client
+   * @param req Request
+   * @param res Response to stream to
+   * @param transferId Transfer to follow; every event when omitted
+   * @returns Registered client
+   */
+  private open(
+    req: Request,
+    res: Response,
+    transferId?: string
+  ): StreamClient {
+    this.listen();
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${config.eventStream.retryMs}\n\n`);
+
+    const client: StreamClient = {
+      res,
+      transferId: transferId?.toLowerCase(),
+      nextId: 1,
+    };
+    this.clients.add(client);
+
+    req.on("close", () => this.close(client));
+
+    return client;
+  }
+
+  /**
+   * Subscribe to service events and start the heartbeat
+   */
+  private listen(): void {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+
+    for (const event of SERVICE_EVENTS) {
+      serviceEvents.on(event, (data) => this.dispatch(event, data));
+    }
+
+    // Comments keep proxies from closing idle streams
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach((client) => client.res.write(": ping\n\n"));
+    }, config.eventStream.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Forward a service event to the clients that follow it
+   * @param event Event name
+   * @param data Event payload
+   */
+  private dispatch<E extends ServiceEventName>(
+    event: E,
+    data: ServiceEventMap[E]
+  ): void {
+    const transfer = event.startsWith("transfer.")
+      ? (data as TransferEventData)
+      : undefined;
+
+    if (
+      event === "transfer.confirmed" &&
+      transfer?.blockNumber !== undefined
+    ) {
+      this.watch(transfer.transferId, transfer.blockNumber);
+    }
+
+    for (const client of this.clients) {
+      if (!client.transferId) {
+        this.send(client, event, data);
+      } else if (
+        transfer &&
+        transfer.transferId.toLowerCase() === client.transferId
+      ) {
+        this.send(client, event, data);
+
+        if (event === "transfer.failed") {
+          this.close(client);
+        }
+      }
+    }
+  }
+
+  /**
+   * Count the confirmations of a mined transfer on every new block
+   * @param transferId Transfer ID
+   * @param blockNumber Block the transfer was mined in
+   * @param confirmations Confirmations already reported
+   */
+  private watch(
+    transferId: string,
+    blockNumber: number,
+    confirmations: number = 1
+  ): void {
+    if (!this.isFollowed(transferId)) {
+      return;
+    }
+
+    const idle = this.watches.size === 0;
+
+    this.watches.set(transferId.toLowerCase(), {
+      transferId,
+      blockNumber,
+      confirmations,
+    });
+
+    if (idle) {
+      getProvider().on("block", this.blockListener);
+    }
+  }
+
+  /**
+   * Send the confirmation counts of watched transfers for a new block, and
+   * end transfer streams that reached the target
+   * @param currentBlock New block number
+   */
+  private onBlock(currentBlock: number): void {
+    const target = config.eventStream.confirmationTarget;
+
+    for (const [key, watch] of this.watches) {
+      const confirmations = Math.min(
+        Math.max(currentBlock - watch.blockNumber + 1, 0),
+        target
+      );
+
+      if (confirmations > watch.confirmations) {
+        watch.confirmations = confirmations;
+
+        for (const client of this.clients) {
+          if (!client.transferId || client.transferId === key) {
+            this.send(client, "transfer.confirmations", {
+              transferId: watch.transferId,
+              blockNumber: watch.blockNumber,
+              confirmations,
+              target,
+            });
+
+            if (client.transferId && confirmations >= target) {
+              this.close(client);
+            }
+          }
+        }
+      }
+
+      if (confirmations >= target || !this.isFollowed(key)) {
+        this.watches.delete(key);
+      }
+    }
+
+    if (this.watches.size === 0) {
+      getProvider().off("block", this.blockListener);
+    }
+  }
+
+  /**
+   * Whether any connected client receives events of a transfer
+   * @param transferId Transfer ID
+   * @returns true if a firehose or transfer stream follows the transfer
+   */
+  private isFollowed(transferId: string): boolean {
+    const key = transferId.toLowerCase();
+
+    for (const client of this.clients) {
+      if (!client.transferId || client.transferId === key) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Whether a transfer stream has nothing more to send
+   * @param status Current transfer status
+   * @returns true for failed transfers and transfers with enough
+   * confirmations
+   */
+  private isFinal(status: TransferStatusResponse): boolean {
+    return (
+      status.status === "failed" ||
+      (status.status === "confirmed" &&
+        (status.confirmations || 0) >= config.eventStream.confirmationTarget)
+    );
+  }
+
+  /**
+   * Write an event to a client
+   * @param client Stream client
+   * @param event Event name
+   * @param data Event payload
+   */
+  private send(client: StreamClient, event: string, data: unknown): void {
+    client.res.write(
+      `id: ${client.nextId++}\nevent: ${event}\ndata: ${JSON.stringify(
+        data
+      )}\n\n`
+    );
+  }
+
+  /**
+   * End a client's stream and unregister it
+   * @param client Stream client
+   */
+  private close(client: StreamClient): void {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+
+    if (!client.res.writableEnded) {
+      client.res.end();
+    }
+  }
+}
+
+export default new TransferEventStreamService();
@@ -0,0 +1,179 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { ServiceError, TransferIntentSignature } from "../types";
+import { getProvider } from "../utils/blockchain";
+import { JsonFileStore } from "../utils/jsonFileStore";
+
+/**
+ * Interface for the typed data value a recipient signs
+ */
+export interface TransferIntent {
+  recipient: string;
+  amount: ethers.BigNumber;
+  reference: string;
+  deadline: number;
+  nonce: string;
+}
+
+/**
+ * Interface for a stored per-signer nonce
+ */
+interface IntentNonceRecord {
+  signer: string;
+  nextNonce: string;
+  updatedAt: number;
+}
+
+const INTENT_TYPES = {
+  TransferIntent: [
+    { name: "recipient", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "reference", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * Service verifying EIP-712 transfer intents signed by recipients and
+ * enforcing their per-signer sequential nonces and deadlines
+ */
+export class TransferIntentService {
+  private nonces: JsonFileStore<IntentNonceRecord>;
+  private chainId?: number;
+
+  constructor() {
+    this.nonces = new JsonFileStore<IntentNonceRecord>("intent-nonces");
+  }
+
+  /**
+   * Get the EIP-712 domain and types clients sign with
+   * @returns Domain, primary type and type definitions
+   */
+  public async getTypedDataDefinition(): Promise<{
+    domain: ethers.TypedDataDomain;
+    primaryType: string;
+    types: typeof INTENT_TYPES;
+  }> {
+    return {
+      domain: await this.getDomain(),
+      primaryType: "TransferIntent",
+      types: INTENT_TYPES,
+    };
+  }
+
+  /**
+   * Get the nonce the next intent of a signer must use
+   * @param signer Signer address
+   * @returns Next nonce as a decimal string
+   */
+  public getNonce(signer: string): string {
+    return this.nonces.get(signer.toLowerCase())?.nextNonce || "0";
+  }
+
+  /**
+   * Build the intent reference binding the signature to a quote and/or
+   * deposit. Without either the reference is zero; with both it is the
+   * keccak256 of the deposit hash followed by the quote hash.
+   * @param quoteId Optional quote ID
+   * @param depositTxHash Optional deposit transaction hash
+   * @returns bytes32 reference
+   */
+  public buildReference(quoteId?: string, depositTxHash?: string): string {
+    const quoteRef = quoteId ? ethers.utils.id(quoteId) : undefined;
+
+    if (quoteRef && depositTxHash) {
+      return ethers.utils.solidityKeccak256(
+        ["bytes32", "bytes32"],
+        [depositTxHash, quoteRef]
+      );
+    }
+
+    return depositTxHash || quoteRef || ethers.constants.HashZero;
+  }
+
+  /**
+   * Verify an intent signature, deadline and nonce, then consume the nonce.
+   * A consumed nonce is never reused, even if the transfer later fails.
+   * @param intent Intent values the signature must cover
+   * @param signature Signature sent by the client
+   * @param consume Whether to consume the nonce (false for simulations)
+   * @returns Recovered signer address
+   */
+  public async verifyAndConsume(
+    intent: Omit<TransferIntent, "deadline" | "nonce">,
+    signature: TransferIntentSignature,
+    consume: boolean = true
+  ): Promise<string> {
+    if (signature.deadline * 1000 <= Date.now()) {
+      throw new ServiceError("Transfer intent has expired", 410);
+    }
+
+    const value: TransferIntent = {
+      ...intent,
+      deadline: signature.deadline,
+      nonce: signature.nonce,
+    };
+
+    let signer: string;
+    try {
+      signer = ethers.utils.verifyTypedData(
+        await this.getDomain(),
+        INTENT_TYPES,
+        value,
+        signature.signature
+      );
+    } catch (error) {
+      throw new ServiceError("Invalid transfer intent signature", 400);
+    }
+
+    if (signer.toLowerCase() !== intent.recipient.toLowerCase()) {
+      throw new ServiceError(
+        "Transfer intent must be signed by the recipient",
+        403
+      );
+    }
+
+    // Checked and advanced synchronously so concurrent requests cannot
+    // use the same nonce
+    const expected = this.getNonce(signer);
+    if (!ethers.BigNumber.from(signature.nonce).eq(expected)) {
+      throw new ServiceError(
+        `Invalid transfer intent nonce (expected ${expected})`,
+        409
+      );
+    }
+
+    if (!consume) {
+      return signer;
+    }
+
+    this.nonces.set(signer.toLowerCase(), {
+      signer,
+      nextNonce: ethers.BigNumber.from(expected).add(1).toString(),
+      updatedAt: Date.now(),
+    });
+
+    return signer;
+  }
+
+  /**
+   * Get the EIP-712 domain, bound to the transfer contract and its chain
+   * @returns Typed data domain
+   */
+  private async getDomain(): Promise<ethers.TypedDataDomain> {
+    if (this.chainId === undefined) {
+      const network = await getProvider().getNetwork();
+      this.chainId = network.chainId;
+    }
+
+    return {
+      name: config.intents.domainName,
+      version: config.intents.domainVersion,
+      chainId: this.chainId,
+      verifyingContract: config.blockchain.contractAddress,
+    };
+  }
+}
+
+export default new TransferIntentService();
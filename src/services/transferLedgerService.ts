@@ -0,0 +1,321 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { ServiceError, TransferLifecycleStatus } from "../types";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { paginate, Pagination } from "../utils/pagination";
+
+/**
+ * Interface for a ledger entry describing one transfer attempt
+ */
+export interface TransferLedgerEntry {
+  transferId: string;
+  recipient: string;
+  idrxAmount: string;
+  minTransferAmount?: string;
+  maxTransferAmount?: string;
+  reserve?: string;
+  status: TransferLifecycleStatus;
+  transactionHash?: string;
+  replacedTransactionHashes?: string[];
+  receiptStatus?: number;
+  blockNumber?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  error?: string;
+  deposit?: TransferLedgerDeposit;
+  quoteId?: string;
+  screening?: TransferLedgerScreening;
+  refundId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Interface for the source-chain deposit a transfer paid out
+ */
+export interface TransferLedgerDeposit {
+  network: string;
+  isTestnet: boolean;
+  depositTxHash: string;
+  token: string;
+  sender?: string;
+  amount?: string;
+}
+
+/**
+ * Interface for the block list entry a flagged transfer's recipient matched
+ */
+export interface TransferLedgerScreening {
+  source: string;
+  reason: string;
+}
+
+/**
+ * Interface for ledger query filters
+ */
+export interface TransferLedgerFilter {
+  recipient?: string;
+  status?: TransferLifecycleStatus;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Interface for ledger query results
+ */
+export interface TransferLedgerPage {
+  entries: TransferLedgerEntry[];
+  pagination: Pagination;
+}
+
+/**
+ * Storage backend for the transfer ledger
+ */
+export interface TransferLedgerStore {
+  get(transferId: string): TransferLedgerEntry | undefined;
+  save(entry: TransferLedgerEntry): void;
+  all(): TransferLedgerEntry[];
+}
+
+/**
+ * Ledger store kept in process memory (lost on restart)
+ */
+export class MemoryLedgerStore implements TransferLedgerStore {
+  private entries = new Map<string, TransferLedgerEntry>();
+
+  public get(transferId: string): TransferLedgerEntry | undefined {
+    return this.entries.get(transferId.toLowerCase());
+  }
+
+  public save(entry: TransferLedgerEntry): void {
+    this.entries.set(entry.transferId.toLowerCase(), entry);
+  }
+
+  public all(): TransferLedgerEntry[] {
+    return Array.from(this.entries.values());
+  }
+}
+
+/**
+ * Ledger store persisted to a JSON file in the data directory
+ */
+export class JsonFileLedgerStore implements TransferLedgerStore {
+  private store = new JsonFileStore<TransferLedgerEntry>("transfer-ledger");
+
+  public get(transferId: string): TransferLedgerEntry | undefined {
+    return this.store.get(transferId.toLowerCase());
+  }
+
+  public save(entry: TransferLedgerEntry): void {
+    this.store.set(entry.transferId.toLowerCase(), entry);
+  }
+
+  public all(): TransferLedgerEntry[] {
+    return this.store.values();
+  }
+}
+
+/**
+ * Service recording every meta-transfer attempt in a durable ledger
+ */
+export class TransferLedgerService {
+  private store: TransferLedgerStore;
+  // Transfers oldest first, so time-window queries read only the window
+  private timeline: { transferId: string; createdAt: number }[];
+
+  constructor(store?: TransferLedgerStore) {
+    this.store =
+      store ||
+      (config.ledger.store === "memory"
+        ? new MemoryLedgerStore()
+        : new JsonFileLedgerStore());
+
+    this.timeline = this.store
+      .all()
+      .map(({ transferId, createdAt }) => ({ transferId, createdAt }))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Record a new transfer attempt
+   * @param entry Ledger entry without timestamps
+   */
+  public record(
+    entry: Omit<TransferLedgerEntry, "createdAt" | "updatedAt">
+  ): void {
+    const now = Date.now();
+    const isNew = !this.store.get(entry.transferId);
+    this.store.save({ ...entry, createdAt: now, updatedAt: now });
+
+    if (isNew) {
+      const index = this.indexAfter(now);
+      this.timeline.splice(index, 0, {
+        transferId: entry.transferId,
+        createdAt: now,
+      });
+    }
+  }
+
+  /**
+   * Update an existing transfer attempt
+   * @param transferId Transfer ID
+   * @param changes Fields to update
+   */
+  public update(
+    transferId: string,
+    changes: Partial<Omit<TransferLedgerEntry, "transferId" | "createdAt">>
+  ): void {
+    const entry = this.store.get(transferId);
+    if (!entry) {
+      return;
+    }
+
+    this.store.save({ ...entry, ...changes, updatedAt: Date.now() });
+  }
+
+  /**
+   * Record the receipt of a mined transfer transaction
+   * @param transferId Transfer ID
+   * @param receipt Transaction receipt
+   */
+  public recordReceipt(
+    transferId: string,
+    receipt: ethers.providers.TransactionReceipt
+  ): void {
+    this.update(transferId, {
+      transactionHash: receipt.transactionHash,
+      receiptStatus: receipt.status,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+    });
+  }
+
+  /**
+   * Get a single ledger entry
+   * @param transferId Transfer ID
+   * @returns Ledger entry
+   */
+  public getEntry(transferId: string): TransferLedgerEntry {
+    const entry = this.store.get(transferId);
+
+    if (!entry) {
+      throw new ServiceError(`Transfer not found: ${transferId}`, 404);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Find a ledger entry without throwing when it is missing
+   * @param transferId Transfer ID
+   * @returns Ledger entry or undefined
+   */
+  public findEntry(transferId: string): TransferLedgerEntry | undefined {
+    return this.store.get(transferId);
+  }
+
+  /**
+   * List transfers created since a time that were not rejected or failed,
+   * i.e. IDRX that has left or is leaving the reserve
+   * @param since Start of the window (ms timestamp)
+   * @returns Matching entries, oldest first
+   */
+  public listOutflowSince(since: number): TransferLedgerEntry[] {
+    return this.timeline
+      .slice(this.indexAfter(since - 1))
+      .map(({ transferId }) => this.store.get(transferId))
+      .filter(
+        (entry): entry is TransferLedgerEntry =>
+          !!entry && entry.status !== "failed"
+      );
+  }
+
+  /**
+   * List the most recent transfers that have a receipt
+   * @param limit Maximum number of entries
+   * @returns Matching entries, newest first
+   */
+  public listRecentReceipts(limit: number): TransferLedgerEntry[] {
+    const entries: TransferLedgerEntry[] = [];
+
+    for (
+      let index = this.timeline.length - 1;
+      index >= 0 && entries.length < limit;
+      index--
+    ) {
+      const entry = this.store.get(this.timeline[index].transferId);
+
+      if (entry && entry.gasUsed !== undefined) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * List transfers that have not reached a final status, oldest first
+   * @returns Queued and submitted entries
+   */
+  public listUnfinished(): TransferLedgerEntry[] {
+    return this.store
+      .all()
+      .filter(
+        (entry) => entry.status === "queued" || entry.status === "submitted"
+      )
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * List ledger entries, newest first
+   * @param filter Query filters and pagination
+   * @returns Matching entries with pagination info
+   */
+  public listEntries(filter: TransferLedgerFilter = {}): TransferLedgerPage {
+    const { recipient, status, startDate, endDate, page = 1, limit = 20 } =
+      filter;
+
+    const matching = this.store
+      .all()
+      .filter(
+        (entry) =>
+          (!recipient ||
+            entry.recipient.toLowerCase() === recipient.toLowerCase()) &&
+          (!status || entry.status === status) &&
+          (!startDate || entry.createdAt >= startDate.getTime()) &&
+          (!endDate || entry.createdAt <= endDate.getTime())
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const { items, pagination } = paginate(matching, page, limit);
+
+    return { entries: items, pagination };
+  }
+
+  /**
+   * Find where a transfer created at a time belongs in the timeline
+   * @param createdAt Creation time (ms timestamp)
+   * @returns Index of the first transfer created after that time
+   */
+  private indexAfter(createdAt: number): number {
+    let low = 0;
+    let high = this.timeline.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+
+      if (this.timeline[middle].createdAt <= createdAt) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+}
+
+export default new TransferLedgerService();
@@ -0,0 +1,432 @@
+import crypto from "crypto";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import { parseAmount } from "../utils/blockchain";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { paginate, Pagination } from "../utils/pagination";
+import adminAuditService, { AdminAuditActor } from "./adminAuditService";
+import apiKeyService, { BOOTSTRAP_KEY_ID } from "./apiKeyService";
+import reserveLimitService, {
+  TransferLimitResult,
+} from "./reserveLimitService";
+
+/**
+ * Lifecycle status of a transfer limit proposal
+ */
+export type TransferLimitProposalStatus =
+  | "pending"
+  | "executing"
+  | "executed"
+  | "failed"
+  | "rejected"
+  | "expired";
+
+/**
+ * Interface for proposed contract transfer limits awaiting a second admin
+ */
+export interface TransferLimitProposal {
+  proposalId: string;
+  minAmount: string;
+  maxAmount: string;
+  reason?: string;
+  status: TransferLimitProposalStatus;
+  // Reserve-based limits calculated when the proposal was made
+  recommendations: TransferLimitResult;
+  proposedBy: AdminAuditActor;
+  decidedBy?: AdminAuditActor;
+  note?: string;
+  transactionHash?: string;
+  error?: string;
+  expiresAt: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Interface for proposal query filters
+ */
+export interface TransferLimitProposalFilter {
+  status?: TransferLimitProposalStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Service requiring two admins for contract transfer limit changes.
+ *
+ * One admin proposes new limits, which are stored with the current
+ * calculateTransferLimits recommendations. A second, unrelated API key
+ * approves the proposal, and only then is updateContractLimits sent. Keys
+ * are related when one created the other or both descend from the same key
+ * below the bootstrap key, so an admin cannot approve their own proposal
+ * with keys they created.
+ * Proposals not approved within LIMIT_PROPOSAL_TTL_MS expire. Proposals,
+ * approvals and rejections are written to the admin audit log.
+ */
+export class TransferLimitProposalService {
+  private store: JsonFileStore<TransferLimitProposal>;
+
+  constructor() {
+    this.store = new JsonFileStore<TransferLimitProposal>(
+      "transfer-limit-proposals"
+    );
+  }
+
+  /**
+   * Propose new contract transfer limits
+   * @param minAmount Minimum transfer amount to set (in IDRX)
+   * @param maxAmount Maximum transfer amount to set (in IDRX)
+   * @param proposedBy Admin making the proposal
+   * @param reason Optional reason for the change
+   * @returns Pending proposal with the current recommendations
+   */
+  public async propose(
+    minAmount: string,
+    maxAmount: string,
+    proposedBy: AdminAuditActor,
+    reason?: string
+  ): Promise<TransferLimitProposal> {
+    const minAmountBN = parseAmount(minAmount);
+    const maxAmountBN = parseAmount(maxAmount);
+
+    if (minAmountBN.lte(0)) {
+      throw new ServiceError("Minimum amount must be greater than 0", 400);
+    }
+
+    if (maxAmountBN.lte(minAmountBN)) {
+      throw new ServiceError(
+        "Maximum amount must be greater than minimum amount",
+        400
+      );
+    }
+
+    const recommendations =
+      await reserveLimitService.calculateTransferLimits();
+
+    const now = Date.now();
+    const proposal: TransferLimitProposal = {
+      proposalId: `tlp_${crypto.randomBytes(12).toString("hex")}`,
+      minAmount,
+      maxAmount,
+      reason,
+      status: "pending",
+      recommendations,
+      proposedBy,
+      expiresAt: now + config.limitProposals.ttlMs,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.set(proposal.proposalId, proposal);
+
+    adminAuditService.record({
+      action: "transferLimits.propose",
+      actor: proposedBy,
+      params: {
+        proposalId: proposal.proposalId,
+        minAmount,
+        maxAmount,
+        reason,
+      },
+      before: {
+        minTransferAmount: recommendations.minTransferAmount,
+        maxTransferAmount: recommendations.maxTransferAmount,
+      },
+      outcome: "succeeded",
+    });
+
+    console.log(
+      `Transfer limit proposal ${proposal.proposalId} ` +
+        `(${minAmount} - ${maxAmount} IDRX) awaiting approval`
+    );
+
+    return proposal;
+  }
+
+  /**
+   * Get a proposal
+   * @param proposalId Proposal ID
+   * @returns Proposal
+   */
+  public getProposal(proposalId: string): TransferLimitProposal {
+    return this.expire(this.findProposal(proposalId));
+  }
+
+  /**
+   * List proposals, newest first
+   * @param filter Query filters and pagination
+   * @returns Matching proposals with pagination info
+   */
+  public listProposals(filter: TransferLimitProposalFilter = {}): {
+    proposals: TransferLimitProposal[];
+    pagination: Pagination;
+  } {
+    const { status, page = 1, limit = 20 } = filter;
+
+    const matching = this.store
+      .values()
+      .map((proposal) => this.expire(proposal))
+      .filter((proposal) => !status || proposal.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const { items, pagination } = paginate(matching, page, limit);
+
+    return { proposals: items, pagination };
+  }
+
+  /**
+   * Approve a proposal and update the contract limits. The approver must be
+   * a different API key than the proposer, with a creator chain independent
+   * of the proposer's.
+   * @param proposalId Proposal ID
+   * @param approvedBy Admin approving the proposal
+   * @param note Optional approval note
+   * @returns Executed (or failed) proposal
+   */
+  public async approve(
+    proposalId: string,
+    approvedBy: AdminAuditActor,
+    note?: string
+  ): Promise<TransferLimitProposal> {
+    const audit = {
+      action: "transferLimits.approve",
+      actor: approvedBy,
+      params: { proposalId, note },
+    };
+
+    let proposal: TransferLimitProposal;
+    try {
+      proposal = this.checkPending(this.findProposal(proposalId), "approved");
+
+      if (
+        !approvedBy.keyId ||
+        approvedBy.keyId === proposal.proposedBy.keyId
+      ) {
+        throw new ServiceError(
+          "Proposals must be approved by a different API key than the proposer",
+          403,
+          "SAME_APPROVER"
+        );
+      }
+
+      this.checkUnrelated(proposal.proposedBy.keyId, approvedBy.keyId);
+    } catch (error) {
+      adminAuditService.record({
+        ...audit,
+        outcome: "rejected",
+        error: (error as Error).message,
+      });
+      throw error;
+    }
+
+    // Set before the first await so concurrent approvals are refused
+    this.update(proposalId, {
+      status: "executing",
+      decidedBy: approvedBy,
+      note,
+    });
+
+    try {
+      const result = await reserveLimitService.updateContractLimits(
+        proposal.minAmount,
+        proposal.maxAmount,
+        approvedBy
+      );
+
+      const updated = this.update(proposalId, {
+        status: result.success ? "executed" : "failed",
+        transactionHash: result.transactionHash,
+        error: result.success ? undefined : "Transaction reverted",
+      });
+
+      adminAuditService.record({
+        ...audit,
+        params: {
+          ...audit.params,
+          minAmount: proposal.minAmount,
+          maxAmount: proposal.maxAmount,
+        },
+        transactionHash: result.transactionHash,
+        outcome: result.success ? "succeeded" : "failed",
+      });
+
+      return updated;
+    } catch (error) {
+      this.update(proposalId, {
+        status: "failed",
+        error: (error as Error).message,
+      });
+
+      adminAuditService.record({
+        ...audit,
+        outcome: "failed",
+        error: (error as Error).message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a pending proposal. Either admin, including the proposer, may
+   * reject it.
+   * @param proposalId Proposal ID
+   * @param rejectedBy Admin rejecting the proposal
+   * @param note Why the proposal was rejected
+   * @returns Rejected proposal
+   */
+  public reject(
+    proposalId: string,
+    rejectedBy: AdminAuditActor,
+    note?: string
+  ): TransferLimitProposal {
+    this.checkPending(this.findProposal(proposalId), "rejected");
+
+    const rejected = this.update(proposalId, {
+      status: "rejected",
+      decidedBy: rejectedBy,
+      note,
+    });
+
+    adminAuditService.record({
+      action: "transferLimits.reject",
+      actor: rejectedBy,
+      params: { proposalId, note },
+      outcome: "succeeded",
+    });
+
+    return rejected;
+  }
+
+  /**
+   * Mark proposals that were executing before a restart as failed, since
+   * their transaction may or may not have been sent. Admins should check the
+   * contract limits and propose again if needed.
+   */
+  public resume(): void {
+    for (const proposal of this.store.values()) {
+      if (proposal.status === "executing") {
+        this.update(proposal.proposalId, {
+          status: "failed",
+          error: "Interrupted by a restart; check the contract limits",
+        });
+      }
+    }
+  }
+
+  /**
+   * Check that a proposal can still be decided
+   * @param proposal Proposal
+   * @param decision What the caller is about to do, for the error message
+   * @returns The proposal
+   */
+  private checkPending(
+    proposal: TransferLimitProposal,
+    decision: "approved" | "rejected"
+  ): TransferLimitProposal {
+    const current = this.expire(proposal);
+
+    if (current.status === "expired") {
+      throw new ServiceError(
+        `Proposal ${proposal.proposalId} has expired`,
+        410,
+        "PROPOSAL_EXPIRED"
+      );
+    }
+
+    if (current.status !== "pending") {
+      throw new ServiceError(
+        `Proposal ${proposal.proposalId} cannot be ${decision} (status ${current.status})`,
+        409,
+        "PROPOSAL_NOT_PENDING"
+      );
+    }
+
+    return current;
+  }
+
+  /**
+   * Check that the two keys have independent creator chains: they may only
+   * share the bootstrap key at the root. A key that created the other, or
+   * created both of them, could have issued them to a single person. The
+   * bootstrap key is the root of every chain, so it takes no part in
+   * approvals.
+   * @param proposerKeyId Key that made the proposal
+   * @param approverKeyId Key approving it
+   */
+  private checkUnrelated(
+    proposerKeyId: string | undefined,
+    approverKeyId: string
+  ): void {
+    const proposerChain = proposerKeyId
+      ? apiKeyService.getCreatorChain(proposerKeyId)
+      : [];
+    const sharedCreators = apiKeyService
+      .getCreatorChain(approverKeyId)
+      .filter((keyId) => proposerChain.includes(keyId));
+
+    if (
+      !proposerKeyId ||
+      proposerKeyId === BOOTSTRAP_KEY_ID ||
+      approverKeyId === BOOTSTRAP_KEY_ID ||
+      sharedCreators.some((keyId) => keyId !== BOOTSTRAP_KEY_ID)
+    ) {
+      throw new ServiceError(
+        "Proposals must be approved by a key whose creator chain is " +
+          "independent of the proposer's key",
+        403,
+        "RELATED_APPROVER"
+      );
+    }
+  }
+
+  /**
+   * Mark a pending proposal expired once its approval window has passed
+   * @param proposal Proposal
+   * @returns Proposal with its current status
+   */
+  private expire(proposal: TransferLimitProposal): TransferLimitProposal {
+    if (proposal.status === "pending" && Date.now() > proposal.expiresAt) {
+      return this.update(proposal.proposalId, { status: "expired" });
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Get a proposal or throw 404
+   * @param proposalId Proposal ID
+   * @returns Proposal
+   */
+  private findProposal(proposalId: string): TransferLimitProposal {
+    const proposal = this.store.get(proposalId);
+
+    if (!proposal) {
+      throw new ServiceError(`Proposal not found: ${proposalId}`, 404);
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Apply changes to a proposal
+   * @param proposalId Proposal ID
+   * @param changes Fields to update
+   * @returns Updated proposal
+   */
+  private update(
+    proposalId: string,
+    changes: Partial<TransferLimitProposal>
+  ): TransferLimitProposal {
+    const updated: TransferLimitProposal = {
+      ...this.findProposal(proposalId),
+      ...changes,
+      updatedAt: Date.now(),
+    };
+
+    this.store.set(proposalId, updated);
+    return updated;
+  }
+}
+
+export default new TransferLimitProposalService();
@@ -0,0 +1,327 @@
+import { ethers } from "ethers";
+import {
+  ServiceError,
+  TransferLifecycleStatus,
+  TransferStatusResponse,
+} from "../types";
+import { getProvider } from "../utils/blockchain";
+import config from "../config/config";
+import { serviceEvents, ServiceEventName } from "../utils/events";
+import transferLedgerService from "./transferLedgerService";
+
+/**
+ * Interface for a tracked transfer
+ */
+export interface TransferStatusRecord {
+  transferId: string;
+  status: TransferLifecycleStatus;
+  recipient: string;
+  amount: string;
+  transactionHash?: string;
+  replacedTransactionHashes?: string[];
+  blockNumber?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Interface for the contract limits observed when a transfer was checked
+ */
+export interface TransferLimitSnapshot {
+  minTransferAmount: string;
+  maxTransferAmount: string;
+  reserve: string;
+}
+
+/**
+ * Service for tracking the lifecycle of meta-transfers.
+ * Every transition is also written to the transfer ledger.
+ */
+export class TransferStatusService {
+  private transfers: Map<string, TransferStatusRecord>;
+
+  constructor() {
+    this.transfers = new Map();
+  }
+
+  /**
+   * Start tracking a transfer in the queued state
+   * @param transferId Transfer ID
+   * @param recipient Recipient address
+   * @param amount IDRX amount
+   * @param limits Contract limits the transfer was checked against
+   */
+  public markQueued(
+    transferId: string,
+    recipient: string,
+    amount: string,
+    limits?: TransferLimitSnapshot
+  ): void {
+    this.pruneFinished();
+
+    const now = Date.now();
+    this.transfers.set(transferId.toLowerCase(), {
+      transferId,
+      status: "queued",
+      recipient,
+      amount,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    transferLedgerService.record({
+      transferId,
+      recipient,
+      idrxAmount: amount,
+      ...limits,
+      status: "queued",
+    });
+    this.emit("transfer.queued", transferId);
+  }
+
+  /**
+   * Record a transfer attempt that was rejected before being queued
+   * @param transferId Transfer ID
+   * @param recipient Recipient address
+   * @param amount IDRX amount
+   * @param error Rejection reason
+   * @param limits Contract limits observed, if they could be read
+   */
+  public markRejected(
+    transferId: string,
+    recipient: string,
+    amount: string,
+    error: string,
+    limits?: TransferLimitSnapshot
+  ): void {
+    transferLedgerService.record({
+      transferId,
+      recipient,
+      idrxAmount: amount,
+      ...limits,
+      status: "failed",
+      error,
+    });
+  }
+
+  /**
+   * Record that the transfer transaction has been broadcast
+   * @param transferId Transfer ID
+   * @param transactionHash Broadcast transaction hash
+   */
+  public markSubmitted(transferId: string, transactionHash: string): void {
+    this.update(transferId, { status: "submitted", transactionHash });
+    transferLedgerService.update(transferId, {
+      status: "submitted",
+      transactionHash,
+    });
+    this.emit("transfer.submitted", transferId);
+  }
+
+  /**
+   * Record that a stuck transfer transaction was replaced with a new one
+   * using the same nonce, so lookups follow the latest hash
+   * @param transferId Transfer ID
+   * @param previousHash Hash of the replaced transaction
+   * @param transactionHash Hash of the replacement transaction
+   */
+  public markReplaced(
+    transferId: string,
+    previousHash: string,
+    transactionHash: string
+  ): void {
+    const entry = transferLedgerService.findEntry(transferId);
+    const replacedTransactionHashes = [
+      ...(entry?.replacedTransactionHashes || []),
+      previousHash,
+    ];
+
+    this.update(transferId, { transactionHash, replacedTransactionHashes });
+    transferLedgerService.update(transferId, {
+      transactionHash,
+      replacedTransactionHashes,
+    });
+  }
+
+  /**
+   * Record that the transfer transaction was mined successfully
+   * @param transferId Transfer ID
+   * @param receipt Receipt of the mined transaction
+   */
+  public markConfirmed(
+    transferId: string,
+    receipt: ethers.providers.TransactionReceipt
+  ): void {
+    this.update(transferId, {
+      status: "confirmed",
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    });
+    transferLedgerService.update(transferId, { status: "confirmed" });
+    transferLedgerService.recordReceipt(transferId, receipt);
+    this.emit("transfer.confirmed", transferId);
+  }
+
+  /**
+   * Record that the transfer failed
+   * @param transferId Transfer ID
+   * @param error Failure reason
+   * @param receipt Receipt of the reverted transaction, if it was mined
+   */
+  public markFailed(
+    transferId: string,
+    error: string,
+    receipt?: ethers.providers.TransactionReceipt
+  ): void {
+    this.update(transferId, {
+      status: "failed",
+      error,
+      ...(receipt && {
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+      }),
+    });
+    transferLedgerService.update(transferId, { status: "failed", error });
+    if (receipt) {
+      transferLedgerService.recordReceipt(transferId, receipt);
+    }
+    this.emit("transfer.failed", transferId);
+  }
+
+  /**
+   * Get the current status of a transfer
+   * @param transferId Transfer ID
+   * @returns Transfer status including live confirmation count
+   */
+  public async getTransferStatus(
+    transferId: string
+  ): Promise<TransferStatusResponse> {
+    const record =
+      this.transfers.get(transferId.toLowerCase()) ||
+      this.fromLedger(transferId);
+
+    if (!record) {
+      throw new ServiceError(`Transfer not found: ${transferId}`, 404);
+    }
+
+    const response: TransferStatusResponse = {
+      success: true,
+      ...record,
+    };
+
+    if (record.blockNumber !== undefined) {
+      try {
+        const currentBlock = await getProvider().getBlockNumber();
+        response.confirmations = Math.max(
+          currentBlock - record.blockNumber + 1,
+          0
+        );
+      } catch (error) {
+        console.warn(
+          `Could not fetch current block for confirmations: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Rebuild a status record from the ledger for transfers no longer tracked
+   * in memory (e.g. after a restart)
+   * @param transferId Transfer ID
+   * @returns Status record or undefined
+   */
+  private fromLedger(transferId: string): TransferStatusRecord | undefined {
+    const entry = transferLedgerService.findEntry(transferId);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    return {
+      transferId: entry.transferId,
+      status: entry.status,
+      recipient: entry.recipient,
+      amount: entry.idrxAmount,
+      transactionHash: entry.transactionHash,
+      replacedTransactionHashes: entry.replacedTransactionHashes,
+      blockNumber: entry.blockNumber,
+      error: entry.error,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+  }
+
+  /**
+   * Publish a transfer lifecycle event with the transfer's ledger state
+   * @param event Event name
+   * @param transferId Transfer ID
+   */
+  private emit(
+    event: Extract<ServiceEventName, `transfer.${string}`>,
+    transferId: string
+  ): void {
+    const entry = transferLedgerService.findEntry(transferId);
+
+    if (!entry) {
+      return;
+    }
+
+    serviceEvents.emit(event, {
+      transferId: entry.transferId,
+      status: entry.status,
+      recipient: entry.recipient,
+      amount: entry.idrxAmount,
+      transactionHash: entry.transactionHash,
+      blockNumber: entry.blockNumber,
+      gasUsed: entry.gasUsed,
+      effectiveGasPrice: entry.effectiveGasPrice,
+      error: entry.error,
+    });
+  }
+
+  /**
+   * Drop confirmed and failed transfers older than the retention window
+   */
+  private pruneFinished(): void {
+    const cutoff = Date.now() - config.transferStatus.retentionMs;
+
+    this.transfers.forEach((record, key) => {
+      if (
+        (record.status === "confirmed" || record.status === "failed") &&
+        record.updatedAt < cutoff
+      ) {
+        this.transfers.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Apply changes to a tracked transfer
+   * @param transferId Transfer ID
+   * @param changes Fields to update
+   */
+  private update(
+    transferId: string,
+    changes: Partial<TransferStatusRecord>
+  ): void {
+    const key = transferId.toLowerCase();
+    const record = this.transfers.get(key);
+
+    if (!record) {
+      return;
+    }
+
+    this.transfers.set(key, {
+      ...record,
+      ...changes,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+export default new TransferStatusService();
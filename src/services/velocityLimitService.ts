@@ -0,0 +1,190 @@
+import { ethers } from "ethers";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import { formatAmount, parseAmount } from "../utils/blockchain";
+import transferLedgerService, {
+  TransferLedgerEntry,
+} from "./transferLedgerService";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Interface for a transfer about to be queued
+ */
+export interface VelocityCandidate {
+  recipient: string;
+  amountBN: ethers.BigNumber;
+}
+
+/**
+ * Service enforcing off-chain velocity rules over rolling windows of the
+ * transfer ledger: IDRX per recipient per 24 hours, transfers per recipient
+ * per hour and total IDRX outflow per hour.
+ *
+ * Checks are synchronous so that a transfer is checked and queued in the
+ * ledger without other requests interleaving.
+ */
+export class VelocityLimitService {
+  /**
+   * Check that transfers can be queued without breaking a velocity rule.
+   * Transfers in the same call (a batch) count towards each other's limits.
+   * @param candidates Transfers about to be queued
+   */
+  public check(candidates: VelocityCandidate[]): void {
+    const { recipientDailyAmount, recipientHourlyCount, globalHourlyAmount } =
+      config.velocity;
+
+    if (
+      !recipientDailyAmount &&
+      !recipientHourlyCount &&
+      !globalHourlyAmount
+    ) {
+      return;
+    }
+
+    const now = Date.now();
+    const entries = transferLedgerService.listOutflowSince(now - DAY_MS);
+    const hourly = entries.filter((entry) => entry.createdAt >= now - HOUR_MS);
+
+    const byRecipient = new Map<string, VelocityCandidate[]>();
+    for (const candidate of candidates) {
+      const key = candidate.recipient.toLowerCase();
+      byRecipient.set(key, [...(byRecipient.get(key) || []), candidate]);
+    }
+
+    for (const [key, transfers] of byRecipient) {
+      const recipient = transfers[0].recipient;
+      const isRecipient = (entry: TransferLedgerEntry) =>
+        entry.recipient.toLowerCase() === key;
+
+      if (recipientDailyAmount) {
+        this.checkAmount(
+          entries.filter(isRecipient),
+          this.sum(transfers),
+          parseAmount(recipientDailyAmount),
+          DAY_MS,
+          now,
+          (used, limit) =>
+            new ServiceError(
+              `Recipient daily limit exceeded: ${recipient} has received ` +
+                `${used} of ${limit} IDRX in the last 24 hours`,
+              403,
+              "RECIPIENT_DAILY_AMOUNT"
+            )
+        );
+      }
+
+      if (recipientHourlyCount) {
+        const recent = hourly.filter(isRecipient);
+
+        if (recent.length + transfers.length > recipientHourlyCount) {
+          const error = new ServiceError(
+            `Recipient hourly transfer limit exceeded: ${recipient} has ` +
+              `received ${recent.length} of ${recipientHourlyCount} ` +
+              "transfers in the last hour",
+            429,
+            "RECIPIENT_HOURLY_COUNT"
+          );
+
+          // The transfers that must leave the window before this one fits
+          const excess =
+            recent.length + transfers.length - recipientHourlyCount;
+          const blocking = recent[excess - 1];
+          if (blocking && transfers.length <= recipientHourlyCount) {
+            error.retryAfter = this.secondsUntil(
+              blocking.createdAt + HOUR_MS,
+              now
+            );
+          }
+
+          throw error;
+        }
+      }
+    }
+
+    if (globalHourlyAmount) {
+      this.checkAmount(
+        hourly,
+        this.sum(candidates),
+        parseAmount(globalHourlyAmount),
+        HOUR_MS,
+        now,
+        (used, limit) =>
+          new ServiceError(
+            `Hourly outflow limit exceeded: ${used} of ${limit} IDRX ` +
+              "transferred in the last hour",
+            429,
+            "GLOBAL_HOURLY_OUTFLOW"
+          )
+      );
+    }
+  }
+
+  /**
+   * Check an amount rule over a rolling window
+   * @param entries Ledger entries in the window, oldest first
+   * @param amountBN Amount about to be transferred
+   * @param limitBN Maximum amount in the window
+   * @param windowMs Window length
+   * @param now Current time
+   * @param toError Build the error from the used amount and the limit
+   */
+  private checkAmount(
+    entries: TransferLedgerEntry[],
+    amountBN: ethers.BigNumber,
+    limitBN: ethers.BigNumber,
+    windowMs: number,
+    now: number,
+    toError: (used: string, limit: string) => ServiceError
+  ): void {
+    let usedBN = entries.reduce(
+      (sum, entry) => sum.add(parseAmount(entry.idrxAmount)),
+      ethers.BigNumber.from(0)
+    );
+
+    if (usedBN.add(amountBN).lte(limitBN)) {
+      return;
+    }
+
+    const error = toError(formatAmount(usedBN), formatAmount(limitBN));
+
+    // Find when enough of the window has expired for the amount to fit
+    if (amountBN.lte(limitBN)) {
+      for (const entry of entries) {
+        usedBN = usedBN.sub(parseAmount(entry.idrxAmount));
+
+        if (usedBN.add(amountBN).lte(limitBN)) {
+          error.retryAfter = this.secondsUntil(entry.createdAt + windowMs, now);
+          break;
+        }
+      }
+    }
+
+    throw error;
+  }
+
+  /**
+   * Total amount of transfers
+   * @param transfers Transfers
+   * @returns Sum of their amounts
+   */
+  private sum(transfers: VelocityCandidate[]): ethers.BigNumber {
+    return transfers.reduce(
+      (sum, transfer) => sum.add(transfer.amountBN),
+      ethers.BigNumber.from(0)
+    );
+  }
+
+  /**
+   * Whole seconds until a time, at least 1
+   * @param time Target time (ms timestamp)
+   * @param now Current time
+   * @returns Seconds
+   */
+  private secondsUntil(time: number, now: number): number {
+    return Math.max(Math.ceil((time - now) / 1000), 1);
+  }
+}
+
+export default new VelocityLimitService();
@@ -0,0 +1,496 @@
+import axios from "axios";
+import crypto from "crypto";
+import config from "../config/config";
+import { ServiceError } from "../types";
+import {
+  SERVICE_EVENTS,
+  ServiceEventMap,
+  ServiceEventName,
+  serviceEvents,
+} from "../utils/events";
+import { JsonFileStore } from "../utils/jsonFileStore";
+import { paginate, Pagination } from "../utils/pagination";
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Interface for a webhook subscription
+ */
+export interface WebhookSubscription {
+  subscriptionId: string;
+  url: string;
+  secret: string;
+  events: ServiceEventName[];
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Webhook subscription as returned by the API, without its secret
+ */
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, "secret">;
+
+/**
+ * Interface for a single attempt to deliver a webhook
+ */
+export interface WebhookAttempt {
+  attemptedAt: number;
+  durationMs: number;
+  responseStatus?: number;
+  error?: string;
+}
+
+/**
+ * Interface for the delivery of one event to one subscription
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  eventId: string;
+  event: ServiceEventName;
+  payload: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: number;
+  redeliveryOf?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Interface for delivery query filters
+ */
+export interface WebhookDeliveryFilter {
+  status?: WebhookDelivery["status"];
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Service delivering service events to partner webhooks.
+ *
+ * Each delivery is a POST of the JSON event, signed with the subscription
+ * secret: `X-Zap-Signature` is `sha256=` followed by the hex HMAC-SHA256 of
+ * `<X-Zap-Timestamp>.<body>`. Deliveries that do not get a 2xx response are
+ * retried with exponential backoff up to WEBHOOK_MAX_ATTEMPTS times, and
+ * every attempt is kept in the delivery log until the delivery has been
+ * finished for WEBHOOK_DELIVERY_RETENTION_MS.
+ */
+export class WebhookService {
+  private subscriptions: JsonFileStore<WebhookSubscription>;
+  private deliveries: JsonFileStore<WebhookDelivery>;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private started = false;
+
+  constructor() {
+    this.subscriptions = new JsonFileStore<WebhookSubscription>("webhooks");
+    this.deliveries = new JsonFileStore<WebhookDelivery>(
+      "webhook-deliveries"
+    );
+  }
+
+  /**
+   * Subscribe to service events and resume deliveries that were pending
+   * when the service stopped
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    for (const event of SERVICE_EVENTS) {
+      serviceEvents.on(event, (data) => this.publish(event, data));
+    }
+
+    this.pruneFinished();
+
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status === "pending") {
+        this.schedule(delivery);
+      }
+    }
+  }
+
+  /**
+   * Create a webhook subscription
+   * @param url Endpoint receiving the events
+   * @param events Events to deliver
+   * @param secret Signing secret; generated when omitted
+   * @param description Optional description
+   * @returns Subscription including its secret
+   */
+  public createSubscription(
+    url: string,
+    events: ServiceEventName[],
+    secret?: string,
+    description?: string
+  ): WebhookSubscription {
+    const now = Date.now();
+    const subscription: WebhookSubscription = {
+      subscriptionId: `wh_${crypto.randomBytes(12).toString("hex")}`,
+      url,
+      secret: secret || `whsec_${crypto.randomBytes(32).toString("hex")}`,
+      events: Array.from(new Set(events)),
+      description,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.subscriptions.set(subscription.subscriptionId, subscription);
+
+    return subscription;
+  }
+
+  /**
+   * List webhook subscriptions
+   * @returns Subscriptions without their secrets
+   */
+  public listSubscriptions(): WebhookSubscriptionSummary[] {
+    return this.subscriptions
+      .values()
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((subscription) => this.summarize(subscription));
+  }
+
+  /**
+   * Get a webhook subscription
+   * @param subscriptionId Subscription ID
+   * @returns Subscription without its secret
+   */
+  public getSubscription(subscriptionId: string): WebhookSubscriptionSummary {
+    return this.summarize(this.findSubscription(subscriptionId));
+  }
+
+  /**
+   * Delete a webhook subscription and cancel its pending deliveries
+   * @param subscriptionId Subscription ID
+   */
+  public deleteSubscription(subscriptionId: string): void {
+    this.findSubscription(subscriptionId);
+    this.subscriptions.delete(subscriptionId);
+
+    for (const delivery of this.deliveries.values()) {
+      if (
+        delivery.subscriptionId === subscriptionId &&
+        delivery.status === "pending"
+      ) {
+        this.cancelTimer(delivery.deliveryId);
+        this.updateDelivery(delivery.deliveryId, {
+          status: "failed",
+          nextAttemptAt: undefined,
+        });
+      }
+    }
+  }
+
+  /**
+   * List the deliveries of a subscription, newest first
+   * @param subscriptionId Subscription ID
+   * @param filter Query filters and pagination
+   * @returns Matching deliveries with pagination info
+   */
+  public listDeliveries(
+    subscriptionId: string,
+    filter: WebhookDeliveryFilter = {}
+  ): {
+    deliveries: WebhookDelivery[];
+    pagination: Pagination;
+  } {
+    this.findSubscription(subscriptionId);
+
+    const { status, page = 1, limit = 20 } = filter;
+
+    const matching = this.deliveries
+      .values()
+      .filter(
+        (delivery) =>
+          delivery.subscriptionId === subscriptionId &&
+          (!status || delivery.status === status)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const { items, pagination } = paginate(matching, page, limit);
+
+    return { deliveries: items, pagination };
+  }
+
+  /**
+   * Deliver an event again as a new delivery, whatever the outcome of the
+   * original delivery
+   * @param deliveryId Delivery to repeat
+   * @returns New delivery
+   */
+  public redeliver(deliveryId: string): WebhookDelivery {
+    const original = this.deliveries.get(deliveryId);
+
+    if (!original) {
+      throw new ServiceError(`Delivery not found: ${deliveryId}`, 404);
+    }
+
+    const subscription = this.findSubscription(original.subscriptionId);
+
+    return this.enqueue(subscription, original.eventId, original.event, {
+      payload: original.payload,
+      redeliveryOf: original.deliveryId,
+    });
+  }
+
+  /**
+   * Queue deliveries of an event to all subscriptions that want it
+   * @param event Event name
+   * @param data Event payload
+   */
+  private publish<E extends ServiceEventName>(
+    event: E,
+    data: ServiceEventMap[E]
+  ): void {
+    const subscribers = this.subscriptions
+      .values()
+      .filter((subscription) => subscription.events.includes(event));
+
+    if (subscribers.length === 0) {
+      return;
+    }
+
+    this.pruneFinished();
+
+    const eventId = `evt_${crypto.randomBytes(12).toString("hex")}`;
+    const payload = JSON.stringify({
+      id: eventId,
+      event,
+      createdAt: Date.now(),
+      data,
+    });
+
+    for (const subscription of subscribers) {
+      this.enqueue(subscription, eventId, event, { payload });
+    }
+  }
+
+  /**
+   * Record a delivery and attempt it right away
+   * @param subscription Target subscription
+   * @param eventId Event ID
+   * @param event Event name
+   * @param options Serialized event and the delivery it repeats, if any
+   * @returns Delivery record
+   */
+  private enqueue(
+    subscription: WebhookSubscription,
+    eventId: string,
+    event: ServiceEventName,
+    options: { payload: string; redeliveryOf?: string }
+  ): WebhookDelivery {
+    const now = Date.now();
+    const delivery: WebhookDelivery = {
+      deliveryId: `whd_${crypto.randomBytes(12).toString("hex")}`,
+      subscriptionId: subscription.subscriptionId,
+      eventId,
+      event,
+      payload: options.payload,
+      status: "pending",
+      attempts: [],
+      nextAttemptAt: now,
+      redeliveryOf: options.redeliveryOf,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.deliveries.set(delivery.deliveryId, delivery);
+    this.schedule(delivery);
+
+    return delivery;
+  }
+
+  /**
+   * Schedule the next attempt of a pending delivery
+   * @param delivery Pending delivery
+   */
+  private schedule(delivery: WebhookDelivery): void {
+    this.cancelTimer(delivery.deliveryId);
+
+    const delay = Math.max((delivery.nextAttemptAt || 0) - Date.now(), 0);
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.deliveryId);
+      this.attempt(delivery.deliveryId).catch((error) => {
+        console.error(
+          `Webhook delivery ${delivery.deliveryId} failed:`,
+          error.message
+        );
+      });
+    }, delay);
+    timer.unref();
+
+    this.timers.set(delivery.deliveryId, timer);
+  }
+
+  /**
+   * POST a delivery to its subscription and record the outcome
+   * @param deliveryId Delivery ID
+   */
+  private async attempt(deliveryId: string): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== "pending") {
+      return;
+    }
+
+    const subscription = this.subscriptions.get(delivery.subscriptionId);
+    if (!subscription) {
+      this.updateDelivery(deliveryId, {
+        status: "failed",
+        nextAttemptAt: undefined,
+      });
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto
+      .createHmac("sha256", subscription.secret)
+      .update(`${timestamp}.${delivery.payload}`)
+      .digest("hex");
+
+    const startedAt = Date.now();
+    const attempt: WebhookAttempt = { attemptedAt: startedAt, durationMs: 0 };
+
+    try {
+      const response = await axios.post(subscription.url, delivery.payload, {
+        headers: {
+          "Content-Type": "application/json",
+          "X-Zap-Event": delivery.event,
+          "X-Zap-Delivery": delivery.deliveryId,
+          "X-Zap-Timestamp": timestamp,
+          "X-Zap-Signature": `sha256=${signature}`,
+        },
+        timeout: config.webhooks.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+
+      attempt.responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        attempt.error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      attempt.error = (error as Error).message;
+    }
+
+    attempt.durationMs = Date.now() - startedAt;
+
+    const attempts = [...delivery.attempts, attempt];
+
+    if (!attempt.error) {
+      this.updateDelivery(deliveryId, {
+        status: "delivered",
+        attempts,
+        nextAttemptAt: undefined,
+      });
+      return;
+    }
+
+    if (attempts.length >= config.webhooks.maxAttempts) {
+      console.warn(
+        `Webhook delivery ${deliveryId} to ${subscription.url} failed after ` +
+          `${attempts.length} attempts: ${attempt.error}`
+      );
+      this.updateDelivery(deliveryId, {
+        status: "failed",
+        attempts,
+        nextAttemptAt: undefined,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      config.webhooks.retryBaseDelayMs * 2 ** (attempts.length - 1),
+      MAX_RETRY_DELAY_MS
+    );
+
+    this.schedule(
+      this.updateDelivery(deliveryId, {
+        attempts,
+        nextAttemptAt: Date.now() + delay,
+      })
+    );
+  }
+
+  /**
+   * Drop delivered and failed deliveries older than the retention period
+   */
+  private pruneFinished(): void {
+    const cutoff = Date.now() - config.webhooks.deliveryRetentionMs;
+
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status !== "pending" && delivery.updatedAt < cutoff) {
+        this.deliveries.delete(delivery.deliveryId);
+      }
+    }
+  }
+
+  /**
+   * Cancel the scheduled attempt of a delivery
+   * @param deliveryId Delivery ID
+   */
+  private cancelTimer(deliveryId: string): void {
+    const timer = this.timers.get(deliveryId);
+
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(deliveryId);
+    }
+  }
+
+  /**
+   * Get a subscription or throw 404
+   * @param subscriptionId Subscription ID
+   * @returns Subscription
+   */
+  private findSubscription(subscriptionId: string): WebhookSubscription {
+    const subscription = this.subscriptions.get(subscriptionId);
+
+    if (!subscription) {
+      throw new ServiceError(
+        `Webhook subscription not found: ${subscriptionId}`,
+        404
+      );
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Strip the secret from a subscription
+   * @param subscription Subscription
+   * @returns Subscription without its secret
+   */
+  private summarize(
+    subscription: WebhookSubscription
+  ): WebhookSubscriptionSummary {
+    const { secret, ...summary } = subscription;
+    return summary;
+  }
+
+  /**
+   * Apply changes to a delivery
+   * @param deliveryId Delivery ID
+   * @param changes Fields to update
+   * @returns Updated delivery
+   */
+  private updateDelivery(
+    deliveryId: string,
+    changes: Partial<WebhookDelivery>
+  ): WebhookDelivery {
+    const updated = {
+      ...(this.deliveries.get(deliveryId) as WebhookDelivery),
+      ...changes,
+      updatedAt: Date.now(),
+    };
+
+    this.deliveries.set(deliveryId, updated);
+
+    return updated;
+  }
+}
+
+export default new WebhookService();
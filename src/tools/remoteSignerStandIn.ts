@@ -0,0 +1,120 @@
+import dotenv from "dotenv";
+import express, { NextFunction, Request, Response } from "express";
+import { ethers } from "ethers";
+
+dotenv.config();
+
+/**
+ * Local stand-in for a remote signing service, for development and testing
+ * of SIGNER_TYPE=remote. It holds raw keys in memory and must never be used
+ * in production.
+ *
+ * Keys come from STAND_IN_SIGNER_KEYS (comma-separated) and requests must
+ * carry REMOTE_SIGNER_AUTH_TOKEN as a bearer token when it is set.
+ */
+const startStandIn = (): void => {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("The remote signer stand-in cannot run in production");
+  }
+
+  const wallets = new Map<string, ethers.Wallet>();
+  for (const key of (process.env.STAND_IN_SIGNER_KEYS || "").split(",")) {
+    if (key.trim()) {
+      const wallet = new ethers.Wallet(key.trim());
+      wallets.set(wallet.address.toLowerCase(), wallet);
+    }
+  }
+
+  if (wallets.size === 0) {
+    throw new Error("STAND_IN_SIGNER_KEYS is required");
+  }
+
+  const authToken = process.env.REMOTE_SIGNER_AUTH_TOKEN;
+  const port = parseInt(process.env.STAND_IN_SIGNER_PORT || "7070");
+  const app = express();
+
+  app.use(express.json());
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (authToken && req.headers.authorization !== `Bearer ${authToken}`) {
+      res.status(401).json({ success: false, error: "Unauthorized" });
+      return;
+    }
+    next();
+  });
+
+  const getWallet = (req: Request, res: Response): ethers.Wallet | null => {
+    const wallet = wallets.get(String(req.body.address).toLowerCase());
+
+    if (!wallet) {
+      res.status(404).json({ success: false, error: "Unknown account" });
+      return null;
+    }
+
+    return wallet;
+  };
+
+  app.get("/accounts", (req: Request, res: Response) => {
+    res.json({
+      addresses: Array.from(wallets.values()).map((wallet) => wallet.address),
+    });
+  });
+
+  app.post("/sign-transaction", async (req: Request, res: Response) => {
+    const wallet = getWallet(req, res);
+    if (!wallet) {
+      return;
+    }
+
+    try {
+      const parsed = ethers.utils.parseTransaction(req.body.transaction);
+      const { hash, from, r, s, v, type, ...unsigned } = parsed;
+
+      console.log(
+        `Signing transaction from ${wallet.address} (nonce ${parsed.nonce})`
+      );
+
+      res.json({
+        signedTransaction: await wallet.signTransaction({
+          ...unsigned,
+          type: type === null ? undefined : type,
+        }),
+      });
+    } catch (error) {
+      res.status(400).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  app.post("/sign-message", async (req: Request, res: Response) => {
+    const wallet = getWallet(req, res);
+    if (!wallet) {
+      return;
+    }
+
+    try {
+      res.json({
+        signature: await wallet.signMessage(
+          ethers.utils.arrayify(req.body.message)
+        ),
+      });
+    } catch (error) {
+      res.status(400).json({ success: false, error: (error as Error).message });
+    }
+  });
+
+  app.listen(port, () => {
+    console.log(`Remote signer stand-in running on port ${port}`);
+    console.log(
+      `Accounts: ${Array.from(wallets.values())
+        .map((wallet) => wallet.address)
+        .join(", ")}`
+    );
+  });
+};
+
+try {
+  startStandIn();
+} catch (error) {
+  console.error("Failed to start remote signer stand-in:", error);
+  process.exit(1);
+}
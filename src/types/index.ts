@@ -1,17 +1,121 @@
 import { ethers } from "ethers";
+import { OperatorGasStatus } from "../utils/events";
 
 export interface MetaTransferRequest {
   recipient: string;
-  idrxAmount: string;
+  idrxAmount?: string;
+  idempotencyKey?: string;
+  async?: boolean;
+  network?: string;
+  depositTxHash?: string;
+  token?: string;
+  quoteId?: string;
+  intent?: TransferIntentSignature;
+  simulate?: boolean;
+}
+
+export interface TransferIntentSignature {
+  nonce: string;
+  deadline: number;
+  signature: string;
 }
 
+export type TransferLifecycleStatus =
+  | "queued"
+  | "submitted"
+  | "confirmed"
+  | "failed";
+
 export interface MetaTransferResponse {
   success: boolean;
   transferId?: string;
+  status?: TransferLifecycleStatus;
   recipient?: string;
   amount?: string;
   transactionHash?: string;
   error?: string;
+  simulated?: boolean;
+  simulation?: TransferSimulationResult;
+}
+
+export interface TransferSimulationResult {
+  wouldSucceed: boolean;
+  error?: string;
+  statusCode?: number;
+  revertReason?: string;
+  gasEstimate?: string;
+  gasPrice?: string;
+  estimatedFee?: string;
+  reserve?: string;
+  projectedReserve?: string;
+}
+
+export interface TransferStatusResponse {
+  success: boolean;
+  transferId: string;
+  status: TransferLifecycleStatus;
+  recipient: string;
+  amount: string;
+  transactionHash?: string;
+  replacedTransactionHashes?: string[];
+  blockNumber?: number;
+  confirmations?: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BatchTransferItem {
+  recipient: string;
+  idrxAmount: string;
+}
+
+export interface BatchTransferRequest {
+  transfers: BatchTransferItem[];
+  idempotencyKey?: string;
+  async?: boolean;
+}
+
+export interface BatchTransferItemResult {
+  index: number;
+  success: boolean;
+  transferId?: string;
+  status?: TransferLifecycleStatus;
+  recipient: string;
+  amount: string;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface BatchTransferResponse {
+  success: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  totalAmount: string;
+  results: BatchTransferItemResult[];
+}
+
+export interface OperatorGasBalance {
+  address: string;
+  status: OperatorGasStatus;
+  // Native balance in ETH (null if it could not be fetched)
+  balance: string | null;
+  estimatedTransfersRemaining: number | null;
+  checkedAt: number;
+  error?: string;
+}
+
+export interface OperatorGasReport {
+  gasPriceGwei: string;
+  averageGasUsed: string;
+  // Gas samples the average is based on; 0 means the fallback limit is used
+  sampleSize: number;
+  estimatedCostPerTransfer: string;
+  alertBelowTransfers: number;
+  rejectBelowTransfers: number;
+  operators: OperatorGasBalance[];
+  checkedAt: number;
 }
 
 export interface StatusResponse {
@@ -20,6 +124,7 @@ export interface StatusResponse {
   reserve?: string;
   minTransferAmount?: string;
   maxTransferAmount?: string;
+  operatorGas?: OperatorGasReport;
   error?: string;
 }
 
@@ -31,10 +136,15 @@ export interface ReserveStatus {
 
 export class ServiceError extends Error {
   statusCode: number;
+  // Machine-readable reason, returned to clients when set
+  code?: string;
+  // Seconds until the request may succeed, sent as Retry-After when set
+  retryAfter?: number;
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, code?: string) {
     super(message);
     this.statusCode = statusCode;
+    this.code = code;
     this.name = "ServiceError";
   }
 }
@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+import config from "../config/config";
+
+/**
+ * Error raised when a log file in the data directory cannot be parsed. The
+ * file is left untouched so an operator can inspect and repair it; the
+ * service refuses to start rather than serve from partial data.
+ */
+export class CorruptLogError extends Error {
+  public readonly line: number;
+
+  constructor(filePath: string, line: number, reason: string) {
+    super(`Corrupt data file ${filePath} at line ${line}: ${reason}`);
+    this.name = "CorruptLogError";
+    this.line = line;
+  }
+}
+
+/**
+ * JSON Lines file in the data directory, written by appending one record
+ * per line to a file opened in append mode. Writing a record costs the size
+ * of the record, not the size of the file.
+ */
+export class AppendOnlyLog<T> {
+  public readonly filePath: string;
+  private fd?: number;
+
+  /**
+   * @param name Log name, used as the file name inside the data directory
+   */
+  constructor(name: string) {
+    this.filePath = path.resolve(config.storage.dataDir, `${name}.jsonl`);
+  }
+
+  /**
+   * Check whether the log file exists
+   * @returns true if the file exists
+   */
+  public exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  /**
+   * Read every record in the log. A final line without a newline is an
+   * append interrupted by a crash; it is cut off so later appends start on
+   * a fresh line. Any other unparsable line throws CorruptLogError.
+   * @returns Records in the order they were appended
+   */
+  public read(): T[] {
+    if (!this.exists()) {
+      return [];
+    }
+
+    const raw = fs.readFileSync(this.filePath, "utf8");
+    const complete = raw.lastIndexOf("\n") + 1;
+
+    if (complete < raw.length) {
+      console.warn(
+        `Dropping incomplete last line of ${this.filePath} ` +
+          `(${raw.length - complete} bytes)`
+      );
+      fs.truncateSync(this.filePath, Buffer.byteLength(raw.slice(0, complete)));
+    }
+
+    const records: T[] = [];
+    const lines = raw.slice(0, complete).split("\n");
+
+    for (const [index, line] of lines.entries()) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch (error) {
+        throw new CorruptLogError(
+          this.filePath,
+          index + 1,
+          (error as Error).message
+        );
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Append a record to the log
+   * @param record Record to append
+   */
+  public append(record: T): void {
+    if (this.fd === undefined) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.fd = fs.openSync(this.filePath, "a");
+    }
+
+    fs.writeSync(this.fd, `${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Replace the log with the given records (write to temp file, then
+   * rename), e.g. to compact it
+   * @param records Records the new log holds
+   */
+  public rewrite(records: T[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(
+      tmpPath,
+      records.map((record) => `${JSON.stringify(record)}\n`).join("")
+    );
+
+    this.close();
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Close the file; the next append reopens it
+   */
+  public close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+}
@@ -1,28 +1,53 @@
 import { ethers } from "ethers";
 import crypto from "crypto";
 import config from "../config/config";
+import { verifyDeployment } from "../contracts/verifyDeployment";
+import {
+  IDRXTransferManager,
+  connectTransferManager,
+} from "../contracts/IDRXTransferManager";
 import { ServiceError } from "../types";
+import { OperatorPool } from "./operatorPool";
+import { createSignerProvider } from "./signerProvider";
 
 let provider: ethers.providers.JsonRpcProvider;
-let wallet: ethers.Wallet;
-let contract: ethers.Contract;
+let contract: IDRXTransferManager;
+let operatorPool: OperatorPool;
 
 /**
- * Initialize blockchain connection and contract instance
+ * Initialize blockchain connection, operator signers and contract instance
  */
-export const initializeBlockchain = (): void => {
+export const initializeBlockchain = async (): Promise<void> => {
   try {
     provider = new ethers.providers.JsonRpcProvider(
       config.blockchain.liskRpcUrl
     );
-    wallet = new ethers.Wallet(
-      config.blockchain.operatorPrivateKey as string,
+    // Contract reads go through the provider, not an operator key, so they
+    // keep working whichever operators are retired
+    contract = connectTransferManager(
+      config.blockchain.contractAddress as string,
       provider
     );
-    contract = new ethers.Contract(
+    operatorPool = new OperatorPool(
+      provider,
+      config.blockchain.contractAddress as string
+    );
+
+    await verifyDeployment(
+      provider,
       config.blockchain.contractAddress as string,
-      config.contractAbi,
-      wallet
+      config.contractCheck.mode
+    );
+
+    const signerProvider = createSignerProvider();
+    const signers = await signerProvider.getSigners(provider);
+
+    for (const signer of signers) {
+      await operatorPool.addSigner(signer);
+    }
+
+    console.log(
+      `Loaded ${signers.length} operator signer(s) from ${signerProvider.type} provider`
     );
   } catch (error) {
     console.error("Failed to initialize blockchain connection:", error);
@@ -39,16 +64,39 @@ export const generateTransferId = (): string => {
 };
 
 /**
- * Get contract
- * @returns Ethers Contract instance
+ * Get contract for reads. Transactions are sent through an operator's
+ * contract instead.
+ * @returns Typed IDRXTransferManager instance connected to the provider
  */
-export const getContract = (): ethers.Contract => {
+export const getContract = (): IDRXTransferManager => {
   if (!contract) {
     throw new ServiceError("Blockchain connection not initialized", 500);
   }
   return contract;
 };
 
+/**
+ * Get the pool of operator wallets transfers are sent from
+ * @returns Operator pool
+ */
+export const getOperatorPool = (): OperatorPool => {
+  if (!operatorPool) {
+    throw new ServiceError("Blockchain connection not initialized", 500);
+  }
+  return operatorPool;
+};
+
+/**
+ * Get provider
+ * @returns Ethers JSON-RPC provider for the Lisk network
+ */
+export const getProvider = (): ethers.providers.JsonRpcProvider => {
+  if (!provider) {
+    throw new ServiceError("Blockchain connection not initialized", 500);
+  }
+  return provider;
+};
+
 /**
  * Validate and format amount
  * @param amount Amount as string
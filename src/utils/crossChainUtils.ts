@@ -543,6 +543,11 @@ export async function getTransactionStatus(
     console.error(
       `Error getting transaction status: ${(error as Error).message}`
     );
+
+    if (error instanceof ServiceError) {
+      throw error;
+    }
+
     throw new ServiceError(
       `Failed to get transaction status: ${(error as Error).message}`,
       500
@@ -556,17 +561,19 @@ export async function getTransactionStatus(
  * @param txHash Transaction hash
  * @param confirmations Number of confirmations to wait for
  * @param isTestnet Whether to use testnet
+ * @param timeout Optional maximum time to wait in milliseconds
  * @returns Transaction receipt
  */
 export async function waitForConfirmation(
   network: string,
   txHash: string,
   confirmations: number = 1,
-  isTestnet: boolean = false
+  isTestnet: boolean = false,
+  timeout?: number
 ): Promise<ethers.providers.TransactionReceipt> {
   try {
     const { provider } = getNetworkProvider(network, isTestnet);
-    return await provider.waitForTransaction(txHash, confirmations);
+    return await provider.waitForTransaction(txHash, confirmations, timeout);
   } catch (error) {
     console.error(
       `Error waiting for confirmation: ${(error as Error).message}`
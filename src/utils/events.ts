@@ -0,0 +1,114 @@
+import { EventEmitter } from "events";
+import { TransferLifecycleStatus } from "../types";
+
+/**
+ * Reserve health levels, from most to least funded
+ */
+export type ReserveHealthStatus =
+  | "EXCELLENT"
+  | "GOOD"
+  | "MODERATE"
+  | "LOW"
+  | "CRITICAL";
+
+/**
+ * Payload of transfer lifecycle events
+ */
+export interface TransferEventData {
+  transferId: string;
+  status: TransferLifecycleStatus;
+  recipient: string;
+  amount: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  error?: string;
+}
+
+/**
+ * Payload of reserve health change events
+ */
+export interface ReserveHealthEventData {
+  previousStatus?: ReserveHealthStatus;
+  healthStatus: ReserveHealthStatus;
+  reserve: string;
+}
+
+/**
+ * Gas funding levels of an operator wallet
+ */
+export type OperatorGasStatus = "ok" | "low" | "critical";
+
+/**
+ * Payload of operator gas status change events
+ */
+export interface OperatorGasEventData {
+  address: string;
+  previousStatus?: OperatorGasStatus;
+  status: OperatorGasStatus;
+  balance: string;
+  estimatedTransfersRemaining: number;
+}
+
+/**
+ * Service events and their payloads
+ */
+export interface ServiceEventMap {
+  "transfer.queued": TransferEventData;
+  "transfer.submitted": TransferEventData;
+  "transfer.confirmed": TransferEventData;
+  "transfer.failed": TransferEventData;
+  "reserve.health_changed": ReserveHealthEventData;
+  "operator.gas_status_changed": OperatorGasEventData;
+}
+
+export type ServiceEventName = keyof ServiceEventMap;
+
+export const SERVICE_EVENTS: ServiceEventName[] = [
+  "transfer.queued",
+  "transfer.submitted",
+  "transfer.confirmed",
+  "transfer.failed",
+  "reserve.health_changed",
+  "operator.gas_status_changed",
+];
+
+/**
+ * Process-wide bus for service events. Listeners run synchronously in the
+ * emitting call, so they must not throw or block.
+ */
+class ServiceEvents {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  public emit<E extends ServiceEventName>(
+    event: E,
+    data: ServiceEventMap[E]
+  ): void {
+    try {
+      this.emitter.emit(event, data);
+    } catch (error) {
+      console.error(`Listener for ${event} failed:`, error);
+    }
+  }
+
+  public on<E extends ServiceEventName>(
+    event: E,
+    listener: (data: ServiceEventMap[E]) => void
+  ): void {
+    this.emitter.on(event, listener);
+  }
+
+  public off<E extends ServiceEventName>(
+    event: E,
+    listener: (data: ServiceEventMap[E]) => void
+  ): void {
+    this.emitter.off(event, listener);
+  }
+}
+
+export const serviceEvents = new ServiceEvents();
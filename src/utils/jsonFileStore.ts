@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import config from "../config/config";
+import { AppendOnlyLog, CorruptLogError } from "./appendOnlyLog";
+
+// The log is compacted once it holds this many lines more than twice the
+// number of live records
+const COMPACT_SLACK = 1000;
+
+/**
+ * One change to a store: a record written under a key, or a key removed
+ */
+interface JsonFileStoreChange<T> {
+  key: string;
+  value?: T;
+  deleted?: boolean;
+}
+
+/**
+ * Simple key-value store persisted in the data directory. Records are held
+ * in memory; every set or delete appends one line to a change log, which is
+ * compacted to the live records once it grows well past them. A store whose
+ * file cannot be parsed throws on construction, so the service does not
+ * start on partial data.
+ */
+export class JsonFileStore<T> {
+  private readonly log: AppendOnlyLog<JsonFileStoreChange<T>>;
+  private records: Map<string, T>;
+  private lines = 0;
+
+  /**
+   * @param name Store name, used as the file name inside the data directory
+   */
+  constructor(name: string) {
+    this.log = new AppendOnlyLog<JsonFileStoreChange<T>>(name);
+    this.records = this.load(
+      path.resolve(config.storage.dataDir, `${name}.json`)
+    );
+  }
+
+  /**
+   * Get a record by key
+   * @param key Record key
+   * @returns Stored record or undefined
+   */
+  public get(key: string): T | undefined {
+    return this.records.get(key);
+  }
+
+  /**
+   * Check whether a record exists
+   * @param key Record key
+   * @returns true if a record is stored under the key
+   */
+  public has(key: string): boolean {
+    return this.records.has(key);
+  }
+
+  /**
+   * Insert or replace a record and persist the change
+   * @param key Record key
+   * @param value Record value
+   */
+  public set(key: string, value: T): void {
+    this.records.set(key, value);
+    this.persist({ key, value });
+  }
+
+  /**
+   * Remove a record and persist the change
+   * @param key Record key
+   * @returns true if a record was removed
+   */
+  public delete(key: string): boolean {
+    const removed = this.records.delete(key);
+    if (removed) {
+      this.persist({ key, deleted: true });
+    }
+    return removed;
+  }
+
+  /**
+   * Get all stored records
+   * @returns Array of records in insertion order
+   */
+  public values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Load records by replaying the change log. A store last written as a
+   * single JSON file is converted to a change log first.
+   * @param legacyPath Path of the single-file format
+   * @returns Map of records
+   */
+  private load(legacyPath: string): Map<string, T> {
+    if (!this.log.exists() && fs.existsSync(legacyPath)) {
+      let legacy: Record<string, T>;
+      try {
+        legacy = JSON.parse(fs.readFileSync(legacyPath, "utf8"));
+      } catch (error) {
+        throw new CorruptLogError(legacyPath, 1, (error as Error).message);
+      }
+
+      this.log.rewrite(
+        Object.entries(legacy).map(([key, value]) => ({ key, value }))
+      );
+      fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+    }
+
+    const records = new Map<string, T>();
+    const changes = this.log.read();
+
+    for (const change of changes) {
+      if (change.deleted) {
+        records.delete(change.key);
+      } else {
+        records.set(change.key, change.value as T);
+      }
+    }
+
+    this.lines = changes.length;
+    return records;
+  }
+
+  /**
+   * Append a change to the log, compacting it when it has grown too long
+   * @param change Change to persist
+   */
+  private persist(change: JsonFileStoreChange<T>): void {
+    try {
+      if (this.lines >= this.records.size * 2 + COMPACT_SLACK) {
+        this.log.rewrite(
+          Array.from(this.records, ([key, value]) => ({ key, value }))
+        );
+        this.lines = this.records.size;
+        return;
+      }
+
+      this.log.append(change);
+      this.lines++;
+    } catch (error) {
+      console.error(`Failed to persist store ${this.log.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { ethers } from "ethers";
+
+// How long a released nonce waits to be reused before it is filled
+const GAP_FILL_DELAY_MS = 5000;
+
+/**
+ * Serialises nonce allocation for a single signing account so concurrent
+ * transactions never collide.
+ *
+ * Nonces released after a failed broadcast are reused before new ones are
+ * handed out, and the manager resyncs with the chain's pending transaction
+ * count on startup, whenever it is idle, and after a nonce error. A released
+ * nonce below one still in flight is a gap that holds back every later
+ * transaction; if no new transaction takes it within GAP_FILL_DELAY_MS, it
+ * is filled with a zero-value transfer to the signer itself.
+ */
+export class NonceManager {
+  private readonly signer: ethers.Signer;
+  private nextNonce?: number;
+  private released: number[] = [];
+  private inFlight = new Set<number>();
+  private lock: Promise<unknown> = Promise.resolve();
+  private gapFillTimer?: NodeJS.Timeout;
+
+  constructor(signer: ethers.Signer) {
+    this.signer = signer;
+  }
+
+  /**
+   * Resync the next nonce with the chain's pending transaction count
+   * @returns Next nonce to be allocated
+   */
+  public async sync(): Promise<number> {
+    return this.runExclusive(() => this.syncUnlocked());
+  }
+
+  /**
+   * Number of allocated nonces whose transactions have not completed
+   */
+  public get pendingCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Allocate a nonce, run the send function with it and manage the nonce
+   * according to the outcome. Nonce errors trigger a resync and one retry.
+   * @param send Function broadcasting a transaction with the given nonce
+   * @returns Result of the send function
+   */
+  public async sendWithNonce<T>(
+    send: (nonce: number) => Promise<T>
+  ): Promise<T> {
+    const nonce = await this.allocate();
+
+    try {
+      return await send(nonce);
+    } catch (error) {
+      if (!this.isNonceError(error)) {
+        this.release(nonce);
+        throw error;
+      }
+
+      console.warn(
+        `Nonce ${nonce} rejected (${(error as any).code}), resyncing with chain`
+      );
+      this.inFlight.delete(nonce);
+      await this.sync();
+
+      const retryNonce = await this.allocate();
+      try {
+        return await send(retryNonce);
+      } catch (retryError) {
+        this.release(retryNonce);
+        throw retryError;
+      }
+    }
+  }
+
+  /**
+   * Mark a nonce as finished once its transaction has been mined
+   * @param nonce Nonce of the completed transaction
+   */
+  public complete(nonce: number): void {
+    this.inFlight.delete(nonce);
+  }
+
+  /**
+   * Allocate the next nonce
+   * @returns Allocated nonce
+   */
+  public async allocate(): Promise<number> {
+    return this.runExclusive(async () => {
+      if (this.nextNonce === undefined || this.inFlight.size === 0) {
+        await this.syncUnlocked();
+      }
+
+      const nonce =
+        this.released.length > 0
+          ? (this.released.shift() as number)
+          : (this.nextNonce as number);
+
+      if (nonce === this.nextNonce) {
+        this.nextNonce++;
+      }
+
+      this.inFlight.add(nonce);
+      return nonce;
+    });
+  }
+
+  /**
+   * Return a nonce whose transaction was never broadcast so it can be reused
+   * @param nonce Nonce to release
+   */
+  public release(nonce: number): void {
+    this.inFlight.delete(nonce);
+
+    if (!this.released.includes(nonce)) {
+      this.released.push(nonce);
+      this.released.sort((a, b) => a - b);
+    }
+
+    // Released nonces at the top are handed out again as new ones
+    while (
+      this.nextNonce !== undefined &&
+      this.released[this.released.length - 1] === this.nextNonce - 1
+    ) {
+      this.released.pop();
+      this.nextNonce--;
+    }
+
+    if (this.released.length > 0) {
+      this.scheduleGapFill();
+    }
+  }
+
+  /**
+   * Fill released nonces after GAP_FILL_DELAY_MS unless allocated before
+   */
+  private scheduleGapFill(): void {
+    if (this.gapFillTimer) {
+      return;
+    }
+
+    this.gapFillTimer = setTimeout(() => {
+      this.gapFillTimer = undefined;
+      this.fillGaps().catch((error) => {
+        console.error("Failed to fill nonce gaps:", error);
+      });
+    }, GAP_FILL_DELAY_MS);
+    this.gapFillTimer.unref();
+  }
+
+  /**
+   * Send a zero-value self-transfer with every released nonce, so that the
+   * transactions after them can be mined
+   */
+  private async fillGaps(): Promise<void> {
+    const gaps = await this.runExclusive(async () => {
+      const taken = this.released;
+      this.released = [];
+      taken.forEach((nonce) => this.inFlight.add(nonce));
+      return taken;
+    });
+
+    const address = await this.signer.getAddress();
+
+    for (const nonce of gaps) {
+      try {
+        const tx = await this.signer.sendTransaction({
+          to: address,
+          value: 0,
+          nonce,
+        });
+        console.warn(`Filled nonce gap ${nonce} of ${address}: ${tx.hash}`);
+
+        tx.wait()
+          .catch(() => undefined)
+          .finally(() => this.complete(nonce));
+      } catch (error) {
+        if (this.isNonceError(error)) {
+          // Something else was mined with it meanwhile
+          this.complete(nonce);
+        } else {
+          console.error(`Failed to fill nonce gap ${nonce}:`, error);
+          this.release(nonce);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resync without taking the lock
+   * @returns Next nonce to be allocated
+   */
+  private async syncUnlocked(): Promise<number> {
+    const pendingCount = await this.signer.getTransactionCount("pending");
+
+    const inFlightNext = Array.from(this.inFlight, (nonce) => nonce + 1);
+
+    this.nextNonce = Math.max(pendingCount, ...inFlightNext);
+    this.released = this.released.filter((nonce) => nonce >= pendingCount);
+
+    return this.nextNonce;
+  }
+
+  /**
+   * Check whether an error means the nonce was already used
+   * @param error Caught error
+   * @returns true for nonce errors
+   */
+  private isNonceError(error: unknown): boolean {
+    const code = (error as any)?.code;
+    const message = ((error as any)?.message || "").toLowerCase();
+
+    return (
+      code === "NONCE_EXPIRED" ||
+      code === "REPLACEMENT_UNDERPRICED" ||
+      message.includes("nonce too low") ||
+      message.includes("nonce has already been used")
+    );
+  }
+
+  /**
+   * Run a function while holding the allocation lock
+   * @param fn Function to run
+   * @returns Result of the function
+   */
+  private runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,172 @@
+import { ethers } from "ethers";
+import {
+  IDRXTransferManager,
+  connectTransferManager,
+} from "../contracts/IDRXTransferManager";
+import { ServiceError } from "../types";
+import { NonceManager } from "./nonceManager";
+
+/**
+ * Lifecycle status of an operator key.
+ * Draining operators finish their in-flight transactions but get no new
+ * transfers; retired operators are removed from rotation.
+ */
+export type OperatorStatus = "active" | "draining" | "retired";
+
+/**
+ * Interface for an operator account in the pool
+ */
+export interface Operator {
+  address: string;
+  signer: ethers.Signer;
+  contract: IDRXTransferManager;
+  nonceManager: NonceManager;
+  status: OperatorStatus;
+  leases: number;
+  addedAt: number;
+}
+
+/**
+ * Pool of operator accounts that transfers are distributed across. Each
+ * operator has its own nonce manager; transfers go to the active operator
+ * with the fewest pending transactions.
+ */
+export class OperatorPool {
+  private readonly provider: ethers.providers.Provider;
+  private readonly contractAddress: string;
+  private operators = new Map<string, Operator>();
+
+  constructor(
+    provider: ethers.providers.Provider,
+    contractAddress: string
+  ) {
+    this.provider = provider;
+    this.contractAddress = contractAddress;
+  }
+
+  /**
+   * Add an operator signer to the pool, or reactivate a retired one
+   * @param signer Signer connected to the Lisk provider
+   * @returns Added operator
+   */
+  public async addSigner(signer: ethers.Signer): Promise<Operator> {
+    const address = await signer.getAddress();
+    const existing = this.get(address);
+
+    if (existing && existing.status !== "retired") {
+      throw new ServiceError(
+        `Operator ${address} is already in the pool`,
+        409
+      );
+    }
+
+    const operator: Operator = {
+      address,
+      signer,
+      contract: connectTransferManager(this.contractAddress, signer),
+      nonceManager: new NonceManager(signer),
+      status: "active",
+      leases: 0,
+      addedAt: Date.now(),
+    };
+
+    this.operators.set(address.toLowerCase(), operator);
+    return operator;
+  }
+
+  /**
+   * Get an operator by address
+   * @param address Operator address
+   * @returns Operator or undefined
+   */
+  public get(address: string): Operator | undefined {
+    return this.operators.get(address.toLowerCase());
+  }
+
+  /**
+   * List all operators, including retired ones
+   * @returns Operators in the order they were added
+   */
+  public list(): Operator[] {
+    return Array.from(this.operators.values());
+  }
+
+  /**
+   * Get the primary operator, which sends transfer limit updates and signs
+   * simulations: the first operator added that is not retired
+   * @returns Primary operator or undefined if all are retired
+   */
+  public primary(): Operator | undefined {
+    return this.list().find((operator) => operator.status !== "retired");
+  }
+
+  /**
+   * Change the status of an operator
+   * @param address Operator address
+   * @param status New status
+   */
+  public setStatus(address: string, status: OperatorStatus): void {
+    const operator = this.get(address);
+
+    if (!operator) {
+      throw new ServiceError(`Operator not found: ${address}`, 404);
+    }
+
+    operator.status = status;
+  }
+
+  /**
+   * Number of transactions an operator has in flight or being broadcast
+   * @param operator Operator
+   * @returns Pending transaction count
+   */
+  public load(operator: Operator): number {
+    return operator.nonceManager.pendingCount + operator.leases;
+  }
+
+  /**
+   * Run a function with the least loaded active operator. The operator
+   * counts as loaded while the function runs, so concurrent callers are
+   * spread across the pool before their nonces are allocated.
+   * @param fn Function sending a transaction with the operator
+   * @param prefer Optional filter of operators to pick from first; all
+   * active operators are used if none match
+   * @returns Result of the function
+   */
+  public async withOperator<T>(
+    fn: (operator: Operator) => Promise<T>,
+    prefer?: (operator: Operator) => boolean
+  ): Promise<T> {
+    const active = this.list().filter((op) => op.status === "active");
+
+    if (active.length === 0) {
+      throw new ServiceError(
+        "Service is currently unavailable (no active operator)",
+        503
+      );
+    }
+
+    const preferred = prefer ? active.filter(prefer) : [];
+    const candidates = preferred.length > 0 ? preferred : active;
+
+    const operator = candidates.reduce((least, op) =>
+      this.load(op) < this.load(least) ? op : least
+    );
+
+    operator.leases++;
+    try {
+      return await fn(operator);
+    } finally {
+      operator.leases--;
+    }
+  }
+
+  /**
+   * Mark a mined transaction's nonce as finished for its operator
+   * @param address Address that sent the transaction
+   * @param nonce Transaction nonce
+   */
+  public complete(address: string, nonce: number): void {
+    this.get(address)?.nonceManager.complete(nonce);
+  }
+}
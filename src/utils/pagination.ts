@@ -0,0 +1,34 @@
+/**
+ * Interface for pagination info returned with a page of results
+ */
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Take one page of an already filtered and sorted list
+ * @param items All matching items
+ * @param page Page number, starting at 1
+ * @param limit Items per page
+ * @returns Items on the page with pagination info
+ */
+export const paginate = <T>(
+  items: T[],
+  page: number,
+  limit: number
+): { items: T[]; pagination: Pagination } => {
+  const offset = (page - 1) * limit;
+
+  return {
+    items: items.slice(offset, offset + limit),
+    pagination: {
+      page,
+      limit,
+      total: items.length,
+      hasMore: offset + limit < items.length,
+    },
+  };
+};
@@ -0,0 +1,124 @@
+import axios, { AxiosInstance } from "axios";
+import { ethers } from "ethers";
+
+/**
+ * Options for connecting to a remote signing service
+ */
+export interface RemoteSignerOptions {
+  url: string;
+  authToken?: string;
+  timeoutMs: number;
+}
+
+/**
+ * Create the HTTP client used to talk to a remote signing service
+ * @param options Remote signer options
+ * @returns Axios client bound to the service
+ */
+export const createRemoteSignerClient = (
+  options: RemoteSignerOptions
+): AxiosInstance => {
+  return axios.create({
+    baseURL: options.url.replace(/\/+$/, ""),
+    timeout: options.timeoutMs,
+    headers: options.authToken
+      ? { Authorization: `Bearer ${options.authToken}` }
+      : {},
+  });
+};
+
+/**
+ * List the accounts a remote signing service can sign for
+ * @param client Remote signer HTTP client
+ * @returns Account addresses
+ */
+export const fetchRemoteAccounts = async (
+  client: AxiosInstance
+): Promise<string[]> => {
+  const response = await client.get("/accounts");
+  const addresses: unknown = response.data?.addresses;
+
+  if (!Array.isArray(addresses)) {
+    throw new Error("Remote signer returned no account list");
+  }
+
+  return addresses.map((address) => ethers.utils.getAddress(address));
+};
+
+/**
+ * Signer whose key is held by a remote signing service.
+ *
+ * The service exposes `GET /accounts`, `POST /sign-transaction` (unsigned
+ * serialized transaction in, signed serialized transaction out) and
+ * `POST /sign-message`. Signed transactions are checked against the
+ * expected account before they are used.
+ */
+export class RemoteSigner extends ethers.Signer {
+  private readonly client: AxiosInstance;
+  private readonly address: string;
+
+  constructor(
+    client: AxiosInstance,
+    address: string,
+    provider?: ethers.providers.Provider
+  ) {
+    super();
+    this.client = client;
+    this.address = ethers.utils.getAddress(address);
+    ethers.utils.defineReadOnly(this, "provider", provider);
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  public async signMessage(message: ethers.Bytes | string): Promise<string> {
+    const data =
+      typeof message === "string"
+        ? ethers.utils.toUtf8Bytes(message)
+        : message;
+
+    const response = await this.client.post("/sign-message", {
+      address: this.address,
+      message: ethers.utils.hexlify(data),
+    });
+    const signature: string = response.data?.signature;
+
+    const signer = ethers.utils.verifyMessage(data, signature);
+    if (signer !== this.address) {
+      throw new Error(`Remote signer signed message as ${signer}`);
+    }
+
+    return signature;
+  }
+
+  public async signTransaction(
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+  ): Promise<string> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+
+    if (tx.from && ethers.utils.getAddress(tx.from) !== this.address) {
+      throw new Error(`Transaction from ${tx.from} cannot be signed remotely`);
+    }
+
+    const { from, ...unsigned } = tx;
+    const response = await this.client.post("/sign-transaction", {
+      address: this.address,
+      transaction: ethers.utils.serializeTransaction(
+        unsigned as ethers.utils.UnsignedTransaction
+      ),
+    });
+    const signedTransaction: string = response.data?.signedTransaction;
+
+    const signed = ethers.utils.parseTransaction(signedTransaction);
+    if (signed.from !== this.address) {
+      throw new Error(`Remote signer signed transaction as ${signed.from}`);
+    }
+
+    return signedTransaction;
+  }
+
+  public connect(provider: ethers.providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.client, this.address, provider);
+  }
+}
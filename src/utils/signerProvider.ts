@@ -0,0 +1,191 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import config from "../config/config";
+import {
+  RemoteSigner,
+  RemoteSignerOptions,
+  createRemoteSignerClient,
+  fetchRemoteAccounts,
+} from "./remoteSigner";
+
+/**
+ * Source of the operator signers transfers are sent from
+ */
+export interface SignerProvider {
+  readonly type: string;
+
+  /**
+   * Load the operator signers, connected to the given provider
+   * @param provider Lisk network provider
+   * @returns Signers, the primary operator first
+   */
+  getSigners(provider: ethers.providers.Provider): Promise<ethers.Signer[]>;
+
+  /**
+   * Load the signer of one account, e.g. to add it to the pool at runtime
+   * @param provider Lisk network provider
+   * @param address Account address
+   * @returns Signer, or undefined if the provider has no such account
+   */
+  findSigner(
+    provider: ethers.providers.Provider,
+    address: string
+  ): Promise<ethers.Signer | undefined>;
+}
+
+/**
+ * Check whether two addresses are the same account
+ * @param a Address
+ * @param b Address, with or without 0x
+ * @returns true if they match
+ */
+const sameAddress = (a: string, b: string): boolean =>
+  a.toLowerCase().replace(/^0x/, "") === b.toLowerCase().replace(/^0x/, "");
+
+/**
+ * Signers from raw private keys in OPERATOR_PRIVATE_KEY(S)
+ */
+export class EnvSignerProvider implements SignerProvider {
+  public readonly type = "env";
+  private readonly privateKeys: string[];
+
+  constructor(privateKeys: string[]) {
+    this.privateKeys = privateKeys;
+  }
+
+  public async getSigners(
+    provider: ethers.providers.Provider
+  ): Promise<ethers.Signer[]> {
+    return this.privateKeys.map((key) => new ethers.Wallet(key, provider));
+  }
+
+  public async findSigner(
+    provider: ethers.providers.Provider,
+    address: string
+  ): Promise<ethers.Signer | undefined> {
+    return (await this.getSigners(provider)).find((wallet) =>
+      sameAddress((wallet as ethers.Wallet).address, address)
+    );
+  }
+}
+
+/**
+ * Signers from encrypted JSON keystore files, unlocked with a passphrase
+ * read from a file
+ */
+export class KeystoreSignerProvider implements SignerProvider {
+  public readonly type = "keystore";
+  private readonly keystorePaths: string[];
+  private readonly passphraseFile: string;
+
+  constructor(keystorePaths: string[], passphraseFile: string) {
+    this.keystorePaths = keystorePaths;
+    this.passphraseFile = passphraseFile;
+  }
+
+  public async getSigners(
+    provider: ethers.providers.Provider
+  ): Promise<ethers.Signer[]> {
+    const passphrase = fs.readFileSync(this.passphraseFile, "utf8").trim();
+    const signers: ethers.Signer[] = [];
+
+    // Decrypted one at a time: keystore decryption is CPU and memory heavy
+    for (const path of this.keystorePaths) {
+      try {
+        const wallet = await ethers.Wallet.fromEncryptedJson(
+          fs.readFileSync(path, "utf8"),
+          passphrase
+        );
+        signers.push(wallet.connect(provider));
+      } catch (error) {
+        throw new Error(
+          `Failed to unlock keystore ${path}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return signers;
+  }
+
+  public async findSigner(
+    provider: ethers.providers.Provider,
+    address: string
+  ): Promise<ethers.Signer | undefined> {
+    const passphrase = fs.readFileSync(this.passphraseFile, "utf8").trim();
+
+    // Keystores name their account, so only the matching one is decrypted
+    for (const path of this.keystorePaths) {
+      const json = fs.readFileSync(path, "utf8");
+
+      if (sameAddress(JSON.parse(json).address || "", address)) {
+        const wallet = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+        return wallet.connect(provider);
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Signers for the accounts of a remote signing service
+ */
+export class RemoteSignerProvider implements SignerProvider {
+  public readonly type = "remote";
+  private readonly options: RemoteSignerOptions;
+
+  constructor(options: RemoteSignerOptions) {
+    this.options = options;
+  }
+
+  public async getSigners(
+    provider: ethers.providers.Provider
+  ): Promise<ethers.Signer[]> {
+    const client = createRemoteSignerClient(this.options);
+    const addresses = await fetchRemoteAccounts(client);
+
+    if (addresses.length === 0) {
+      throw new Error("Remote signer has no accounts");
+    }
+
+    return addresses.map(
+      (address) => new RemoteSigner(client, address, provider)
+    );
+  }
+
+  public async findSigner(
+    provider: ethers.providers.Provider,
+    address: string
+  ): Promise<ethers.Signer | undefined> {
+    const client = createRemoteSignerClient(this.options);
+    const match = (await fetchRemoteAccounts(client)).find((account) =>
+      sameAddress(account, address)
+    );
+
+    return match ? new RemoteSigner(client, match, provider) : undefined;
+  }
+}
+
+/**
+ * Create the signer provider selected by SIGNER_TYPE
+ * @returns Signer provider
+ */
+export const createSignerProvider = (): SignerProvider => {
+  const { signer } = config;
+
+  switch (signer.type) {
+    case "keystore":
+      return new KeystoreSignerProvider(
+        signer.keystorePaths,
+        signer.keystorePassphraseFile as string
+      );
+    case "remote":
+      return new RemoteSignerProvider({
+        url: signer.remoteUrl as string,
+        authToken: signer.remoteAuthToken,
+        timeoutMs: signer.remoteTimeoutMs,
+      });
+    default:
+      return new EnvSignerProvider(config.blockchain.operatorPrivateKeys);
+  }
+};